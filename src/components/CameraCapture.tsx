@@ -0,0 +1,213 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Check, Crop, RotateCcw, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { preprocessImage, type CropRect } from '../utils/imagePreprocessing';
+
+interface CameraCaptureProps {
+  photo: File;
+  onConfirm: (files: File[]) => void; // the processed images to add to the upload
+  onCancel: () => void;
+}
+
+type ProcessingOption = 'straighten' | 'boostContrast' | 'split';
+
+const OPTION_LABELS: Record<ProcessingOption, string> = {
+  straighten: 'Straighten',
+  boostContrast: 'Boost contrast',
+  split: 'Split into problems',
+};
+
+// Drags shorter than this are taken as clicks, not crops
+const MIN_CROP = 20;
+
+/**
+ * Crop, straighten and clean up a phone photo before it is sent for OCR.
+ * The processed images are previewed and only added to the upload once the
+ * student confirms them.
+ */
+const CameraCapture = ({ photo, onConfirm, onCancel }: CameraCaptureProps) => {
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [crop, setCrop] = useState<CropRect | null>(null); // in displayed pixels
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [options, setOptions] = useState<Record<ProcessingOption, boolean>>({ straighten: true, boostContrast: true, split: false });
+  const [previews, setPreviews] = useState<{ file: File; url: string }[]>([]);
+  const [skew, setSkew] = useState(0);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(photo);
+    setPhotoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo]);
+
+  useEffect(() => {
+    return () => previews.forEach(preview => URL.revokeObjectURL(preview.url));
+  }, [previews]);
+
+  // Re-run the processing whenever the crop or an option changes; a newer run replaces an older one
+  useEffect(() => {
+    if (dragStart) return;
+    let cancelled = false;
+    const image = imageRef.current;
+    const scale = image && image.clientWidth ? image.naturalWidth / image.clientWidth : 1;
+    const photoCrop = crop && {
+      x: Math.round(crop.x * scale),
+      y: Math.round(crop.y * scale),
+      width: Math.round(crop.width * scale),
+      height: Math.round(crop.height * scale),
+    };
+
+    setIsProcessing(true);
+    setError(null);
+    preprocessImage(photo, { ...options, crop: photoCrop || undefined })
+      .then(result => {
+        if (cancelled) return;
+        setPreviews(result.files.map(file => ({ file, url: URL.createObjectURL(file) })));
+        setSkew(result.skew);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error processing photo:', err);
+        setError('This photo could not be processed. You can still use the original.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsProcessing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [photo, crop, options, dragStart]);
+
+  const pointerPosition = (event: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max(event.clientX - bounds.left, 0), bounds.width),
+      y: Math.min(Math.max(event.clientY - bounds.top, 0), bounds.height),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragStart(pointerPosition(event));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const point = pointerPosition(event);
+    setCrop({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (crop && (crop.width < MIN_CROP || crop.height < MIN_CROP)) setCrop(null);
+    setDragStart(null);
+  };
+
+  const toggleOption = (option: ProcessingOption) => {
+    setOptions(current => ({ ...current, [option]: !current[option] }));
+  };
+
+  return (
+    <div className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20 mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <Camera className="w-5 h-5 text-[#ffffff]" />
+        <h4 className="text-sm font-medium text-[#ffffff]">Prepare Photo</h4>
+        <span className="flex items-center gap-1 text-xs text-stone-400 ml-auto">
+          <Crop className="w-3 h-3" />
+          Drag over the photo to crop to one problem
+        </span>
+      </div>
+
+      <div
+        className="relative select-none touch-none cursor-crosshair mb-4"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {photoUrl && <img ref={imageRef} src={photoUrl} alt={photo.name} draggable={false} className="w-full rounded-lg" />}
+        {crop && (
+          <div
+            className="absolute border-2 border-[#ffffff] bg-[#ffffff]/10 pointer-events-none"
+            style={{ left: crop.x, top: crop.y, width: crop.width, height: crop.height }}
+          />
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(Object.keys(OPTION_LABELS) as ProcessingOption[]).map(option => (
+          <button
+            key={option}
+            onClick={() => toggleOption(option)}
+            className={`text-xs px-3 py-1 rounded-full border transition-all ${
+              options[option] ? 'bg-[#ffffff] text-[#0d0d0d] border-[#ffffff]' : 'border-[#ffffff]/30 text-stone-300 hover:bg-[#ffffff]/10'
+            }`}
+          >
+            {OPTION_LABELS[option]}
+          </button>
+        ))}
+        {crop && (
+          <button
+            onClick={() => setCrop(null)}
+            className="flex items-center gap-1 text-xs px-3 py-1 rounded-full border border-[#ffffff]/30 text-stone-300 hover:bg-[#ffffff]/10"
+          >
+            <RotateCcw className="w-3 h-3" />
+            Reset crop
+          </button>
+        )}
+      </div>
+
+      <div className="mb-4">
+        <p className="text-sm font-medium text-[#ffffff] mb-2">
+          Preview{previews.length > 1 ? ` (${previews.length} problems)` : ''}
+          {skew !== 0 && <span className="text-xs text-stone-400 font-normal"> · straightened by {Math.abs(skew)}°</span>}
+        </p>
+        {isProcessing ? (
+          <p className="text-sm text-stone-400">Processing photo...</p>
+        ) : error ? (
+          <p className="text-sm text-red-400">{error}</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {previews.map(preview => (
+              <img key={preview.url} src={preview.url} alt={preview.file.name} className="w-full rounded-lg border border-[#ffffff]/20 bg-white" />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 justify-end">
+        <Button
+          onClick={onCancel}
+          variant="outline"
+          className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+        >
+          <X className="w-4 h-4 mr-2" />
+          Discard
+        </Button>
+        <Button
+          onClick={() => onConfirm([photo])}
+          variant="outline"
+          className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+        >
+          Use Original
+        </Button>
+        <Button
+          onClick={() => onConfirm(previews.map(preview => preview.file))}
+          disabled={isProcessing || previews.length === 0}
+          className="bg-[#ffffff] text-[#0d0d0d] hover:bg-[#fde6c4]"
+        >
+          <Check className="w-4 h-4 mr-2" />
+          Use {previews.length > 1 ? `${previews.length} Images` : 'Image'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
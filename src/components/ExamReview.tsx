@@ -0,0 +1,302 @@
+import { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, ChevronLeft, ChevronRight, Clock, Flag, MessageCircle, Square } from 'lucide-react';
+import { Button } from './ui/button';
+import MathText from './MathText';
+import { examSimulatorService, type SimulatorExam } from '../services/examSimulatorService';
+import type { ExamAttempt } from '../services/databaseService';
+import { choiceIndex, type GradeStatus } from '../services/gradingService';
+import { getUserErrorMessage } from '../services/modelErrors';
+
+interface ExamReviewProps {
+  exam: SimulatorExam;
+  attempt: ExamAttempt; // answers are in question order
+  language: string;
+  onBack: () => void;
+}
+
+type ReviewFilter = 'all' | 'wrong' | 'flagged' | 'unanswered';
+
+const FILTER_LABELS: Record<ReviewFilter, string> = {
+  all: 'All',
+  wrong: 'Wrong',
+  flagged: 'Flagged',
+  unanswered: 'Unanswered',
+};
+
+const STATUS_STYLES: Record<GradeStatus, { label: string; color: string }> = {
+  correct: { label: 'Correct', color: 'text-green-400 bg-green-400/20 border-green-400/30' },
+  partial: { label: 'Partly correct', color: 'text-yellow-400 bg-yellow-400/20 border-yellow-400/30' },
+  incorrect: { label: 'Incorrect', color: 'text-red-400 bg-red-400/20 border-red-400/30' },
+  unanswered: { label: 'Unanswered', color: 'text-stone-400 bg-stone-400/20 border-stone-400/30' },
+  ungraded: { label: 'Not graded', color: 'text-stone-400 bg-stone-400/20 border-stone-400/30' },
+};
+
+const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+/**
+ * Walks through a submitted attempt question by question: the student's
+ * answer next to the correct one, the points earned, the explanation and,
+ * on request, a longer explanation from the model.
+ */
+const ExamReview = ({ exam, attempt, language, onBack }: ExamReviewProps) => {
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+  const [position, setPosition] = useState(0);
+  const [explanations, setExplanations] = useState<Record<number, string>>({});
+  const [explainingIndex, setExplainingIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const matchesFilter = (index: number, reviewFilter: ReviewFilter) => {
+    const answer = attempt.answers[index];
+    switch (reviewFilter) {
+      case 'wrong': return answer?.status === 'incorrect' || answer?.status === 'partial';
+      case 'flagged': return !!answer?.flagged;
+      case 'unanswered': return !answer || answer.status === 'unanswered';
+      default: return true;
+    }
+  };
+
+  const visible = exam.questions.map((_, index) => index).filter(index => matchesFilter(index, filter));
+  const questionIndex = visible[Math.min(position, visible.length - 1)];
+  const question = questionIndex !== undefined ? exam.questions[questionIndex] : undefined;
+  const answer = questionIndex !== undefined ? attempt.answers[questionIndex] : undefined;
+
+  const handleFilterChange = (reviewFilter: ReviewFilter) => {
+    setFilter(reviewFilter);
+    setPosition(0);
+  };
+
+  const handleExplain = async () => {
+    if (!question || explainingIndex !== null) return;
+    const index = questionIndex;
+    setError(null);
+    setExplainingIndex(index);
+    abortControllerRef.current = new AbortController();
+    const signal = abortControllerRef.current.signal;
+
+    try {
+      const explanation = await examSimulatorService.explainQuestion(question, answer, language, {
+        signal,
+        onText: text => setExplanations(prev => ({ ...prev, [index]: text })),
+      });
+      setExplanations(prev => ({ ...prev, [index]: explanation }));
+    } catch (err) {
+      if (!signal.aborted) {
+        console.error('Error explaining question:', err);
+        setError(getUserErrorMessage(err, 'The explanation could not be loaded. Please try again.'));
+      }
+    } finally {
+      setExplainingIndex(null);
+    }
+  };
+
+  const renderChoices = () => {
+    if (!question) return null;
+    const options = question.type === 'true-false' ? ['True', 'False'] : question.options || [];
+    const correct = choiceIndex(question, question.correctAnswer);
+    const chosenIndex = choiceIndex(question, answer?.answer ?? null);
+    return (
+      <div className="space-y-2 mb-6">
+        {options.map((option, index) => {
+          const chosen = chosenIndex === index;
+          const style = index === correct
+            ? 'border-green-400/50 bg-green-400/10 text-green-300'
+            : chosen
+              ? 'border-red-400/50 bg-red-400/10 text-red-300'
+              : 'border-stone-700 bg-stone-800/50 text-stone-300';
+          return (
+            <div key={index} className={`p-3 rounded-lg border ${style}`}>
+              <span className="font-medium mr-3">{String.fromCharCode(65 + index)}.</span>
+              <MathText text={option} />
+              {chosen && <span className="text-xs ml-2 opacity-80">(your answer)</span>}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const isChoice = question?.type === 'multiple-choice' || question?.type === 'true-false';
+
+  return (
+    <div className="min-h-screen bg-[#0d0d0d] p-6">
+      <div className="max-w-4xl mx-auto">
+        <Button
+          onClick={onBack}
+          variant="outline"
+          className="mb-6 border-[#FEFBF6]/30 text-[#FEFBF6] hover:bg-[#FEFBF6]/10"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+
+        <div className="bg-stone-900/50 rounded-2xl p-6 shadow-lg border border-[#FEFBF6]/20 backdrop-blur-sm mb-6">
+          <h1 className="text-xl font-bold text-[#FEFBF6] mb-1">Review: {exam.title}</h1>
+          <p className="text-stone-400 mb-4">
+            {attempt.score}% · {attempt.earnedPoints} / {attempt.totalPoints} points · {attempt.completedAt.toLocaleString()}
+          </p>
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            {(Object.keys(FILTER_LABELS) as ReviewFilter[]).map(reviewFilter => (
+              <button
+                key={reviewFilter}
+                onClick={() => handleFilterChange(reviewFilter)}
+                className={`text-xs px-3 py-1 rounded-full border transition-all ${
+                  filter === reviewFilter ? 'bg-[#FEFBF6] text-[#0d0d0d] border-[#FEFBF6]' : 'border-[#FEFBF6]/30 text-stone-300 hover:bg-[#FEFBF6]/10'
+                }`}
+              >
+                {FILTER_LABELS[reviewFilter]} ({exam.questions.filter((_, index) => matchesFilter(index, reviewFilter)).length})
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {visible.map((index, visiblePosition) => {
+              const status = attempt.answers[index]?.status || 'unanswered';
+              return (
+                <button
+                  key={index}
+                  onClick={() => setPosition(visiblePosition)}
+                  className={`w-9 h-9 rounded-lg border text-sm font-medium ${STATUS_STYLES[status].color} ${
+                    index === questionIndex ? 'ring-2 ring-[#FEFBF6]' : ''
+                  }`}
+                >
+                  {index + 1}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {!question ? (
+          <div className="bg-stone-900/50 rounded-2xl p-8 border border-[#FEFBF6]/20 text-center text-stone-400">
+            No {FILTER_LABELS[filter].toLowerCase()} questions in this attempt.
+          </div>
+        ) : (
+          <div className="bg-stone-900/50 rounded-2xl p-8 shadow-lg border border-[#FEFBF6]/20 backdrop-blur-sm">
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+              <span className="text-sm text-stone-400">Question {questionIndex + 1} of {exam.questions.length}</span>
+              <span className={`text-xs px-2 py-1 rounded-full border font-medium ${STATUS_STYLES[answer?.status || 'unanswered'].color}`}>
+                {STATUS_STYLES[answer?.status || 'unanswered'].label}
+              </span>
+              {answer?.flagged && (
+                <span className="flex items-center gap-1 text-xs text-yellow-400">
+                  <Flag className="w-3 h-3" />
+                  Flagged
+                </span>
+              )}
+              <span className="ml-auto flex items-center gap-3 text-sm text-stone-300">
+                {answer && (
+                  <span className="flex items-center gap-1 text-stone-400">
+                    <Clock className="w-3 h-3" />
+                    {formatSeconds(answer.timeSpent)}
+                  </span>
+                )}
+                {answer?.earned ?? 0} / {answer?.points ?? question.points} points
+              </span>
+            </div>
+
+            <h2 className="text-xl text-[#FEFBF6] mb-6"><MathText text={question.question} /></h2>
+
+            {isChoice ? renderChoices() : (
+              <div className="grid gap-4 md:grid-cols-2 mb-6">
+                <div className="bg-stone-800/50 rounded-lg p-4 border border-stone-700">
+                  <p className="text-xs text-stone-400 mb-2">Your answer</p>
+                  <div className="text-stone-200 whitespace-pre-wrap">
+                    <MathText text={examSimulatorService.formatAnswer(question, answer?.answer)} />
+                  </div>
+                </div>
+                <div className="bg-green-400/10 rounded-lg p-4 border border-green-400/30">
+                  <p className="text-xs text-green-300 mb-2">Correct answer</p>
+                  <div className="text-stone-200 whitespace-pre-wrap">
+                    <MathText text={question.correctAnswer !== undefined ? String(question.correctAnswer) : 'No answer key'} />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {answer?.feedback && (
+              <div className="bg-stone-800/50 rounded-lg p-4 border border-[#FEFBF6]/20 mb-4">
+                <p className="text-xs text-stone-400 mb-2">Grading feedback</p>
+                <p className="text-sm text-stone-200">{answer.feedback}</p>
+                {answer.rubric && answer.rubric.length > 0 && (
+                  <ul className="mt-3 space-y-1">
+                    {answer.rubric.map(criterion => (
+                      <li key={criterion.criterion} className="text-xs text-stone-400">
+                        <span className="text-stone-300">{criterion.criterion}</span> ({criterion.earned}/{criterion.max})
+                        {criterion.comment && <> – {criterion.comment}</>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {question.explanation && (
+              <div className="bg-stone-800/50 rounded-lg p-4 border border-[#FEFBF6]/20 mb-4">
+                <p className="text-xs text-stone-400 mb-2">Explanation</p>
+                <div className="text-sm text-stone-200"><MathText text={question.explanation} /></div>
+              </div>
+            )}
+
+            {explanations[questionIndex] && (
+              <div className="bg-[#FEFBF6]/5 rounded-lg p-4 border border-[#FEFBF6]/30 mb-4">
+                <p className="text-xs text-stone-400 mb-2">More detail</p>
+                <div className="text-sm text-stone-200 whitespace-pre-wrap"><MathText text={explanations[questionIndex]} /></div>
+              </div>
+            )}
+            {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+            <div className="flex flex-wrap justify-between items-center gap-3">
+              <Button
+                onClick={() => setPosition(Math.max(0, position - 1))}
+                disabled={position === 0}
+                variant="outline"
+                className="border-[#FEFBF6]/30 text-[#FEFBF6] hover:bg-[#FEFBF6]/10 disabled:opacity-50"
+              >
+                <ChevronLeft className="w-4 h-4 mr-2" />
+                Previous
+              </Button>
+
+              {explainingIndex === questionIndex ? (
+                <Button
+                  onClick={() => abortControllerRef.current?.abort()}
+                  variant="outline"
+                  className="border-[#FEFBF6]/30 text-[#FEFBF6] hover:bg-[#FEFBF6]/10"
+                >
+                  <Square className="w-4 h-4 mr-2" />
+                  Stop
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleExplain}
+                  disabled={explainingIndex !== null}
+                  variant="outline"
+                  className="border-[#FEFBF6]/30 text-[#FEFBF6] hover:bg-[#FEFBF6]/10 disabled:opacity-50"
+                >
+                  <MessageCircle className="w-4 h-4 mr-2" />
+                  {explanations[questionIndex] ? 'Explain Again' : 'Explain Further'}
+                </Button>
+              )}
+
+              <Button
+                onClick={() => setPosition(Math.min(visible.length - 1, position + 1))}
+                disabled={position >= visible.length - 1}
+                className="bg-[#FEFBF6] text-[#0d0d0d] hover:bg-[#fde6c4] disabled:opacity-50"
+              >
+                Next
+                <ChevronRight className="w-4 h-4 ml-2" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExamReview;
@@ -9,13 +9,16 @@ import {
   Zap,
   Calculator,
   Clock,
-  Target
+  Target,
+  Layers
 } from 'lucide-react';
 import { Button } from './ui/button';
+import MathText from './MathText';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
-import { examSimulatorService, type SimulatorSettings, type ExamSeries } from '../services/examSimulatorService';
-import { databaseService, type StoredExamSeries } from '../services/databaseService';
+import { examSimulatorService, type SimulatorSettings, type ExamSeries, type ExamGenerationProgress } from '../services/examSimulatorService';
+import { databaseService, type StoredExamSeries, type StoredProblemSet } from '../services/databaseService';
+import { getUserErrorMessage } from '../services/modelErrors';
 import ExamSimulatorView from './ExamSimulatorView';
 
 const Textarea = (props: any) => <textarea {...props} />;
@@ -28,17 +31,21 @@ const ExamSimulator = () => {
 
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationProgress, setGenerationProgress] = useState<ExamGenerationProgress | null>(null);
   const [generationError, setGenerationError] = useState<string | null>(null);
   const [generatedExamSeries, setGeneratedExamSeries] = useState<ExamSeries | null>(null);
   const [currentView, setCurrentView] = useState<'generator' | 'simulator'>('generator');
   const [showSavedSeries, setShowSavedSeries] = useState(false);
   const [savedExamSeries, setSavedExamSeries] = useState<StoredExamSeries[]>([]);
+  const [showProblemSets, setShowProblemSets] = useState(false);
+  const [problemSets, setProblemSets] = useState<StoredProblemSet[]>([]);
   const [simulatorSettings, setSimulatorSettings] = useState<SimulatorSettings>({
     numberOfExams: 5
   });
   const [generationStartTime, setGenerationStartTime] = useState<number | null>(null);
   const [generationElapsedTime, setGenerationElapsedTime] = useState(0);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -71,9 +78,15 @@ const ExamSimulator = () => {
     };
   }, [isGenerating, generationStartTime]);
 
-  // Load saved exam series on component mount
+  // Load saved exam series and problem sets on component mount
   useEffect(() => {
     loadSavedExamSeries();
+    loadProblemSets();
+  }, []);
+
+  // Leaving the page cancels generation; finished levels are still saved
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
   }, []);
 
   const loadSavedExamSeries = async () => {
@@ -85,6 +98,38 @@ const ExamSimulator = () => {
     }
   };
 
+  const loadProblemSets = async () => {
+    setProblemSets(await databaseService.getAllProblemSets());
+  };
+
+  // A problem set becomes a one-level series, saved like a generated one
+  const handleTakeProblemSet = async (setId: string) => {
+    try {
+      const set = await databaseService.getProblemSet(setId);
+      if (!set) return;
+      const series = examSimulatorService.createSeriesFromProblemSet(set, examTime);
+      await databaseService.saveExamSeries(series, { numberOfExams: 1, questionsPerExam: set.problems.length, timePerExam: examTime }, examTime);
+      loadSavedExamSeries();
+      setGeneratedExamSeries(series);
+      setShowProblemSets(false);
+      setCurrentView('simulator');
+    } catch (error) {
+      console.error('Error creating exam from problem set:', error);
+      setGenerationError(getUserErrorMessage(error, 'Could not create an exam from this problem set. Please try again.'));
+    }
+  };
+
+  const handleDeleteProblemSet = async (setId: string) => {
+    if (confirm(t('examsimulator.sets.delete'))) {
+      try {
+        await databaseService.deleteProblemSet(setId);
+        loadProblemSets();
+      } catch (error) {
+        console.error('Error deleting problem set:', error);
+      }
+    }
+  };
+
   const handleLoadSavedSeries = async (seriesId: string) => {
     try {
       const series = await databaseService.getExamSeries(seriesId);
@@ -147,56 +192,113 @@ const ExamSimulator = () => {
     setUploadedFiles(prev => prev.filter((_, i) => i !== index));
   };
 
-  const handleGenerateExamSeries = async () => {
-    if (!examDescription.trim() && uploadedFiles.length === 0) return;
-    
+  /**
+   * Runs a generation and saves the result. When cancelled, the levels that
+   * finished are saved as a partial series that can be resumed later.
+   */
+  const runExamGeneration = async (
+    topic: string,
+    description: string,
+    files: File[],
+    settings: SimulatorSettings,
+    time: number,
+    resumeFrom?: ExamSeries
+  ) => {
     setGenerationError(null);
     setGeneratedExamSeries(null);
     setIsGenerating(true);
+    setGenerationProgress(null);
     setGenerationStartTime(Date.now());
     setGenerationElapsedTime(0);
-    
+
+    abortControllerRef.current = new AbortController();
+    const signal = abortControllerRef.current.signal;
+    let latestProgress: ExamGenerationProgress | undefined;
+
+    const saveSeries = async (series: ExamSeries) => {
+      try {
+        if (resumeFrom) {
+          await databaseService.addExamsToSeries(series);
+        } else {
+          await databaseService.saveExamSeries(series, settings, time);
+        }
+        loadSavedExamSeries(); // Refresh the saved series list
+        console.log('Exam series saved to database');
+      } catch (error) {
+        console.error('Error saving exam series to database:', error);
+      }
+    };
+
     try {
       console.log('Starting exam series generation with Gemini AI...');
-      console.log('Description:', examDescription);
-      console.log('Files:', uploadedFiles.map(f => f.name));
-      console.log('Settings:', simulatorSettings);
+      console.log('Description:', description);
+      console.log('Files:', files.map(f => f.name));
+      console.log('Settings:', settings);
       
       const examSeries = await examSimulatorService.generateExamSeries(
-        examSeriesName.trim() || examDescription.trim(),
-        examDescription.trim(),
-        uploadedFiles,
-        simulatorSettings,
-        examTime
+        topic,
+        description,
+        files,
+        settings,
+        time,
+        {
+          signal,
+          resumeFrom,
+          onProgress: (progress) => {
+            latestProgress = progress;
+            setGenerationProgress(progress);
+          }
+        }
       );
       
       console.log('Successfully generated exam series:', examSeries.topic);
       setGeneratedExamSeries(examSeries);
-      
-      // Save to database
-      try {
-        await databaseService.saveExamSeries(examSeries, simulatorSettings,examTime);
-        loadSavedExamSeries(); // Refresh the saved series list
-        console.log('Exam series saved to database');
-      } catch (error) {
-        console.error('Error saving exam series to database:', error);
-      }
+      await saveSeries(examSeries);
 
       // Move to simulator view
       setCurrentView('simulator');
     } catch (error) {
+      // Keep finished levels so the series can be resumed after a cancel or failure
+      const partialSeries = latestProgress?.series;
+      if (partialSeries && partialSeries.exams.length > (resumeFrom?.exams.length || 0)) {
+        await saveSeries(partialSeries);
+      }
+      if (signal.aborted) return;
       console.error('Error generating exam series:', error);
       setGenerationError(
-        error instanceof Error 
-          ? error.message 
-          : 'An unexpected error occurred while generating the exam series. Please try again.'
+        getUserErrorMessage(error, 'An unexpected error occurred while generating the exam series. Please try again.')
       );
     } finally {
       setIsGenerating(false);
+      setGenerationProgress(null);
       setGenerationStartTime(null);
     }
   };
 
+  const handleGenerateExamSeries = async () => {
+    if (!examDescription.trim() && uploadedFiles.length === 0) return;
+
+    await runExamGeneration(
+      examSeriesName.trim() || examDescription.trim(),
+      examDescription.trim(),
+      uploadedFiles,
+      simulatorSettings,
+      examTime
+    );
+  };
+
+  const handleResumeSavedSeries = async (stored: StoredExamSeries) => {
+    const series = await databaseService.getExamSeries(stored.id);
+    if (!series) return;
+
+    setShowSavedSeries(false);
+    await runExamGeneration(stored.topic, stored.description, [], stored.settings, stored.time, series);
+  };
+
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const resetForm = () => {
     setExamSeriesName('');
     setTime(30);
@@ -240,7 +342,7 @@ const ExamSimulator = () => {
           <p className="text-xl text-stone-300">{t('examsimulator.subtitle')}</p>
           
           {/* Load Saved Series Button */}
-          <div className="mt-6">
+          <div className="mt-6 flex flex-wrap justify-center gap-3">
             <Button
               onClick={() => setShowSavedSeries(!showSavedSeries)}
               variant="outline"
@@ -249,6 +351,14 @@ const ExamSimulator = () => {
               <BookOpen className="w-4 h-4 mr-2" />
               {showSavedSeries ? t('hide') : t('load') } {t('series')} ({savedExamSeries.length})
             </Button>
+            <Button
+              onClick={() => setShowProblemSets(!showProblemSets)}
+              variant="outline"
+              className="border-[#ffffff]/40 text-[#ffffff] hover:bg-[#ffffff]/20 rounded-2xl"
+            >
+              <Layers className="w-4 h-4 mr-2" />
+              {t('examsimulator.sets.show')} ({problemSets.length})
+            </Button>
           </div>
         </div>
 
@@ -273,10 +383,27 @@ const ExamSimulator = () => {
                           <p className="text-stone-300 text-sm mb-3">{series.description}</p>
                           <div className="flex items-center gap-4 text-sm text-stone-400">
                             <span>{series.totalExams} {t('examsimulator.saved.exams')}</span>
+                            {(series.generatedExams ?? series.totalExams) < series.totalExams && (
+                              <span className="text-amber-300">
+                                {t('examsimulator.saved.partial')
+                                  .replace('{generated}', String(series.generatedExams))
+                                  .replace('{total}', String(series.totalExams))}
+                              </span>
+                            )}
                             <span>{t('examsimulator.saved.created')}: {new Date(series.createdAt).toLocaleDateString()}</span>
                           </div>
                         </div>
                         <div className="flex gap-2 ml-4">
+                          {(series.generatedExams ?? series.totalExams) < series.totalExams && (
+                            <Button
+                              onClick={() => handleResumeSavedSeries(series)}
+                              disabled={isGenerating}
+                              variant="outline"
+                              className="border-[#ffffff]/40 text-[#ffffff] hover:bg-[#ffffff]/20 rounded-xl"
+                            >
+                              {t('examsimulator.saved.resume')}
+                            </Button>
+                          )}
                           <Button
                             onClick={() => handleLoadSavedSeries(series.id)}
                             className="bg-[#ffffff] text-[#0d0d0d] hover:bg-[#fde6c4] rounded-xl"
@@ -299,6 +426,55 @@ const ExamSimulator = () => {
             </div>
           </div>
         )}
+
+        {/* Problem Sets saved from the Solver */}
+        {showProblemSets && (
+          <div className="mb-8">
+            <div className="bg-stone-900/50 rounded-3xl p-8 shadow-xl border border-[#ffffff]/30 backdrop-blur-sm">
+              <h3 className="text-xl font-bold text-[#ffffff] mb-6">{t('examsimulator.sets.title')}</h3>
+
+              {problemSets.length === 0 ? (
+                <p className="text-stone-400 text-center py-8">{t('examsimulator.sets.empty')}</p>
+              ) : (
+                <div className="space-y-4">
+                  {problemSets.map((set) => (
+                    <div
+                      key={set.id}
+                      className="bg-stone-800/50 rounded-2xl p-6 border border-[#ffffff]/20 hover:border-[#ffffff]/40 transition-all duration-200"
+                    >
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <h4 className="text-lg font-semibold text-[#ffffff] mb-2">{set.name}</h4>
+                          <div className="flex flex-wrap items-center gap-4 text-sm text-stone-400">
+                            <span>{set.problemCount} {t('examsimulator.sets.problems')}</span>
+                            {set.topics.length > 0 && <span>{set.topics.join(', ')}</span>}
+                            <span>{t('examsimulator.saved.created')}: {new Date(set.createdAt).toLocaleDateString()}</span>
+                          </div>
+                        </div>
+                        <div className="flex gap-2 ml-4">
+                          <Button
+                            onClick={() => handleTakeProblemSet(set.id)}
+                            disabled={set.problemCount === 0}
+                            className="bg-[#ffffff] text-[#0d0d0d] hover:bg-[#fde6c4] rounded-xl"
+                          >
+                            {t('examsimulator.sets.take')}
+                          </Button>
+                          <Button
+                            onClick={() => handleDeleteProblemSet(set.id)}
+                            variant="outline"
+                            className="border-red-400/40 text-red-400 hover:bg-red-400/20 rounded-xl"
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
         <div className="space-y-6">
           {/* Combined Exam Setup Card */}
           <div className="bg-stone-900/50 rounded-3xl p-8 shadow-xl border border-[#ffffff]/30 backdrop-blur-sm hover:shadow-2xl transition-all duration-300">
@@ -581,7 +757,43 @@ const ExamSimulator = () => {
                 {t('examsimulator.generating.description').replace('{count}', simulatorSettings.numberOfExams.toString())}
               </p>
               <div className="flex items-center justify-center gap-2 text-sm text-stone-400">
+                {generationProgress && (
+                  <span>
+                    {t('examsimulator.progress.level')
+                      .replace('{level}', generationProgress.level.toString())
+                      .replace('{total}', generationProgress.totalLevels.toString())}
+                    {' · '}
+                    {t('examsimulator.progress.questions').replace('{count}', generationProgress.questions.length.toString())}
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {generationProgress && generationProgress.questions.length > 0 && (
+              <div className="mt-6 space-y-2 max-h-80 overflow-y-auto">
+                {generationProgress.questions.map((question, index) => (
+                  <div
+                    key={question.id}
+                    className="bg-stone-800/50 rounded-xl p-3 border border-[#ffffff]/20 flex items-start gap-3 text-left"
+                  >
+                    <span className="w-6 h-6 bg-gradient-to-br from-[#ffffff] to-[#fde6c4] rounded-lg flex items-center justify-center flex-shrink-0 text-[#0d0d0d] text-xs font-bold">
+                      {index + 1}
+                    </span>
+                    <p className="text-sm text-stone-200 line-clamp-2"><MathText text={question.question} /></p>
+                  </div>
+                ))}
               </div>
+            )}
+
+            <div className="text-center mt-6">
+              <Button
+                onClick={handleCancelGeneration}
+                variant="outline"
+                className="border-[#ffffff]/40 text-[#ffffff] hover:bg-[#ffffff]/20 rounded-2xl"
+              >
+                <X className="w-4 h-4 mr-2" />
+                {t('examsimulator.cancel')}
+              </Button>
             </div>
           </div>
         )}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useLanguage } from '../contexts/LanguageContext';
 import { 
   ArrowLeft,
@@ -17,12 +17,30 @@ import {
   X,
   RotateCcw,
   LineChart,
-  Calculator
+  Calculator,
+  Flag,
+  ListChecks,
+  Pause,
+  AlertTriangle
 } from 'lucide-react';
 import { Button } from './ui/button';
+import MathText from './MathText';
+import ExamReview from './ExamReview';
 import { ExamSeries, SimulatorExam, examSimulatorService } from '../services/examSimulatorService';
-import { databaseService } from '../services/databaseService';
-import { getGeminiResponse } from '../services/modelService';
+import { databaseService, type ExamAttempt, type ExamCheckpoint } from '../services/databaseService';
+import { gradeExam, type ExamAnswer, type ExamGrade } from '../services/gradingService';
+import {
+  DEFAULT_TIMING_RULES,
+  buildTimedSections,
+  getTimingRules,
+  parseWarnAt,
+  sectionIndexOf,
+  setTimingRules,
+  type ExamPacing,
+  type ExamTimingRules,
+  type TimeLimitScope,
+  type TimedSection
+} from '../services/examTimingService';
 
 interface ExamSimulatorViewProps {
   examSeries: ExamSeries;
@@ -32,23 +50,174 @@ interface ExamSimulatorViewProps {
 interface ExamTakingState {
   examId: string;
   currentQuestionIndex: number;
-  answers: (number | string)[];
+  answers: ExamAnswer[];
   startTime: Date;
+  timeLimit: number; // in seconds
+  pausedMs: number; // time in finished pauses, which the clock does not count
+  pausedAt: number | null; // when the current pause started, in ms
   timeRemaining: number; // in seconds
   isSubmitted: boolean;
+  timeSpent: number[]; // seconds on each question so far
+  flagged: boolean[]; // marked to come back to in the review
+  questionStartedAt: number; // when the current question was shown, in ms
+  rules: ExamTimingRules; // fixed when the exam starts
+  sections: TimedSection[];
+  sectionEnteredAt: number[]; // seconds into the exam at which each section was reached
+  warningsShown: number[];
+  warning: string | null; // the latest time warning, until dismissed
 }
 
+// Adds the time since the current question was shown to its total
+const recordQuestionTime = (state: ExamTakingState): ExamTakingState => {
+  const now = Date.now();
+  const timeSpent = [...state.timeSpent];
+  timeSpent[state.currentQuestionIndex] += Math.round((now - state.questionStartedAt) / 1000);
+  return { ...state, timeSpent, questionStartedAt: now };
+};
+
+/**
+ * Taken from the wall clock since the start, so a tab that was throttled or
+ * asleep cannot drift and leaving the exam or reloading does not stop it.
+ * Only pauses taken with the Pause button are left out, when the rules
+ * allow them.
+ */
+const elapsedSeconds = (state: ExamTakingState, now = Date.now()): number => {
+  const pausedMs = state.rules.allowPause ? state.pausedMs + (state.pausedAt !== null ? now - state.pausedAt : 0) : 0;
+  return Math.floor((now - state.startTime.getTime() - pausedMs) / 1000);
+};
+
+// Under strict conditions the exam ends at a fixed time, whatever was recorded about pauses
+const isPastDeadline = (state: ExamTakingState, now = Date.now()): boolean =>
+  (!state.rules.allowPause && now >= state.startTime.getTime() + state.timeLimit * 1000)
+  || elapsedSeconds(state, now) >= state.timeLimit;
+
+// The first question that can still be opened: earlier sections close once left
+const firstOpenQuestion = (state: ExamTakingState): number =>
+  state.rules.noBacktracking
+    ? state.currentQuestionIndex
+    : state.sections[sectionIndexOf(state.sections, state.currentQuestionIndex)].start;
+
+const moveToQuestion = (state: ExamTakingState, questionIndex: number): ExamTakingState => {
+  const next = { ...recordQuestionTime(state), currentQuestionIndex: questionIndex };
+  const sectionIndex = sectionIndexOf(next.sections, questionIndex);
+  if (sectionIndex < next.sectionEnteredAt.length) return next;
+  const elapsed = elapsedSeconds(next);
+  return {
+    ...next,
+    sectionEnteredAt: [...next.sectionEnteredAt, ...new Array(sectionIndex + 1 - next.sectionEnteredAt.length).fill(elapsed)]
+  };
+};
+
+/**
+ * Brings the clock up to date: shows the warnings whose thresholds were
+ * reached and moves past sections whose time ran out. Running out of time
+ * on the whole exam is left to the caller, which submits it.
+ */
+const tickTimer = (state: ExamTakingState): ExamTakingState => {
+  const elapsed = elapsedSeconds(state);
+  let next: ExamTakingState = { ...state, timeRemaining: Math.max(0, state.timeLimit - elapsed) };
+
+  const reached = next.rules.warnAt.filter(minutes => next.timeRemaining <= minutes * 60 && !next.warningsShown.includes(minutes));
+  if (reached.length > 0) {
+    const minutes = Math.min(...reached);
+    next = {
+      ...next,
+      warningsShown: [...next.warningsShown, ...reached],
+      warning: `${minutes} minute${minutes !== 1 ? 's' : ''} left. The exam is submitted automatically when time runs out.`
+    };
+  }
+
+  let sectionIndex = sectionIndexOf(next.sections, next.currentQuestionIndex);
+  while (sectionIndex < next.sections.length - 1 && elapsed >= next.sections[sectionIndex].deadline) {
+    const closed = next.sections[sectionIndex];
+    sectionIndex += 1;
+    next = {
+      ...moveToQuestion(next, next.sections[sectionIndex].start),
+      warning: `Time is up for ${closed.title}. You have moved on to ${next.sections[sectionIndex].title}.`
+    };
+  }
+  return next;
+};
+
+// While the exam is open a checkpoint is also written this often, so a reload loses little time
+const CHECKPOINT_INTERVAL = 10_000;
+
+const toCheckpoint = (state: ExamTakingState, seriesId: string): ExamCheckpoint => ({
+  examId: state.examId,
+  seriesId,
+  currentQuestionIndex: state.currentQuestionIndex,
+  answers: state.answers,
+  timeSpent: state.pausedAt !== null ? state.timeSpent : recordQuestionTime(state).timeSpent,
+  flagged: state.flagged,
+  startedAt: state.startTime,
+  pausedMs: state.pausedMs,
+  pausedAt: state.pausedAt !== null ? new Date(state.pausedAt) : undefined,
+  rules: state.rules,
+  sectionEnteredAt: state.sectionEnteredAt,
+  warningsShown: state.warningsShown,
+  savedAt: new Date()
+});
+
+const saveCheckpoint = async (state: ExamTakingState, seriesId: string) => {
+  try {
+    await databaseService.saveExamCheckpoint(toCheckpoint(state, seriesId));
+  } catch (error) {
+    console.error('Error saving exam progress:', error);
+  }
+};
+
+/**
+ * Picks an exam up where its checkpoint left it. The clock kept running while
+ * the exam was closed, unless it had been paused with the Pause button.
+ */
+const fromCheckpoint = (checkpoint: ExamCheckpoint, exam: SimulatorExam): ExamTakingState => {
+  const now = Date.now();
+  const rules = { ...DEFAULT_TIMING_RULES, ...checkpoint.rules };
+  const state: ExamTakingState = {
+    examId: exam.id,
+    currentQuestionIndex: Math.min(checkpoint.currentQuestionIndex, exam.questions.length - 1),
+    answers: exam.questions.map((_, index) => checkpoint.answers[index] ?? null),
+    startTime: checkpoint.startedAt,
+    timeLimit: exam.estimatedTime * 60,
+    pausedMs: checkpoint.pausedMs,
+    pausedAt: checkpoint.pausedAt && rules.allowPause ? checkpoint.pausedAt.getTime() : null,
+    timeRemaining: 0,
+    isSubmitted: false,
+    timeSpent: exam.questions.map((_, index) => checkpoint.timeSpent[index] ?? 0),
+    flagged: exam.questions.map((_, index) => checkpoint.flagged[index] ?? false),
+    questionStartedAt: now,
+    rules,
+    sections: buildTimedSections(exam, rules),
+    sectionEnteredAt: checkpoint.sectionEnteredAt || [0],
+    warningsShown: checkpoint.warningsShown || [],
+    warning: null
+  };
+  return tickTimer(state);
+};
+
 const ExamSimulatorView: React.FC<ExamSimulatorViewProps> = ({ examSeries, onBackToGenerator }) => {
-  const { t } = useLanguage();
-  const [currentView, setCurrentView] = useState<'overview' | 'taking-exam' | 'results'>('overview');
+  const { language, t } = useLanguage();
+  const [currentView, setCurrentView] = useState<'overview' | 'taking-exam' | 'results' | 'review'>('overview');
   const [examTakingState, setExamTakingState] = useState<ExamTakingState | null>(null);
-  const [examResults, setExamResults] = useState<{ score: number; timeTaken: number; exam: SimulatorExam } | null>(null);
+  const [examResults, setExamResults] = useState<{ score: number | null; timeTaken: number; exam: SimulatorExam; grade: ExamGrade; attempt: ExamAttempt | null; pacing: ExamPacing } | null>(null);
+  const [reviewing, setReviewing] = useState<{ exam: SimulatorExam; attempt: ExamAttempt } | null>(null);
   const [timer, setTimer] = useState<NodeJS.Timeout | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [showPrediction, setShowPrediction] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<string>('');
   const [predictionResult, setPredictionResult] = useState<string>('');
   const [showAnalysis, setShowAnalysis] = useState(false);
+  const [attempts, setAttempts] = useState<ExamAttempt[]>([]);
+  const [checkpoints, setCheckpoints] = useState<ExamCheckpoint[]>([]);
+  const [timingRules, setTimingRulesState] = useState<ExamTimingRules>(getTimingRules);
+  const [warnAtText, setWarnAtText] = useState(() => getTimingRules().warnAt.join(', '));
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const gradingAbortRef = useRef<AbortController | null>(null);
+  // The latest state, for checkpoints written from intervals and cleanups
+  const examTakingStateRef = useRef<ExamTakingState | null>(null);
+  examTakingStateRef.current = examTakingState;
+  // The timer submits through this, so it always runs the latest handler
+  const submitExamRef = useRef<(state: ExamTakingState, autoSubmitted: boolean) => Promise<void>>();
 
   // Calculate completed exams
   const completedExamsArray = examSeries.exams.filter(exam => exam.score !== undefined);
@@ -63,18 +232,53 @@ const ExamSimulatorView: React.FC<ExamSimulatorViewProps> = ({ examSeries, onBac
     };
   }, [timer]);
 
+  useEffect(() => {
+    databaseService.getSeriesAttempts(examSeries.id).then(setAttempts);
+    databaseService.getSeriesCheckpoints(examSeries.id).then(setCheckpoints);
+  }, [examSeries.id]);
+
+  // Checkpoint on every answer, flag or question change
+  useEffect(() => {
+    const state = examTakingStateRef.current;
+    if (state && !state.isSubmitted) {
+      saveCheckpoint(state, examSeries.id);
+    }
+  }, [examSeries.id, examTakingState?.answers, examTakingState?.flagged, examTakingState?.currentQuestionIndex]);
+
+  // And regularly while the exam is open, with a last one when the view goes away
+  useEffect(() => {
+    if (currentView !== 'taking-exam') return;
+    const saveLatest = () => {
+      const state = examTakingStateRef.current;
+      if (state && !state.isSubmitted) saveCheckpoint(state, examSeries.id);
+    };
+    const interval = setInterval(saveLatest, CHECKPOINT_INTERVAL);
+    return () => {
+      clearInterval(interval);
+      saveLatest();
+    };
+  }, [currentView, examSeries.id]);
+
+  // Stop a running analysis or grading request on unmount
+  useEffect(() => {
+    return () => {
+      analysisAbortRef.current?.abort();
+      gradingAbortRef.current?.abort();
+    };
+  }, []);
+
   // Timer effect for exam taking
   useEffect(() => {
     if (currentView === 'taking-exam' && examTakingState && !examTakingState.isSubmitted) {
       const interval = setInterval(() => {
-        setExamTakingState(prev => {
-          if (!prev || prev.timeRemaining <= 0) {
-            // Time's up - auto submit
-            handleSubmitExam();
-            return prev;
-          }
-          return { ...prev, timeRemaining: prev.timeRemaining - 1 };
-        });
+        const state = examTakingStateRef.current;
+        if (!state || state.isSubmitted) return;
+        if (isPastDeadline(state)) {
+          // Time's up - auto submit the answers as they are
+          submitExamRef.current?.(state, true);
+          return;
+        }
+        setExamTakingState(prev => (prev && !prev.isSubmitted ? tickTimer(prev) : prev));
       }, 1000);
       
       setTimer(interval);
@@ -104,86 +308,217 @@ const ExamSimulatorView: React.FC<ExamSimulatorViewProps> = ({ examSeries, onBac
     return 'text-red-400';
   };
 
+  const updateTimingRules = (changes: Partial<ExamTimingRules>) => {
+    const rules = { ...timingRules, ...changes };
+    setTimingRulesState(rules);
+    setTimingRules(rules);
+  };
+
+  const handleWarnAtBlur = () => {
+    const warnAt = parseWarnAt(warnAtText);
+    updateTimingRules({ warnAt });
+    setWarnAtText(warnAt.join(', '));
+  };
+
+  // Starting over replaces any unfinished attempt at the exam
   const handleStartExam = (exam: SimulatorExam) => {
+    setCheckpoints(prev => prev.filter(checkpoint => checkpoint.examId !== exam.id));
     const state: ExamTakingState = {
       examId: exam.id,
       currentQuestionIndex: 0,
       answers: new Array(exam.questions.length).fill(null),
       startTime: new Date(),
-      timeRemaining: exam.estimatedTime * 60, // convert minutes to seconds
-      isSubmitted: false
+      timeLimit: exam.estimatedTime * 60, // convert minutes to seconds
+      pausedMs: 0,
+      pausedAt: null,
+      timeRemaining: exam.estimatedTime * 60,
+      isSubmitted: false,
+      timeSpent: new Array(exam.questions.length).fill(0),
+      flagged: new Array(exam.questions.length).fill(false),
+      questionStartedAt: Date.now(),
+      rules: timingRules,
+      sections: buildTimedSections(exam, timingRules),
+      sectionEnteredAt: [0],
+      warningsShown: [],
+      warning: null
     };
     
     setExamTakingState(state);
     setCurrentView('taking-exam');
   };
 
-  const handleAnswerSelect = (answerIndex: number | string) => {
-    if (!examTakingState) return;
+  const handleResumeExam = (checkpoint: ExamCheckpoint) => {
+    const exam = examSeries.exams.find(e => e.id === checkpoint.examId);
+    if (!exam) return;
     
-    const newAnswers = [...examTakingState.answers];
-    newAnswers[examTakingState.currentQuestionIndex] = answerIndex;
+    const state = fromCheckpoint(checkpoint, exam);
+    setCheckpoints(prev => prev.filter(item => item.examId !== exam.id));
+    setExamTakingState(state);
+    setCurrentView('taking-exam');
+    // Time ran out while the exam was closed, so the saved answers are submitted as they are
+    if (isPastDeadline(state)) {
+      handleSubmitExam(state, true);
+    }
+  };
+
+  const handleDiscardCheckpoint = async (examId: string) => {
+    setCheckpoints(prev => prev.filter(checkpoint => checkpoint.examId !== examId));
+    try {
+      await databaseService.deleteExamCheckpoint(examId);
+    } catch (error) {
+      console.error('Error discarding exam progress:', error);
+    }
+  };
+
+  // Answers, flags and the open question are locked once the exam is submitted,
+  // so the saved attempt matches what was graded
+  const isLocked = (state: ExamTakingState | null) => !state || state.isSubmitted || gradingAbortRef.current !== null;
+
+  const handleAnswerSelect = (answerIndex: number | string) => {
+    if (isLocked(examTakingState)) return;
     
-    setExamTakingState(prev => prev ? { ...prev, answers: newAnswers } : null);
+    setExamTakingState(prev => {
+      if (!prev || prev.isSubmitted) return prev;
+      const newAnswers = [...prev.answers];
+      newAnswers[prev.currentQuestionIndex] = answerIndex;
+      return { ...prev, answers: newAnswers };
+    });
+  };
+
+  const handleToggleFlag = () => {
+    if (isLocked(examTakingState)) return;
+    setExamTakingState(prev => prev && !prev.isSubmitted ? {
+      ...prev,
+      flagged: prev.flagged.map((flag, index) => (index === prev.currentQuestionIndex ? !flag : flag))
+    } : prev);
   };
 
   const handleNextQuestion = () => {
-    if (!examTakingState) return;
+    if (!examTakingState || isLocked(examTakingState)) return;
     
     const exam = examSeries.exams.find(e => e.id === examTakingState.examId);
     if (!exam) return;
     
     if (examTakingState.currentQuestionIndex < exam.questions.length - 1) {
-      setExamTakingState(prev => prev ? { 
-        ...prev, 
-        currentQuestionIndex: prev.currentQuestionIndex + 1 
-      } : null);
+      setExamTakingState(prev => prev && !prev.isSubmitted ? moveToQuestion(prev, prev.currentQuestionIndex + 1) : prev);
     }
   };
 
   const handlePreviousQuestion = () => {
-    if (!examTakingState) return;
+    if (!examTakingState || isLocked(examTakingState)) return;
     
-    if (examTakingState.currentQuestionIndex > 0) {
-      setExamTakingState(prev => prev ? { 
-        ...prev, 
-        currentQuestionIndex: prev.currentQuestionIndex - 1 
-      } : null);
+    if (examTakingState.currentQuestionIndex > firstOpenQuestion(examTakingState)) {
+      setExamTakingState(prev => prev && !prev.isSubmitted ? moveToQuestion(prev, prev.currentQuestionIndex - 1) : prev);
     }
   };
 
-  const handleSubmitExam = async () => {
-    if (!examTakingState) return;
+  const handlePause = () => {
+    setExamTakingState(prev => prev && prev.rules.allowPause && prev.pausedAt === null ? { ...recordQuestionTime(prev), pausedAt: Date.now() } : prev);
+  };
+
+  const handleUnpause = () => {
+    setExamTakingState(prev => {
+      if (!prev || prev.pausedAt === null) return prev;
+      const now = Date.now();
+      return { ...prev, pausedMs: prev.pausedMs + (now - prev.pausedAt), pausedAt: null, questionStartedAt: now };
+    });
+  };
+
+  const handleDismissWarning = () => {
+    setExamTakingState(prev => prev ? { ...prev, warning: null } : null);
+  };
+
+  const handleSubmitExam = async (examTakingState = examTakingStateRef.current, autoSubmitted = false) => {
+    // The timer can call this again while written answers are still being graded
+    if (!examTakingState || gradingAbortRef.current) return;
     
     const exam = examSeries.exams.find(e => e.id === examTakingState.examId);
     if (!exam) return;
     
-    // Calculate score
-    let correctAnswers = 0;
-    exam.questions.forEach((question, index) => {
-      const userAnswer = examTakingState.answers[index];
-      if (userAnswer === question.correctAnswer) {
-        correctAnswers++;
-      }
-    });
+    const completedAt = new Date();
+    const timeTaken = Math.min(examTakingState.timeLimit, elapsedSeconds(examTakingState, completedAt.getTime()));
+    const { timeSpent } = recordQuestionTime(examTakingState);
+    const { rules, sections, sectionEnteredAt, warningsShown } = examTakingState;
+    const pacing: ExamPacing = {
+      rules,
+      timeLimit: examTakingState.timeLimit,
+      sections: sections.map((section, index) => ({
+        ...section,
+        timeUsed: index < sectionEnteredAt.length ? (sectionEnteredAt[index + 1] ?? timeTaken) - sectionEnteredAt[index] : 0
+      })),
+      warningsShown,
+      autoSubmitted
+    };
+    // Stops the timer and locks the answers while grading
+    setExamTakingState(prev => prev ? { ...prev, isSubmitted: true } : null);
+    gradingAbortRef.current = new AbortController();
+    const signal = gradingAbortRef.current.signal;
+    
+    let grade: ExamGrade;
+    try {
+      grade = await gradeExam(exam, examTakingState.answers, { language, signal });
+    } catch (error) {
+      if (!signal.aborted) console.error('Error grading exam:', error);
+      setExamTakingState(prev => prev ? { ...prev, isSubmitted: false } : null);
+      return;
+    } finally {
+      gradingAbortRef.current = null;
+    }
+    const score = grade.score;
     
-    const score = Math.round((correctAnswers / exam.questions.length) * 100);
-    const timeTaken = Math.round((new Date().getTime() - examTakingState.startTime.getTime()) / 1000);
+    // Nothing could be graded: record neither a score nor a completion, and keep the answers to submit again
+    if (score === null) {
+      await saveCheckpoint(examTakingState, examSeries.id);
+      setExamResults({ score, timeTaken, exam, grade, attempt: null, pacing });
+      setCurrentView('results');
+      if (timer) {
+        clearInterval(timer);
+        setTimer(null);
+      }
+      return;
+    }
     
     // Update exam with score
     exam.score = score;
-    exam.completedAt = new Date().toISOString();
+    exam.completedAt = completedAt.toISOString();
     exam.timeTaken = timeTaken;
     
+    // Every attempt is kept with its answers, so retakes add to the history
+    const attempt: ExamAttempt = {
+      id: `attempt_${completedAt.getTime()}`,
+      examId: exam.id,
+      seriesId: examSeries.id,
+      score,
+      earnedPoints: grade.earnedPoints,
+      totalPoints: grade.totalPoints,
+      timeTaken,
+      answers: grade.questions.map((questionGrade, index) => ({
+        questionId: questionGrade.questionId,
+        answer: examTakingState.answers[index] ?? null,
+        status: questionGrade.status,
+        earned: questionGrade.earned,
+        points: questionGrade.points,
+        timeSpent: timeSpent[index],
+        flagged: examTakingState.flagged[index],
+        feedback: questionGrade.feedback,
+        rubric: questionGrade.rubric
+      })),
+      pacing,
+      startedAt: examTakingState.startTime,
+      completedAt
+    };
+    setAttempts(prev => [...prev, attempt]);
+    
     // Save to database
     try {
       await databaseService.updateExamScore(exam.id, score, timeTaken);
+      await databaseService.saveExamAttempt(attempt);
+      await databaseService.deleteExamCheckpoint(exam.id);
     } catch (error) {
       console.error('Error saving exam score:', error);
     }
     
-    setExamResults({ score, timeTaken, exam });
-    setExamTakingState(prev => prev ? { ...prev, isSubmitted: true } : null);
+    setExamResults({ score, timeTaken, exam, grade, attempt, pacing });
     setCurrentView('results');
     
     // Clear timer
@@ -193,6 +528,8 @@ const ExamSimulatorView: React.FC<ExamSimulatorViewProps> = ({ examSeries, onBac
     }
   };
 
+  submitExamRef.current = handleSubmitExam;
+
   const formatTime = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -204,20 +541,33 @@ const ExamSimulatorView: React.FC<ExamSimulatorViewProps> = ({ examSeries, onBac
     return `${minutes}:${secs.toString().padStart(2, '0')}`;
   };
 
+  // The previous result stays until the new attempt is submitted; both are kept in the attempt history
   const handleRetakeExam = (exam: SimulatorExam) => {
-    // Reset exam data
-    exam.score = undefined;
-    exam.completedAt = undefined;
-    exam.timeTaken = undefined;
-    
-    // Start the exam again
     handleStartExam(exam);
   };
 
-  const handleBackToOverview = () => {
+  const handleReviewAttempt = (exam: SimulatorExam, attempt: ExamAttempt) => {
+    setReviewing({ exam, attempt });
+    setCurrentView('review');
+  };
+
+  // Leaving a review opened from the results goes back to them
+  const handleCloseReview = () => {
+    setReviewing(null);
+    setCurrentView(examResults ? 'results' : 'overview');
+  };
+
+  // An exam left before it is submitted is paused and can be resumed from the overview
+  const handleBackToOverview = async () => {
+    gradingAbortRef.current?.abort();
+    if (examTakingState && !examTakingState.isSubmitted) {
+      await saveCheckpoint(examTakingState, examSeries.id);
+    }
+    databaseService.getSeriesCheckpoints(examSeries.id).then(setCheckpoints);
     setCurrentView('overview');
     setExamTakingState(null);
     setExamResults(null);
+    setReviewing(null);
     if (timer) {
       clearInterval(timer);
       setTimer(null);
@@ -227,11 +577,15 @@ const ExamSimulatorView: React.FC<ExamSimulatorViewProps> = ({ examSeries, onBac
   const handleAnalyzeImprovement = async () => {
     setShowAnalysis(true);
     setAnalysisResult('');
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = new AbortController();
+    const signal = analysisAbortRef.current.signal;
     
     try {
-      const analysis = await examSimulatorService.analyzeUserPerformance(examSeries, completedExamsArray);
+      const analysis = await examSimulatorService.analyzeUserPerformance(examSeries, completedExamsArray, attempts, signal);
       setAnalysisResult(analysis);
     } catch (error) {
+      if (signal.aborted) return;
       console.error('Error analyzing performance:', error);
       setAnalysisResult('❌ Error generating analysis. Please try again later.');
     } finally {
@@ -274,8 +628,20 @@ ${predictedScore >= 85 ? '🟢 Excellent! You\'re well-prepared for the actual e
     }, 2000);
   };
 
+  if (currentView === 'review' && reviewing) {
+    return (
+      <ExamReview
+        exam={reviewing.exam}
+        attempt={reviewing.attempt}
+        language={language}
+        onBack={handleCloseReview}
+      />
+    );
+  }
+
   // Results View
   if (currentView === 'results' && examResults) {
+    const { attempt } = examResults;
     return (
       <div className="min-h-screen bg-[#0d0d0d] p-6">
         <div className="max-w-4xl mx-auto">
@@ -298,10 +664,22 @@ ${predictedScore >= 85 ? '🟢 Excellent! You\'re well-prepared for the actual e
             
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
               <div className="bg-stone-800/50 rounded-lg p-6">
-                <div className="text-3xl font-bold mb-2">
-                  <span className={getScoreColor(examResults.score)}>{examResults.score}%</span>
-                </div>
-                <p className="text-stone-400">Your Score</p>
+                {examResults.score !== null ? (
+                  <>
+                    <div className="text-3xl font-bold mb-2">
+                      <span className={getScoreColor(examResults.score)}>{examResults.score}%</span>
+                    </div>
+                    <p className="text-stone-400">Your Score</p>
+                    <p className="text-xs text-stone-500 mt-1">
+                      {examResults.grade.earnedPoints} / {examResults.grade.totalPoints} points
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <div className="text-3xl font-bold text-stone-400 mb-2">–</div>
+                    <p className="text-stone-400">Not Graded</p>
+                  </>
+                )}
               </div>
               
               <div className="bg-stone-800/50 rounded-lg p-6">
@@ -309,6 +687,10 @@ ${predictedScore >= 85 ? '🟢 Excellent! You\'re well-prepared for the actual e
                   {formatTime(examResults.timeTaken)}
                 </div>
                 <p className="text-stone-400">Time Taken</p>
+                <p className="text-xs text-stone-500 mt-1">
+                  of {formatTime(examResults.pacing.timeLimit)}
+                  {examResults.pacing.autoSubmitted && ' · submitted when time ran out'}
+                </p>
               </div>
               
               <div className="bg-stone-800/50 rounded-lg p-6">
@@ -320,29 +702,95 @@ ${predictedScore >= 85 ? '🟢 Excellent! You\'re well-prepared for the actual e
             </div>
 
             <div className="space-y-4 mb-8">
-              {examResults.score >= 90 && (
+              {examResults.score === null ? (
+                <div className="bg-orange-500/20 border border-orange-500/30 rounded-lg p-4">
+                  <p className="text-orange-400 font-medium">
+                    None of the answers could be graded, so this attempt has no score and does not complete the level. Your answers are saved: resume the exam from the overview to grade them again.
+                  </p>
+                </div>
+              ) : examResults.grade.ungraded > 0 && (
+                <div className="bg-stone-800/50 border border-[#FEFBF6]/20 rounded-lg p-4">
+                  <p className="text-stone-300 text-sm">
+                    {examResults.grade.ungraded} answer{examResults.grade.ungraded !== 1 ? 's' : ''} could not be graded automatically and {examResults.grade.ungraded !== 1 ? 'are' : 'is'} left out of the score.
+                  </p>
+                </div>
+              )}
+              {examResults.score !== null && examResults.score >= 90 && (
                 <div className="bg-green-500/20 border border-green-500/30 rounded-lg p-4">
                   <p className="text-green-400 font-medium">🎉 Excellent! You've mastered this level!</p>
                 </div>
               )}
-              {examResults.score >= 80 && examResults.score < 90 && (
+              {examResults.score !== null && examResults.score >= 80 && examResults.score < 90 && (
                 <div className="bg-blue-500/20 border border-blue-500/30 rounded-lg p-4">
                   <p className="text-blue-400 font-medium">👏 Great job! You have a strong understanding!</p>
                 </div>
               )}
-              {examResults.score >= 70 && examResults.score < 80 && (
+              {examResults.score !== null && examResults.score >= 70 && examResults.score < 80 && (
                 <div className="bg-yellow-500/20 border border-yellow-500/30 rounded-lg p-4">
                   <p className="text-yellow-400 font-medium">👍 Good work! Consider reviewing some concepts.</p>
                 </div>
               )}
-              {examResults.score < 70 && (
+              {examResults.score !== null && examResults.score < 70 && (
                 <div className="bg-orange-500/20 border border-orange-500/30 rounded-lg p-4">
                   <p className="text-orange-400 font-medium">📚 Keep studying! Review the material and try again.</p>
                 </div>
               )}
             </div>
 
+            {examResults.pacing.sections.length > 1 && (
+              <div className="text-left mb-8">
+                <h3 className="text-lg font-bold text-[#FEFBF6] mb-4">Pacing</h3>
+                <div className="space-y-2">
+                  {examResults.pacing.sections.map(section => (
+                    <div key={section.start} className="flex items-center justify-between gap-4 bg-stone-800/50 rounded-lg px-4 py-2">
+                      <span className="text-sm text-stone-300">{section.title}</span>
+                      <span className={`text-sm ${section.timeUsed > section.timeLimit ? 'text-orange-400' : 'text-stone-400'}`}>
+                        {formatTime(section.timeUsed)} / {formatTime(section.timeLimit)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {examResults.grade.questions.some(grade => grade.method === 'model' && grade.feedback) && (
+              <div className="text-left mb-8">
+                <h3 className="text-lg font-bold text-[#FEFBF6] mb-4">Written Feedback</h3>
+                <div className="space-y-3">
+                  {examResults.grade.questions.map((grade, index) => grade.method === 'model' && grade.feedback && (
+                    <div key={grade.questionId} className="bg-stone-800/50 rounded-lg p-4 border border-[#FEFBF6]/20">
+                      <div className="flex items-center justify-between gap-4 mb-2">
+                        <p className="text-sm font-medium text-[#FEFBF6]">Question {index + 1}</p>
+                        <span className="text-sm text-stone-300">{grade.earned} / {grade.points} points</span>
+                      </div>
+                      <p className="text-sm text-stone-300">{grade.feedback}</p>
+                      {grade.rubric && grade.rubric.length > 0 && (
+                        <ul className="mt-3 space-y-1">
+                          {grade.rubric.map(criterion => (
+                            <li key={criterion.criterion} className="text-xs text-stone-400">
+                              <span className="text-stone-300">{criterion.criterion}</span> ({criterion.earned}/{criterion.max})
+                              {criterion.comment && <> – {criterion.comment}</>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="flex gap-4 justify-center">
+              {attempt && (
+                <Button
+                  onClick={() => handleReviewAttempt(examResults.exam, attempt)}
+                  variant="outline"
+                  className="border-[#FEFBF6]/30 text-[#FEFBF6] hover:bg-[#FEFBF6]/10"
+                >
+                  <ListChecks className="w-4 h-4 mr-2" />
+                  Review Answers
+                </Button>
+              )}
               <Button
                 onClick={() => handleRetakeExam(examResults.exam)}
                 variant="outline"
@@ -355,7 +803,7 @@ ${predictedScore >= 85 ? '🟢 Excellent! You\'re well-prepared for the actual e
                 onClick={handleBackToOverview}
                 className="bg-[#FEFBF6] text-[#0d0d0d] hover:bg-[#fde6c4]"
               >
-                Continue to Next Level
+                {examResults.score !== null ? 'Continue to Next Level' : 'Back to Overview'}
               </Button>
             </div>
           </div>
@@ -371,6 +819,15 @@ ${predictedScore >= 85 ? '🟢 Excellent! You\'re well-prepared for the actual e
 
     const currentQuestion = exam.questions[examTakingState.currentQuestionIndex];
     const progress = ((examTakingState.currentQuestionIndex + 1) / exam.questions.length) * 100;
+    const sectionIndex = sectionIndexOf(examTakingState.sections, examTakingState.currentQuestionIndex);
+    const section = examTakingState.sections[sectionIndex];
+    const sectionRemaining = Math.max(0, section.deadline - (examTakingState.timeLimit - examTakingState.timeRemaining));
+    const isTimedBySection = examTakingState.rules.limitScope !== 'exam';
+    const isRunningOut = examTakingState.rules.warnAt.length > 0
+      && examTakingState.timeRemaining <= Math.min(...examTakingState.rules.warnAt) * 60;
+    const entersNextSection = isTimedBySection && examTakingState.currentQuestionIndex + 1 >= section.end;
+    // Submitted, whether by the student or the clock, and possibly still being graded
+    const answersLocked = examTakingState.isSubmitted;
 
     return (
       <div className="min-h-screen bg-[#0d0d0d] p-6">
@@ -386,20 +843,39 @@ ${predictedScore >= 85 ? '🟢 Excellent! You\'re well-prepared for the actual e
               </div>
               
               <div className="flex items-center gap-4">
+                {isTimedBySection && (
+                  <div className="text-right">
+                    <div className="text-lg font-bold text-[#FEFBF6]">
+                      {formatTime(sectionRemaining)}
+                    </div>
+                    <p className="text-xs text-stone-400">{section.title}</p>
+                  </div>
+                )}
                 <div className="text-right">
-                  <div className="text-lg font-bold text-[#FEFBF6]">
+                  <div className={`text-lg font-bold ${isRunningOut ? 'text-red-400' : 'text-[#FEFBF6]'}`}>
                     {formatTime(examTakingState.timeRemaining)}
                   </div>
                   <p className="text-xs text-stone-400">Time Remaining</p>
                 </div>
                 
+                {examTakingState.rules.allowPause && (
+                  <Button
+                    onClick={handlePause}
+                    disabled={examTakingState.pausedAt !== null || examTakingState.isSubmitted}
+                    variant="outline"
+                    className="border-[#FEFBF6]/30 text-[#FEFBF6] hover:bg-[#FEFBF6]/10 disabled:opacity-50"
+                  >
+                    <Pause className="w-4 h-4 mr-2" />
+                    Pause
+                  </Button>
+                )}
                 <Button
                   onClick={handleBackToOverview}
                   variant="outline"
                   className="border-red-400/30 text-red-400 hover:bg-red-400/10"
                 >
                   <X className="w-4 h-4 mr-2" />
-                  Exit Exam
+                  Save & Exit
                 </Button>
               </div>
             </div>
@@ -415,102 +891,162 @@ ${predictedScore >= 85 ? '🟢 Excellent! You\'re well-prepared for the actual e
             </div>
           </div>
 
-          {/* Question */}
-          <div className="bg-stone-900/50 rounded-2xl p-8 shadow-lg border border-[#FEFBF6]/20 backdrop-blur-sm">
-            <h2 className="text-xl text-[#FEFBF6] mb-6">{currentQuestion.question}</h2>
-            
-            <div className="space-y-3 mb-8">
-              {currentQuestion.type === 'multiple-choice' && currentQuestion.options && (
-                currentQuestion.options.map((option, index) => (
-                  <button
-                    key={index}
-                    onClick={() => handleAnswerSelect(index)}
-                    className={`w-full text-left p-4 rounded-lg border transition-all ${
-                      examTakingState.answers[examTakingState.currentQuestionIndex] === index
-                        ? 'bg-[#FEFBF6]/20 border-[#FEFBF6] text-[#FEFBF6]'
-                        : 'bg-stone-800/50 border-stone-700 text-stone-300 hover:bg-stone-800/70'
-                    }`}
-                  >
-                    <span className="font-medium mr-3">{String.fromCharCode(65 + index)}.</span>
-                    {option}
-                  </button>
-                ))
-              )}
-              
-              {currentQuestion.type === 'true-false' && (
-                <>
-                  <button
-                    onClick={() => handleAnswerSelect(0)}
-                    className={`w-full text-left p-4 rounded-lg border transition-all ${
-                      examTakingState.answers[examTakingState.currentQuestionIndex] === 0
-                        ? 'bg-[#FEFBF6]/20 border-[#FEFBF6] text-[#FEFBF6]'
-                        : 'bg-stone-800/50 border-stone-700 text-stone-300 hover:bg-stone-800/70'
-                    }`}
-                  >
-                    <span className="font-medium mr-3">A.</span>
-                    True
-                  </button>
-                  <button
-                    onClick={() => handleAnswerSelect(1)}
-                    className={`w-full text-left p-4 rounded-lg border transition-all ${
-                      examTakingState.answers[examTakingState.currentQuestionIndex] === 1
-                        ? 'bg-[#FEFBF6]/20 border-[#FEFBF6] text-[#FEFBF6]'
-                        : 'bg-stone-800/50 border-stone-700 text-stone-300 hover:bg-stone-800/70'
-                    }`}
-                  >
-                    <span className="font-medium mr-3">B.</span>
-                    False
-                  </button>
-                </>
-              )}
-              
-              {(currentQuestion.type === 'short-answer' || currentQuestion.type === 'essay') && (
-                <textarea
-                  value={examTakingState.answers[examTakingState.currentQuestionIndex] as string || ''}
-                  onChange={(e) => handleAnswerSelect(e.target.value)}
-                  placeholder="Type your answer here..."
-                  className="w-full h-32 bg-stone-800/50 border border-stone-700 rounded-lg p-4 text-stone-300 placeholder-stone-500 focus:border-[#FEFBF6] focus:outline-none"
-                />
-              )}
+          {examTakingState.warning && (
+            <div className="bg-yellow-400/10 border border-yellow-400/30 rounded-xl p-4 mb-6 flex items-center gap-3">
+              <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0" />
+              <p className="text-sm text-yellow-200 flex-1">{examTakingState.warning}</p>
+              <button onClick={handleDismissWarning} className="text-yellow-400 hover:text-yellow-200">
+                <X className="w-4 h-4" />
+              </button>
             </div>
+          )}
 
-            {/* Navigation */}
-            <div className="flex justify-between items-center">
+          {/* Question */}
+          {examTakingState.pausedAt !== null ? (
+            <div className="bg-stone-900/50 rounded-2xl p-8 shadow-lg border border-[#FEFBF6]/20 backdrop-blur-sm text-center">
+              <Pause className="w-10 h-10 text-[#FEFBF6] mx-auto mb-4" />
+              <h2 className="text-xl font-bold text-[#FEFBF6] mb-2">Exam Paused</h2>
+              <p className="text-stone-400 mb-6">The clock is stopped and the questions are hidden until you continue.</p>
               <Button
-                onClick={handlePreviousQuestion}
-                disabled={examTakingState.currentQuestionIndex === 0}
-                variant="outline"
-                className="border-[#FEFBF6]/30 text-[#FEFBF6] hover:bg-[#FEFBF6]/10 disabled:opacity-50"
+                onClick={handleUnpause}
+                className="bg-[#FEFBF6] text-[#0d0d0d] hover:bg-[#fde6c4]"
               >
-                <ArrowLeft className="w-4 h-4 mr-2" />
-                Previous
+                <Play className="w-4 h-4 mr-2" />
+                Continue
               </Button>
-
-              <div className="text-center">
-                <p className="text-sm text-stone-400">
-                  {examTakingState.answers.filter(a => a !== null && a !== '').length} of {exam.questions.length} answered
-                </p>
-              </div>
-
-              {examTakingState.currentQuestionIndex === exam.questions.length - 1 ? (
+            </div>
+          ) : (
+            <div className="bg-stone-900/50 rounded-2xl p-8 shadow-lg border border-[#FEFBF6]/20 backdrop-blur-sm">
+              <div className="flex items-start justify-between gap-4 mb-6">
+                <h2 className="text-xl text-[#FEFBF6]"><MathText text={currentQuestion.question} /></h2>
                 <Button
-                  onClick={handleSubmitExam}
-                  className="bg-[#FEFBF6] text-[#0d0d0d] hover:bg-[#fde6c4]"
+                  onClick={handleToggleFlag}
+                  disabled={answersLocked}
+                  variant="outline"
+                  className={examTakingState.flagged[examTakingState.currentQuestionIndex]
+                    ? 'flex-shrink-0 border-yellow-400/50 bg-yellow-400/10 text-yellow-400 hover:bg-yellow-400/20'
+                    : 'flex-shrink-0 border-[#FEFBF6]/30 text-[#FEFBF6] hover:bg-[#FEFBF6]/10'}
                 >
-                  Submit Exam
-                  <CheckCircle className="w-4 h-4 ml-2" />
+                  <Flag className="w-4 h-4 mr-2" />
+                  {examTakingState.flagged[examTakingState.currentQuestionIndex] ? 'Flagged' : 'Flag'}
                 </Button>
-              ) : (
+              </div>
+            
+              <div className="space-y-3 mb-8">
+                {currentQuestion.type === 'multiple-choice' && currentQuestion.options && (
+                  currentQuestion.options.map((option, index) => (
+                    <button
+                      key={index}
+                      onClick={() => handleAnswerSelect(index)}
+                      disabled={answersLocked}
+                      className={`w-full text-left p-4 rounded-lg border transition-all disabled:opacity-60 disabled:cursor-not-allowed ${
+                        examTakingState.answers[examTakingState.currentQuestionIndex] === index
+                          ? 'bg-[#FEFBF6]/20 border-[#FEFBF6] text-[#FEFBF6]'
+                          : 'bg-stone-800/50 border-stone-700 text-stone-300 hover:bg-stone-800/70'
+                      }`}
+                    >
+                      <span className="font-medium mr-3">{String.fromCharCode(65 + index)}.</span>
+                      <MathText text={option} />
+                    </button>
+                  ))
+                )}
+              
+                {currentQuestion.type === 'true-false' && (
+                  <>
+                    <button
+                      onClick={() => handleAnswerSelect(0)}
+                      disabled={answersLocked}
+                      className={`w-full text-left p-4 rounded-lg border transition-all disabled:opacity-60 disabled:cursor-not-allowed ${
+                        examTakingState.answers[examTakingState.currentQuestionIndex] === 0
+                          ? 'bg-[#FEFBF6]/20 border-[#FEFBF6] text-[#FEFBF6]'
+                          : 'bg-stone-800/50 border-stone-700 text-stone-300 hover:bg-stone-800/70'
+                      }`}
+                    >
+                      <span className="font-medium mr-3">A.</span>
+                      True
+                    </button>
+                    <button
+                      onClick={() => handleAnswerSelect(1)}
+                      disabled={answersLocked}
+                      className={`w-full text-left p-4 rounded-lg border transition-all disabled:opacity-60 disabled:cursor-not-allowed ${
+                        examTakingState.answers[examTakingState.currentQuestionIndex] === 1
+                          ? 'bg-[#FEFBF6]/20 border-[#FEFBF6] text-[#FEFBF6]'
+                          : 'bg-stone-800/50 border-stone-700 text-stone-300 hover:bg-stone-800/70'
+                      }`}
+                    >
+                      <span className="font-medium mr-3">B.</span>
+                      False
+                    </button>
+                  </>
+                )}
+              
+                {(currentQuestion.type === 'short-answer' || currentQuestion.type === 'essay') && (
+                  <textarea
+                    value={examTakingState.answers[examTakingState.currentQuestionIndex] as string || ''}
+                    onChange={(e) => handleAnswerSelect(e.target.value)}
+                    disabled={answersLocked}
+                    placeholder="Type your answer here..."
+                    className="w-full h-32 bg-stone-800/50 border border-stone-700 rounded-lg p-4 text-stone-300 placeholder-stone-500 focus:border-[#FEFBF6] focus:outline-none disabled:opacity-60"
+                  />
+                )}
+
+                {currentQuestion.type === 'fill-blank' && (
+                  <input
+                    type="text"
+                    value={examTakingState.answers[examTakingState.currentQuestionIndex] as string || ''}
+                    onChange={(e) => handleAnswerSelect(e.target.value)}
+                    disabled={answersLocked}
+                    placeholder="Fill in the blank..."
+                    className="w-full bg-stone-800/50 border border-stone-700 rounded-lg p-4 text-stone-300 placeholder-stone-500 focus:border-[#FEFBF6] focus:outline-none disabled:opacity-60"
+                  />
+                )}
+              </div>
+
+              {/* Navigation */}
+              <div className="flex justify-between items-center">
                 <Button
-                  onClick={handleNextQuestion}
-                  className="bg-[#FEFBF6] text-[#0d0d0d] hover:bg-[#fde6c4]"
+                  onClick={handlePreviousQuestion}
+                  disabled={answersLocked || examTakingState.currentQuestionIndex <= firstOpenQuestion(examTakingState)}
+                  variant="outline"
+                  className="border-[#FEFBF6]/30 text-[#FEFBF6] hover:bg-[#FEFBF6]/10 disabled:opacity-50"
                 >
-                  Next
-                  <ChevronRight className="w-4 h-4 ml-2" />
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Previous
                 </Button>
-              )}
+
+                <div className="text-center">
+                  <p className="text-sm text-stone-400">
+                    {examTakingState.answers.filter(a => a !== null && a !== '').length} of {exam.questions.length} answered
+                  </p>
+                  {(examTakingState.rules.noBacktracking || entersNextSection) && examTakingState.currentQuestionIndex < exam.questions.length - 1 && (
+                    <p className="text-xs text-stone-500 mt-1">
+                      {examTakingState.rules.noBacktracking ? "You can't return to this question" : "You can't return to this section"}
+                    </p>
+                  )}
+                </div>
+
+                {examTakingState.currentQuestionIndex === exam.questions.length - 1 ? (
+                  <Button
+                    onClick={() => handleSubmitExam()}
+                    disabled={examTakingState.isSubmitted}
+                    className="bg-[#FEFBF6] text-[#0d0d0d] hover:bg-[#fde6c4] disabled:opacity-50"
+                  >
+                    {examTakingState.isSubmitted ? 'Grading...' : 'Submit Exam'}
+                    <CheckCircle className="w-4 h-4 ml-2" />
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleNextQuestion}
+                    disabled={answersLocked}
+                    className="bg-[#FEFBF6] text-[#0d0d0d] hover:bg-[#fde6c4]"
+                  >
+                    {entersNextSection && examTakingState.rules.limitScope === 'section' ? 'Next Section' : 'Next'}
+                    <ChevronRight className="w-4 h-4 ml-2" />
+                  </Button>
+                )}
+              </div>
             </div>
-          </div>
+          )}
         </div>
       </div>
     );
@@ -552,13 +1088,123 @@ ${predictedScore >= 85 ? '🟢 Excellent! You\'re well-prepared for the actual e
           </div>
         </div>
 
+        {/* Unfinished Exams */}
+        {checkpoints.map(checkpoint => {
+          const exam = examSeries.exams.find(e => e.id === checkpoint.examId);
+          if (!exam) return null;
+          const answered = checkpoint.answers.filter(answer => answer !== null && answer !== '').length;
+          // The clock keeps running while the exam is closed, unless it was paused
+          const clockTime = (checkpoint.pausedAt || new Date()).getTime();
+          const timeLeft = Math.max(0, exam.estimatedTime * 60 - Math.floor((clockTime - checkpoint.startedAt.getTime() - checkpoint.pausedMs) / 1000));
+          
+          return (
+            <div
+              key={checkpoint.examId}
+              className="bg-[#FEFBF6]/10 border border-[#FEFBF6]/30 rounded-2xl p-6 mb-6 flex items-center justify-between gap-6"
+            >
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <Clock className="w-4 h-4 text-[#FEFBF6]" />
+                  <span className="text-sm font-medium text-[#FEFBF6]">Exam in progress</span>
+                </div>
+                <p className="text-[#FEFBF6] font-semibold">{exam.title}</p>
+                <p className="text-sm text-stone-400">
+                  {answered}/{exam.questions.length} answered · {formatTime(timeLeft)} left{checkpoint.pausedAt ? ' · paused' : ''} · saved {checkpoint.savedAt.toLocaleString()}
+                </p>
+              </div>
+              <div className="flex gap-3 flex-shrink-0">
+                <Button
+                  onClick={() => handleDiscardCheckpoint(checkpoint.examId)}
+                  variant="outline"
+                  className="border-red-400/30 text-red-400 hover:bg-red-400/10"
+                >
+                  <X className="w-4 h-4 mr-2" />
+                  Discard
+                </Button>
+                <Button
+                  onClick={() => handleResumeExam(checkpoint)}
+                  className="bg-[#FEFBF6] text-[#0d0d0d] hover:bg-[#fde6c4]"
+                >
+                  <Play className="w-4 h-4 mr-2" />
+                  Resume Exam
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+
         {/* Main Content Layout */}
         <div className="flex gap-8">
           {/* Left Side - Exam Cards */}
           <div className="flex-1 space-y-6">
+            {/* Exam Conditions */}
+            <div className="bg-stone-900/50 rounded-2xl p-6 shadow-lg border border-[#FEFBF6]/20 backdrop-blur-sm">
+              <div className="flex items-center gap-2 mb-4">
+                <Clock className="w-5 h-5 text-[#FEFBF6]" />
+                <h3 className="text-lg font-semibold text-[#FEFBF6]">Exam Conditions</h3>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <p className="text-sm text-stone-400 mb-2">Time limits</p>
+                  <div className="flex gap-2">
+                    {([['exam', 'Whole exam'], ['section', 'Per section'], ['question', 'Per question']] as [TimeLimitScope, string][]).map(([scope, label]) => (
+                      <button
+                        key={scope}
+                        onClick={() => updateTimingRules({ limitScope: scope })}
+                        className={`px-3 py-2 rounded-lg border text-sm transition-all ${
+                          timingRules.limitScope === scope
+                            ? 'bg-[#FEFBF6]/20 border-[#FEFBF6] text-[#FEFBF6]'
+                            : 'bg-stone-800/50 border-stone-700 text-stone-300 hover:bg-stone-800/70'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <p className="text-sm text-stone-400 mb-2">Warn at (minutes left)</p>
+                  <input
+                    type="text"
+                    value={warnAtText}
+                    onChange={(e) => setWarnAtText(e.target.value)}
+                    onBlur={handleWarnAtBlur}
+                    placeholder="e.g. 10, 5, 1"
+                    className="w-full bg-stone-800/50 border border-stone-700 rounded-lg px-3 py-2 text-sm text-stone-300 placeholder-stone-500 focus:border-[#FEFBF6] focus:outline-none"
+                  />
+                </div>
+                <div>
+                  <p className="text-sm text-stone-400 mb-2">Navigation</p>
+                  <label className="flex items-center gap-2 text-sm text-stone-300 cursor-pointer py-2">
+                    <input
+                      type="checkbox"
+                      checked={timingRules.noBacktracking}
+                      onChange={(e) => updateTimingRules({ noBacktracking: e.target.checked })}
+                      className="accent-[#FEFBF6]"
+                    />
+                    No going back to earlier questions
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-stone-300 cursor-pointer py-2">
+                    <input
+                      type="checkbox"
+                      checked={timingRules.allowPause}
+                      onChange={(e) => updateTimingRules({ allowPause: e.target.checked })}
+                      className="accent-[#FEFBF6]"
+                    />
+                    Allow pausing
+                  </label>
+                </div>
+              </div>
+              <p className="text-xs text-stone-500 mt-4">
+                Exams are submitted automatically when time runs out, and the clock keeps running while an exam is closed. Without pausing, an exam ends at its start time plus the time limit. Section and question limits split the exam's time by points; time left over carries into the next one. These apply to exams started from now on.
+              </p>
+            </div>
+
             {examSeries.exams.map((exam, index) => {
               const isCompleted = completedExams.has(exam.id);
               const isLocked = index > 0 && !completedExams.has(examSeries.exams[index - 1].id);
+              const examAttempts = attempts.filter(attempt => attempt.examId === exam.id);
+              const checkpoint = checkpoints.find(item => item.examId === exam.id);
               
               return (
                 <div
@@ -648,6 +1294,12 @@ ${predictedScore >= 85 ? '🟢 Excellent! You\'re well-prepared for the actual e
                               </div>
                             )}
                           </div>
+                          {examAttempts.length > 1 && (
+                            <p className="text-xs text-stone-400 mt-3">
+                              {examAttempts.length} attempts: {examAttempts.map(attempt => `${attempt.score}%`).join(' → ')}
+                              {' '}(best {Math.max(...examAttempts.map(attempt => attempt.score))}%)
+                            </p>
+                          )}
                         </div>
                       )}
                       
@@ -660,6 +1312,14 @@ ${predictedScore >= 85 ? '🟢 Excellent! You\'re well-prepared for the actual e
                           >
                             🔒 Complete Previous Level First
                           </Button>
+                        ) : checkpoint ? (
+                          <Button
+                            onClick={() => handleResumeExam(checkpoint)}
+                            className="bg-[#FEFBF6] text-[#0d0d0d] hover:bg-[#fde6c4]"
+                          >
+                            <Play className="w-4 h-4 mr-2" />
+                            Resume Exam
+                          </Button>
                         ) : isCompleted ? (
                           <>
                             <Button
@@ -670,6 +1330,16 @@ ${predictedScore >= 85 ? '🟢 Excellent! You\'re well-prepared for the actual e
                               <RotateCcw className="w-4 h-4 mr-2" />
                               Retake Exam
                             </Button>
+                            {examAttempts.length > 0 && (
+                              <Button
+                                onClick={() => handleReviewAttempt(exam, examAttempts[examAttempts.length - 1])}
+                                variant="outline"
+                                className="border-[#FEFBF6]/30 text-[#FEFBF6] hover:bg-[#FEFBF6]/10"
+                              >
+                                <ListChecks className="w-4 h-4 mr-2" />
+                                Review Answers
+                              </Button>
+                            )}
                             {exam.score && exam.score >= 80 && (
                               <div className="flex items-center gap-2 text-green-400 text-sm">
                                 <CheckCircle className="w-4 h-4" />
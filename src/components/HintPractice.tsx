@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, Eye, HelpCircle, Lightbulb, Send } from 'lucide-react';
+import { Button } from './ui/button';
+import MathText from './MathText';
+import type { MathProblem } from '../services/SolverService';
+import type { StepVerification } from '../services/stepVerification';
+import { getHints, getPractice, revealSolution, showNextHint, submitAttempt } from '../services/practiceService';
+
+interface HintPracticeProps {
+  problem: MathProblem;
+  stepIndex: number; // the step on screen
+  onProblemChange: (update: (problem: MathProblem) => MathProblem) => void; // called to record practice progress
+}
+
+const RESULT_STYLES: Record<StepVerification['status'], { icon: typeof CheckCircle; color: string }> = {
+  verified: { icon: CheckCircle, color: 'text-green-300 bg-green-400/10 border-green-400/30' },
+  failed: { icon: AlertCircle, color: 'text-red-300 bg-red-400/10 border-red-400/30' },
+  unverified: { icon: HelpCircle, color: 'text-stone-300 bg-stone-400/10 border-stone-400/30' },
+  skipped: { icon: HelpCircle, color: 'text-stone-300 bg-stone-400/10 border-stone-400/30' },
+};
+
+/**
+ * Hint-first practice for one step: the student works it out, asks for
+ * hints one at a time and checks their own answer. The step itself stays
+ * hidden until the last hint or until the solution is revealed.
+ */
+const HintPractice = ({ problem, stepIndex, onProblemChange }: HintPracticeProps) => {
+  const [attempt, setAttempt] = useState('');
+  const [result, setResult] = useState<StepVerification | null>(null);
+
+  useEffect(() => {
+    setAttempt('');
+    setResult(null);
+  }, [problem.id, stepIndex]);
+
+  const step = problem.steps[stepIndex];
+  const hints = getHints(step);
+  const progress = getPractice(problem).steps[stepIndex];
+  const shownHints = hints.slice(0, progress.hints);
+
+  const handleCheck = () => {
+    if (!attempt.trim()) return;
+    const checked = submitAttempt(problem, stepIndex, attempt);
+    setResult(checked.result);
+    if (checked.problem !== problem) {
+      onProblemChange(current => submitAttempt(current, stepIndex, attempt).problem);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      handleCheck();
+    }
+  };
+
+  const ResultIcon = result ? RESULT_STYLES[result.status].icon : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-[#ffffff]">Your answer for this step:</span>
+          {progress.solved && (
+            <span className="flex items-center gap-1 text-xs px-2 py-1 rounded-full font-medium text-green-400 bg-green-400/20">
+              <CheckCircle className="w-3 h-3" />
+              Solved
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            value={attempt}
+            onChange={(e) => setAttempt(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={step.reaction ? 'e.g. 2H2 + O2 -> 2H2O' : 'e.g. 2x = 8'}
+            className="flex-1 px-4 py-2 bg-[#0d0d0d]/50 border border-[#ffffff]/20 rounded-xl text-stone-200 font-mono placeholder-stone-500 focus:outline-none focus:border-[#ffffff]/50"
+          />
+          <Button
+            onClick={handleCheck}
+            disabled={!attempt.trim()}
+            className="bg-[#ffffff] text-[#0d0d0d] hover:bg-[#fde6c4]"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            Check
+          </Button>
+        </div>
+        {result && ResultIcon && (
+          <div className={`flex items-start gap-2 border rounded-xl p-3 mt-3 ${RESULT_STYLES[result.status].color}`}>
+            <ResultIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <p className="text-sm">{result.reason}</p>
+          </div>
+        )}
+        {progress.attempts > 0 && (
+          <p className="text-xs text-stone-400 mt-2">
+            {progress.attempts} attempt{progress.attempts === 1 ? '' : 's'} on this step
+          </p>
+        )}
+      </div>
+
+      {shownHints.map((hint, index) => (
+        <div key={index} className="bg-[#ffffff]/10 border border-[#ffffff]/30 rounded-xl p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <Lightbulb className="w-4 h-4 text-[#ffffff]" />
+            <span className="text-sm font-medium text-[#ffffff]">Hint {index + 1}: {hint.label}</span>
+          </div>
+          <div className={`text-stone-200 leading-relaxed ${hint.formula ? 'bg-[#0d0d0d]/50 p-3 rounded-lg overflow-x-auto' : ''}`}>
+            {hint.formula && step.reaction === hint.text ? (
+              <span className="font-mono">{hint.text}</span>
+            ) : (
+              <MathText text={hint.text} formula={hint.formula} />
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button
+          onClick={() => onProblemChange(current => showNextHint(current, stepIndex))}
+          disabled={progress.hints >= hints.length}
+          variant="outline"
+          className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10 disabled:opacity-50"
+        >
+          <Lightbulb className="w-4 h-4 mr-2" />
+          {progress.hints >= hints.length ? 'No more hints' : `Show hint ${progress.hints + 1} of ${hints.length}`}
+        </Button>
+        <Button
+          onClick={() => onProblemChange(revealSolution)}
+          variant="outline"
+          className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+        >
+          <Eye className="w-4 h-4 mr-2" />
+          Reveal Full Solution
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default HintPractice;
@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import MathText from './MathText';
 import { useLanguage } from '../contexts/LanguageContext';
 import { 
   Map, 
@@ -18,10 +19,13 @@ import {
   Users,
   Award,
   ChevronRight,
+  RefreshCw,
   X
 } from 'lucide-react';
-import { LearningRoadService } from '../services/learningRoadService';
+import { LearningRoadService, type LearningStep as GeneratedStep } from '../services/learningRoadService';
 import { databaseService, type StoredLearningPath } from '../services/databaseService';
+import { getUserErrorMessage } from '../services/modelErrors';
+import type { CacheOptions } from '../services/responseCache';
 
 
 interface LearningStep {
@@ -63,6 +67,7 @@ function LearningRoad() {
   const [learningPath, setLearningPath] = useState<LearningStep[]>([]);
   const [selectedPathTopic, setSelectedPathTopic] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
+  const [streamedSteps, setStreamedSteps] = useState<GeneratedStep[]>([]);
   const [generationError, setGenerationError] = useState<string | null>(null);
   const [currentView, setCurrentView] = useState<'input' | 'path' | 'learning' | 'quiz'>('input');
   const [selectedTopic, setSelectedTopic] = useState<LearningStep | null>(null);
@@ -78,6 +83,7 @@ function LearningRoad() {
   const [savedLearningPaths, setSavedLearningPaths] = useState<StoredLearningPath[]>([]);
   const [showSavedPaths, setShowSavedPaths] = useState(false);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const learningRoadService = new LearningRoadService();
 
@@ -124,6 +130,21 @@ function LearningRoad() {
     };
   }, [isGenerating, generationStartTime]);
 
+  // Stop any running generation when leaving the page
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const startRequest = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = new AbortController();
+    return abortControllerRef.current.signal;
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty.toLowerCase()) {
       case 'beginner':
@@ -144,9 +165,13 @@ function LearningRoad() {
     setGenerationError(null);
     setGenerationStartTime(Date.now());
     setGenerationElapsedTime(0);
+    setStreamedSteps([]);
+    const signal = startRequest();
 
     try {
-      const path = await learningRoadService.generateLearningPath(topicInput.trim(),language);
+      const path = await learningRoadService.generateLearningPath(topicInput.trim(), language, (step) => {
+        setStreamedSteps(prev => [...prev, step]);
+      }, signal);
       setLearningPath(path.steps);
       setSelectedPathTopic(path.topic);
       setCurrentView('path');
@@ -160,18 +185,20 @@ function LearningRoad() {
         console.error('Error saving learning path to database:', error);
       }
     } catch (error) {
+      if (signal.aborted) return;
       console.error('Error generating learning path:', error);
-      setGenerationError(error instanceof Error ? error.message : 'Failed to generate learning path');
+      setGenerationError(getUserErrorMessage(error, 'Failed to generate learning path'));
     } finally {
       setIsGenerating(false);
       setGenerationStartTime(null);
     }
   };
 
-  const handleStartLearning = async (topic: LearningStep) => {
+  const handleStartLearning = async (topic: LearningStep, cache?: CacheOptions) => {
     setSelectedTopic(topic);
     setIsLoadingMaterial(true);
     setCurrentView('learning');
+    const signal = startRequest();
 
     try {
       const material = await learningRoadService.generateLearningMaterial(
@@ -179,10 +206,16 @@ function LearningRoad() {
         topic.title,
         topic.description,
         topic.keyTopics,
-        language
+        language,
+        signal,
+        cache
       );
       setLearningMaterial(material);
     } catch (error) {
+      if (signal.aborted) {
+        setCurrentView('path');
+        return;
+      }
       console.error('Error generating learning material:', error);
       // Fallback material
       setLearningMaterial({
@@ -205,18 +238,23 @@ function LearningRoad() {
     }
   };
 
-  const handleStartQuiz = async (topic: LearningStep) => {
+  const handleStartQuiz = async (topic: LearningStep, cache?: CacheOptions) => {
     setSelectedTopic(topic);
     setIsLoadingQuiz(true);
     setCurrentView('quiz');
     setCurrentQuestionIndex(0);
     setSelectedAnswers([]);
     setShowResults(false);
+    const signal = startRequest();
 
     try {
-      const quizQuestions = await learningRoadService.generateQuiz(selectedPathTopic, topic.title, language);
+      const quizQuestions = await learningRoadService.generateQuiz(selectedPathTopic, topic.title, language, signal, cache);
       setQuiz(quizQuestions);
     } catch (error) {
+      if (signal.aborted) {
+        setCurrentView('path');
+        return;
+      }
       console.error('Error generating quiz:', error);
       // Fallback quiz
       setQuiz([
@@ -304,7 +342,15 @@ function LearningRoad() {
           <div className="text-center">
             <div className="w-16 h-16 border-4 border-[#feedd1] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
             <h2 className="text-2xl font-bold text-[#feedd1] mb-2">Generating Quiz...</h2>
-            <p className="text-stone-300">Creating personalized questions for you</p>
+            <p className="text-stone-300 mb-6">Creating personalized questions for you</p>
+            <Button
+              onClick={handleCancel}
+              variant="outline"
+              className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+            >
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
           </div>
         </div>
       );
@@ -336,21 +382,21 @@ function LearningRoad() {
                 {quiz.map((question, index) => (
                   <div key={question.id} className="bg-stone-800/50 rounded-lg p-4 text-left">
                     <h3 className="text-lg font-semibold text-[#ffffff] mb-2">
-                      {index + 1}. {question.question}
+                      {index + 1}. <MathText text={question.question} />
                     </h3>
                     <p className={`text-sm mb-2 ${
                       selectedAnswers[index] === question.correctAnswer 
                         ? 'text-green-400' 
                         : 'text-red-400'
                     }`}>
-                      Your answer: {question.options[selectedAnswers[index]]}
+                      Your answer: <MathText text={question.options[selectedAnswers[index]] || ''} />
                     </p>
                     {selectedAnswers[index] !== question.correctAnswer && (
                       <p className="text-sm text-green-400 mb-2">
-                        Correct answer: {question.options[question.correctAnswer]}
+                        Correct answer: <MathText text={question.options[question.correctAnswer] || ''} />
                       </p>
                     )}
-                    <p className="text-sm text-stone-300">{question.explanation}</p>
+                    <p className="text-sm text-stone-300"><MathText text={question.explanation} /></p>
                   </div>
                 ))}
               </div>
@@ -370,6 +416,14 @@ function LearningRoad() {
                 >
                   Continue Learning
                 </Button>
+                <Button
+                  onClick={() => selectedTopic && handleStartQuiz(selectedTopic, { regenerate: true })}
+                  variant="outline"
+                  className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  New Questions
+                </Button>
               </div>
             </div>
           </div>
@@ -402,7 +456,7 @@ function LearningRoad() {
 
             {currentQuestion && (
               <div className="space-y-6">
-                <h2 className="text-xl text-[#ffffff] mb-4">{currentQuestion.question}</h2>
+                <h2 className="text-xl text-[#ffffff] mb-4"><MathText text={currentQuestion.question} /></h2>
                 
                 <div className="space-y-3">
                   {currentQuestion.options.map((option, index) => (
@@ -416,7 +470,7 @@ function LearningRoad() {
                       }`}
                     >
                       <span className="font-medium mr-3">{String.fromCharCode(65 + index)}.</span>
-                      {option}
+                      <MathText text={option} />
                     </button>
                   ))}
                 </div>
@@ -447,7 +501,15 @@ function LearningRoad() {
           <div className="text-center">
             <div className="w-16 h-16 border-4 border-[#feedd1] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
             <h2 className="text-2xl font-bold text-[#feedd1] mb-2">Generating Learning Material...</h2>
-            <p className="text-stone-300">Creating personalized content for you</p>
+            <p className="text-stone-300 mb-6">Creating personalized content for you</p>
+            <Button
+              onClick={handleCancel}
+              variant="outline"
+              className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+            >
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
           </div>
         </div>
       );
@@ -490,23 +552,21 @@ function LearningRoad() {
                 {/* Introduction */}
                 <div className="bg-stone-800/50 rounded-lg p-6">
                   <h2 className="text-xl font-semibold text-[#ffffff] mb-3">Introduction</h2>
-                  <p className="text-stone-300 leading-relaxed">{learningMaterial.introduction}</p>
+                  <p className="text-stone-300 leading-relaxed"><MathText text={learningMaterial.introduction} /></p>
                 </div>
 
                 {/* Sections */}
                 {learningMaterial.sections.map((section, index) => (
                   <div key={index} className="bg-stone-800/50 rounded-lg p-6">
                     <h2 className="text-xl font-semibold text-[#ffffff] mb-3">{section.title}</h2>
-                    <p className="text-stone-300 leading-relaxed mb-4">{section.content}</p>
+                    <p className="text-stone-300 leading-relaxed mb-4"><MathText text={section.content} /></p>
                     {section.examples && section.examples.length > 0 && (
                       <div className="bg-[#ffffff]/10 rounded-lg p-4 border border-[#ffffff]/20">
                         <h3 className="text-sm font-medium text-[#ffffff] mb-2">Examples:</h3>
                         <ul className="space-y-1">
                           {section.examples.map((example, idx) => (
                             <li key={idx} className="text-sm text-stone-300">
-                              {/* Access the string value from the object */}
-                              <span className="font-bold mr-2">{Object.keys(example)[0]}:</span>
-                              {Object.values(example)[0]}
+                              <MathText text={example} />
                             </li>
                           ))}
                         </ul>
@@ -520,7 +580,7 @@ function LearningRoad() {
                 {/* Summary */}
                 <div className="bg-stone-800/50 rounded-lg p-6">
                   <h2 className="text-xl font-semibold text-[#ffffff] mb-3">Summary</h2>
-                  <p className="text-stone-300 leading-relaxed">{learningMaterial.summary}</p>
+                  <p className="text-stone-300 leading-relaxed"><MathText text={learningMaterial.summary} /></p>
                 </div>
 
                 {/* Next Steps */}
@@ -554,6 +614,14 @@ function LearningRoad() {
                   <CheckCircle className="w-4 h-4 mr-2" />
                   Mark as Complete
                 </Button>
+                <Button
+                  onClick={() => selectedTopic && handleStartLearning(selectedTopic, { regenerate: true })}
+                  variant="outline"
+                  className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Regenerate
+                </Button>
               </div>
             </div>
           )}
@@ -827,6 +895,33 @@ function LearningRoad() {
               )}
             </Button>
 
+            {isGenerating && (
+              <Button
+                onClick={handleCancel}
+                variant="outline"
+                className="w-full border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+              >
+                <X className="w-4 h-4 mr-2" />
+                {t('learningroad.cancel')}
+              </Button>
+            )}
+
+            {isGenerating && streamedSteps.length > 0 && (
+              <div className="space-y-2">
+                {streamedSteps.map((step) => (
+                  <div
+                    key={step.step}
+                    className="bg-stone-800/50 rounded-lg p-3 border border-[#ffffff]/20 flex items-center gap-3"
+                  >
+                    <span className="w-6 h-6 bg-gradient-to-br from-[#ffffff] to-[#fde6c4] rounded-lg flex items-center justify-center flex-shrink-0 text-[#0d0d0d] text-xs font-bold">
+                      {step.step}
+                    </span>
+                    <span className="text-sm text-stone-200">{step.title}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="flex items-center justify-center gap-2 text-sm text-stone-400 pt-4 border-t border-[#ffffff]/20">
               <Brain className="w-4 h-4" />
               <span>{t('learningroad.powered')}</span>
@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import katex from 'katex';
+import 'katex/dist/katex.min.css';
+import { hasMath, splitMath, type MathSegment } from '../utils/latex';
+
+interface MathTextProps {
+  text: string;
+  className?: string;
+  /** Treat text without delimiters as one formula, e.g. for `equation` fields. */
+  formula?: boolean;
+}
+
+type RenderedSegment =
+  | { type: 'text'; value: string }
+  | { type: 'math'; html: string; display: boolean }
+  | { type: 'error'; source: string; message: string };
+
+// Plain-text formulas such as "2x + 3 = 7"; anything with words is left as text
+const looksLikeFormula = (text: string): boolean =>
+  !/[A-Za-z]{3,}/.test(text.replace(/\\[A-Za-z]+|\b(?:sin|cos|tan|log|exp|sqrt|lim)\b/g, ''));
+
+const renderSegment = (segment: MathSegment): RenderedSegment => {
+  if (segment.type === 'text') return { type: 'text', value: segment.value };
+  try {
+    return {
+      type: 'math',
+      html: katex.renderToString(segment.value, { displayMode: !!segment.display, throwOnError: true, trust: false }),
+      display: !!segment.display,
+    };
+  } catch (error) {
+    return { type: 'error', source: segment.value, message: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Renders text with LaTeX math in it. Only the KaTeX output is inserted as
+ * HTML; the text around it stays plain React text, and TeX that fails to
+ * parse is shown as its source so nothing the model wrote is lost.
+ */
+const MathText = ({ text, className, formula = false }: MathTextProps) => {
+  const segments = useMemo(() => {
+    const parts = formula && text.trim() && !hasMath(text) && looksLikeFormula(text)
+      ? [{ type: 'math' as const, value: text.trim() }]
+      : splitMath(text);
+    return parts.map(renderSegment);
+  }, [text, formula]);
+
+  return (
+    <span className={className}>
+      {segments.map((segment, index) => {
+        if (segment.type === 'text') {
+          return <React.Fragment key={index}>{segment.value}</React.Fragment>;
+        }
+        if (segment.type === 'error') {
+          // An undelimited formula that KaTeX rejects reads better as plain text
+          return formula && segments.length === 1 && !hasMath(text) ? (
+            <React.Fragment key={index}>{segment.source}</React.Fragment>
+          ) : (
+            <code key={index} className="font-mono text-amber-300" title={segment.message}>
+              {segment.source}
+            </code>
+          );
+        }
+        return (
+          <span
+            key={index}
+            className={segment.display ? 'block my-2 overflow-x-auto' : undefined}
+            dangerouslySetInnerHTML={{ __html: segment.html }}
+          />
+        );
+      })}
+    </span>
+  );
+};
+
+export default MathText;
@@ -0,0 +1,299 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, Eye, HelpCircle, Layers, Save, Send, Square } from 'lucide-react';
+import { Button } from './ui/button';
+import MathText from './MathText';
+import { solverService, type MathProblem } from '../services/SolverService';
+import type { StepVerification } from '../services/stepVerification';
+import { revealSolution, submitAnswer } from '../services/practiceService';
+import { databaseService, type StoredProblemSet } from '../services/databaseService';
+import { getUserErrorMessage } from '../services/modelErrors';
+
+interface PracticeVariantsProps {
+  problem: MathProblem; // the solved problem to practice more like
+  language: string;
+}
+
+const COUNTS = [1, 3, 5];
+const NEW_SET = 'new';
+
+const RESULT_STYLES: Record<StepVerification['status'], { icon: typeof CheckCircle; color: string }> = {
+  verified: { icon: CheckCircle, color: 'text-green-300 bg-green-400/10 border-green-400/30' },
+  failed: { icon: AlertCircle, color: 'text-red-300 bg-red-400/10 border-red-400/30' },
+  unverified: { icon: HelpCircle, color: 'text-stone-300 bg-stone-400/10 border-stone-400/30' },
+  skipped: { icon: HelpCircle, color: 'text-stone-300 bg-stone-400/10 border-stone-400/30' },
+};
+
+/**
+ * "Practice more like this": generates new problems on the same topic, keeps
+ * each answer hidden until the student has tried it, and saves the problems
+ * to a personal problem set that the Exam Simulator can turn into an exam.
+ */
+const PracticeVariants = ({ problem, language }: PracticeVariantsProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [count, setCount] = useState(3);
+  const [harder, setHarder] = useState(false);
+  const [variants, setVariants] = useState<MathProblem[]>([]);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [results, setResults] = useState<Record<string, StepVerification>>({});
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [problemSets, setProblemSets] = useState<StoredProblemSet[]>([]);
+  const [targetSet, setTargetSet] = useState(NEW_SET);
+  const [setName, setSetName] = useState(problem.topic);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    databaseService.getAllProblemSets().then(setProblemSets);
+  }, [isOpen]);
+
+  const handleGenerate = async () => {
+    setError(null);
+    setSavedMessage(null);
+    setIsGenerating(true);
+    abortControllerRef.current = new AbortController();
+    const signal = abortControllerRef.current.signal;
+
+    try {
+      const generated = await solverService.generateVariants(problem, language, { count, harder, signal });
+      setVariants(generated);
+      setAnswers({});
+      setResults({});
+    } catch (err) {
+      if (!signal.aborted) {
+        console.error('Error generating practice problems:', err);
+        setError(getUserErrorMessage(err, 'Could not generate practice problems. Please try again.'));
+      }
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const updateVariant = (updated: MathProblem) => {
+    setVariants(current => current.map(variant => (variant.id === updated.id ? updated : variant)));
+  };
+
+  const handleCheck = (variant: MathProblem) => {
+    const answer = answers[variant.id] || '';
+    if (!answer.trim()) return;
+    const checked = submitAnswer(variant, answer);
+    updateVariant(checked.problem);
+    setResults(current => ({ ...current, [variant.id]: checked.result }));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>, variant: MathProblem) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      handleCheck(variant);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      if (targetSet === NEW_SET) {
+        const name = setName.trim() || problem.topic;
+        await databaseService.saveProblemSet({ id: `set_${Date.now()}`, name, problems: variants, createdAt: new Date() });
+        setSavedMessage(`Saved ${variants.length} problem${variants.length === 1 ? '' : 's'} to "${name}".`);
+      } else {
+        await databaseService.addProblemsToSet(targetSet, variants);
+        const name = problemSets.find(set => set.id === targetSet)?.name;
+        setSavedMessage(`Added ${variants.length} problem${variants.length === 1 ? '' : 's'} to "${name}".`);
+      }
+      setProblemSets(await databaseService.getAllProblemSets());
+    } catch (err) {
+      console.error('Error saving problem set:', err);
+      setError('Could not save the problem set. Please try again.');
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <Button
+        onClick={() => setIsOpen(true)}
+        variant="outline"
+        className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+      >
+        <Layers className="w-4 h-4 mr-2" />
+        Practice More Like This
+      </Button>
+    );
+  }
+
+  return (
+    <div className="bg-stone-900/50 rounded-2xl p-6 shadow-lg border border-[#ffffff]/20 backdrop-blur-sm">
+      <div className="flex items-center gap-2 mb-4">
+        <Layers className="w-5 h-5 text-[#ffffff]" />
+        <h4 className="text-lg font-semibold text-[#ffffff]">Practice More Like This</h4>
+        <span className="text-sm text-stone-400 ml-auto">{problem.topic}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="flex gap-1 bg-stone-800/50 rounded-xl p-1 border border-[#ffffff]/20">
+          {COUNTS.map(option => (
+            <button
+              key={option}
+              onClick={() => setCount(option)}
+              disabled={isGenerating}
+              className={`text-xs px-3 py-1 rounded-lg transition-all ${
+                count === option ? 'bg-[#ffffff] text-[#0d0d0d]' : 'text-stone-300 hover:bg-[#ffffff]/10'
+              }`}
+            >
+              {option} problem{option === 1 ? '' : 's'}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1 bg-stone-800/50 rounded-xl p-1 border border-[#ffffff]/20">
+          {[false, true].map(option => (
+            <button
+              key={String(option)}
+              onClick={() => setHarder(option)}
+              disabled={isGenerating}
+              className={`text-xs px-3 py-1 rounded-lg transition-all ${
+                harder === option ? 'bg-[#ffffff] text-[#0d0d0d]' : 'text-stone-300 hover:bg-[#ffffff]/10'
+              }`}
+            >
+              {option ? 'One level harder' : `Same difficulty (${problem.difficulty})`}
+            </button>
+          ))}
+        </div>
+        {isGenerating ? (
+          <Button
+            onClick={() => abortControllerRef.current?.abort()}
+            variant="outline"
+            className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+          >
+            <Square className="w-4 h-4 mr-2" />
+            Cancel
+          </Button>
+        ) : (
+          <Button
+            onClick={handleGenerate}
+            className="bg-[#ffffff] text-[#0d0d0d] hover:bg-[#fde6c4]"
+          >
+            {variants.length > 0 ? 'Generate New Problems' : 'Generate'}
+          </Button>
+        )}
+      </div>
+
+      {isGenerating && <p className="text-sm text-stone-400 mb-4">Writing and solving new problems...</p>}
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      <div className="space-y-4">
+        {variants.map((variant, index) => {
+          const result = results[variant.id];
+          const ResultIcon = result ? RESULT_STYLES[result.status].icon : null;
+          const tried = (variant.practice?.answerAttempts || 0) > 0;
+
+          return (
+            <div key={variant.id} className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20">
+              <div className="flex items-start gap-3 mb-3">
+                <div className="w-8 h-8 bg-gradient-to-br from-[#ffffff] to-[#fde6c4] rounded-lg flex items-center justify-center flex-shrink-0">
+                  <span className="text-[#0d0d0d] font-bold text-sm">{index + 1}</span>
+                </div>
+                <p className="flex-1 text-[#ffffff] font-medium"><MathText text={variant.question} /></p>
+                {variant.practice?.answerCorrect && (
+                  <span className="flex items-center gap-1 text-xs px-2 py-1 rounded-full font-medium text-green-400 bg-green-400/20">
+                    <CheckCircle className="w-3 h-3" />
+                    Solved
+                  </span>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <input
+                  value={answers[variant.id] || ''}
+                  onChange={(e) => setAnswers(current => ({ ...current, [variant.id]: e.target.value }))}
+                  onKeyDown={(e) => handleKeyDown(e, variant)}
+                  placeholder="Your answer"
+                  className="flex-1 px-4 py-2 bg-[#0d0d0d]/50 border border-[#ffffff]/20 rounded-xl text-stone-200 font-mono placeholder-stone-500 focus:outline-none focus:border-[#ffffff]/50"
+                />
+                <Button
+                  onClick={() => handleCheck(variant)}
+                  disabled={!(answers[variant.id] || '').trim()}
+                  className="bg-[#ffffff] text-[#0d0d0d] hover:bg-[#fde6c4]"
+                >
+                  <Send className="w-4 h-4 mr-2" />
+                  Check
+                </Button>
+                {/* The answer stays hidden until the student has tried at least once */}
+                {tried && !variant.practice?.revealed && (
+                  <Button
+                    onClick={() => updateVariant(revealSolution(variant))}
+                    variant="outline"
+                    className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+                  >
+                    <Eye className="w-4 h-4 mr-2" />
+                    Show Answer
+                  </Button>
+                )}
+              </div>
+
+              {result && ResultIcon && (
+                <div className={`flex items-start gap-2 border rounded-xl p-3 mt-3 ${RESULT_STYLES[result.status].color}`}>
+                  <ResultIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <p className="text-sm">{result.reason}</p>
+                </div>
+              )}
+
+              {variant.practice?.revealed && (
+                <div className="mt-3 bg-[#ffffff]/10 border border-[#ffffff]/30 rounded-xl p-4">
+                  <p className="text-sm font-medium text-[#ffffff] mb-1">Answer:</p>
+                  <p className="text-stone-200 mb-3"><MathText text={variant.solution} formula /></p>
+                  <ol className="space-y-2">
+                    {variant.steps.map(step => (
+                      <li key={step.step} className="text-sm text-stone-300">
+                        <span className="text-stone-200 font-medium">{step.step}. <MathText text={step.description} /></span>
+                        {step.reaction && <span className="block font-mono">{step.reaction}</span>}
+                        {step.equation.trim() && <span className="block"><MathText text={step.equation} formula /></span>}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {variants.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-6 pt-6 border-t border-[#ffffff]/20">
+          <span className="text-sm text-stone-300">Save to</span>
+          <select
+            value={targetSet}
+            onChange={(e) => setTargetSet(e.target.value)}
+            className="px-3 py-2 bg-stone-800/50 border border-[#ffffff]/20 rounded-xl text-stone-200 focus:outline-none focus:border-[#ffffff]/50"
+          >
+            <option value={NEW_SET}>New problem set</option>
+            {problemSets.map(set => (
+              <option key={set.id} value={set.id}>{set.name} ({set.problemCount})</option>
+            ))}
+          </select>
+          {targetSet === NEW_SET && (
+            <input
+              value={setName}
+              onChange={(e) => setSetName(e.target.value)}
+              placeholder="Set name"
+              className="flex-1 min-w-40 px-3 py-2 bg-stone-800/50 border border-[#ffffff]/20 rounded-xl text-stone-200 placeholder-stone-500 focus:outline-none focus:border-[#ffffff]/50"
+            />
+          )}
+          <Button
+            onClick={handleSave}
+            variant="outline"
+            className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+          {savedMessage && <p className="w-full text-sm text-green-400">{savedMessage} Use it in the Exam Simulator under Problem Sets.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PracticeVariants;
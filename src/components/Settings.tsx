@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useLanguage } from '../contexts/LanguageContext';
 import { 
   Settings as SettingsIcon,
@@ -54,9 +54,38 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import LanguageSelector from './LanguageSelector';
+import { useConnectivity } from '../contexts/connectivity';
+import type { ConnectivityMode } from '../services/connectivityService';
+import {
+  MODEL_FEATURES,
+  getLocalProvider,
+  getModelRouting,
+  getOpenAICompatibleProvider,
+  isMockMode,
+  isMockModeForced,
+  listLocalProviders,
+  listProviders,
+  resetModelRouting,
+  saveLocalProviderConfig,
+  saveOpenAICompatibleConfig,
+  setFeatureProvider,
+  setLocalProvider,
+  setMockMode,
+  type ModelFeature,
+  type ModelRouting
+} from '../services/modelService';
+import {
+  getResponseCacheTtlDays,
+  isResponseCacheEnabled,
+  setResponseCacheEnabled,
+  setResponseCacheTtlDays
+} from '../services/responseCache';
+import { databaseService } from '../services/databaseService';
+import { getUsageBudget, getUsageSummary, saveUsageBudget, type UsageSummary, type UsageTotals } from '../services/usageService';
 
 const Settings = () => {
   const { t } = useLanguage();
+  const connectivity = useConnectivity();
   const [activeSection, setActiveSection] = useState<'profile' | 'preferences' | 'data' | 'advanced'>('profile');
   const [showApiKey, setShowApiKey] = useState(false);
   const [notifications, setNotifications] = useState({
@@ -78,10 +107,39 @@ const Settings = () => {
   });
   const [performance, setPerformance] = useState({
     autoSave: true,
-    caching: true,
     preload: false,
     compression: true
   });
+  const [modelRouting, setModelRouting] = useState<ModelRouting>(getModelRouting());
+  const [openAIConfig, setOpenAIConfig] = useState(getOpenAICompatibleProvider().getConfig());
+  const [localProviderId, setLocalProviderId] = useState(getLocalProvider().id);
+  const [localConfig, setLocalConfig] = useState(getLocalProvider().getConfig());
+  const [mockMode, setMockModeState] = useState(isMockMode());
+  const [cacheEnabled, setCacheEnabled] = useState(isResponseCacheEnabled());
+  const [cacheTtlDays, setCacheTtlDays] = useState(getResponseCacheTtlDays());
+  const [cacheStats, setCacheStats] = useState<Record<string, number>>({});
+
+  const loadCacheStats = async () => {
+    await databaseService.purgeExpiredResponses();
+    setCacheStats(await databaseService.getResponseCacheStats());
+  };
+
+  const [usageSummary, setUsageSummary] = useState<UsageSummary | null>(null);
+  const [budget, setBudget] = useState(() => {
+    const saved = getUsageBudget();
+    return { dailyCost: saved.dailyCost ? String(saved.dailyCost) : '', dailyTokens: saved.dailyTokens ? String(saved.dailyTokens) : '' };
+  });
+
+  const loadUsageSummary = async () => {
+    setUsageSummary(await getUsageSummary(7));
+  };
+
+  useEffect(() => {
+    if (activeSection === 'advanced') {
+      loadCacheStats();
+      loadUsageSummary();
+    }
+  }, [activeSection]);
 
   const settingSections = [
     {
@@ -89,9 +147,73 @@ const Settings = () => {
       label: 'Profile & Account',
       icon: User,
       description: 'Manage your personal information and account settings'
+    },
+    {
+      id: 'advanced',
+      label: 'AI & Advanced',
+      icon: Brain,
+      description: 'Choose AI providers and configure advanced options'
     }
   ];
 
+  const handleProviderChange = (feature: ModelFeature, providerId: string) => {
+    setFeatureProvider(feature, providerId);
+    setModelRouting(getModelRouting());
+  };
+
+  const handleLocalProviderChange = (providerId: string) => {
+    setLocalProvider(providerId);
+    setLocalProviderId(providerId);
+    setLocalConfig(getLocalProvider().getConfig());
+    connectivity.refresh();
+  };
+
+  const handleSaveLocalConfig = () => {
+    saveLocalProviderConfig(localConfig);
+    connectivity.refresh();
+  };
+
+  const handleToggleCache = () => {
+    setResponseCacheEnabled(!cacheEnabled);
+    setCacheEnabled(!cacheEnabled);
+  };
+
+  const handleCacheTtlChange = (days: number) => {
+    setResponseCacheTtlDays(days);
+    setCacheTtlDays(days);
+  };
+
+  const handleClearCache = async (feature?: string) => {
+    await databaseService.clearResponseCache(feature);
+    loadCacheStats();
+  };
+
+  const handleSaveBudget = () => {
+    saveUsageBudget({
+      dailyCost: Number(budget.dailyCost) > 0 ? Number(budget.dailyCost) : undefined,
+      dailyTokens: Number(budget.dailyTokens) > 0 ? Math.round(Number(budget.dailyTokens)) : undefined
+    });
+  };
+
+  const handleClearUsage = async () => {
+    await databaseService.clearUsageRecords();
+    loadUsageSummary();
+  };
+
+  const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+  const formatTokens = (totals: UsageTotals) => (totals.promptTokens + totals.completionTokens).toLocaleString();
+
+  const handleResetRouting = () => {
+    resetModelRouting();
+    setModelRouting(getModelRouting());
+  };
+
+  const handleMockModeToggle = () => {
+    if (isMockModeForced()) return;
+    setMockMode(!mockMode);
+    setMockModeState(!mockMode);
+  };
+
   const handleToggle = (category: string, setting: string) => {
     switch (category) {
       case 'notifications':
@@ -472,6 +594,161 @@ const Settings = () => {
 
   const renderAdvancedSettings = () => (
     <div className="space-y-6">
+      <SettingCard title="AI Providers" icon={Brain}>
+        <div className="space-y-4">
+          <ToggleSwitch
+            enabled={mockMode}
+            onToggle={handleMockModeToggle}
+            label="Mock Provider"
+            description={isMockModeForced()
+              ? 'Forced on by VITE_MOCK_LLM. Every feature is answered from recorded fixtures.'
+              : 'Answer every feature from recorded fixtures instead of a model, for demos and testing without a connection'}
+          />
+
+          {MODEL_FEATURES.map((feature) => (
+            <div key={feature.id} className="flex items-center justify-between gap-4">
+              <Label className="text-[#ffffff] text-sm font-medium">{feature.label}</Label>
+              <select
+                value={modelRouting[feature.id]}
+                onChange={(e) => handleProviderChange(feature.id, e.target.value)}
+                className="bg-stone-800/60 border border-[#ffffff]/40 text-[#ffffff] rounded-xl p-2 min-w-[240px]"
+              >
+                {listProviders().map((provider) => (
+                  <option key={provider.id} value={provider.id}>
+                    {provider.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+
+          <div className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20 space-y-3">
+            <h4 className="text-[#ffffff] font-medium">OpenAI-compatible endpoint</h4>
+            <div>
+              <Label className="text-[#ffffff] text-sm font-medium mb-2 block">Base URL</Label>
+              <Input
+                value={openAIConfig.baseUrl}
+                onChange={(e) => setOpenAIConfig(prev => ({ ...prev, baseUrl: e.target.value }))}
+                className="bg-stone-800/60 border-[#ffffff]/40 text-[#ffffff] rounded-xl"
+              />
+            </div>
+            <div>
+              <Label className="text-[#ffffff] text-sm font-medium mb-2 block">Model</Label>
+              <Input
+                value={openAIConfig.model}
+                onChange={(e) => setOpenAIConfig(prev => ({ ...prev, model: e.target.value }))}
+                className="bg-stone-800/60 border-[#ffffff]/40 text-[#ffffff] rounded-xl"
+              />
+            </div>
+            <div>
+              <Label className="text-[#ffffff] text-sm font-medium mb-2 block">API Key</Label>
+              <Input
+                type={showApiKey ? "text" : "password"}
+                value={openAIConfig.apiKey || ''}
+                onChange={(e) => setOpenAIConfig(prev => ({ ...prev, apiKey: e.target.value }))}
+                className="bg-stone-800/60 border-[#ffffff]/40 text-[#ffffff] rounded-xl"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Button
+              onClick={() => saveOpenAICompatibleConfig(openAIConfig)}
+              variant="outline"
+              className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10 justify-start"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save Endpoint
+            </Button>
+            <Button
+              onClick={handleResetRouting}
+              variant="outline"
+              className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10 justify-start"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset to Defaults
+            </Button>
+          </div>
+        </div>
+      </SettingCard>
+
+      <SettingCard title="Offline Mode" icon={connectivity.isOffline ? WifiOff : Wifi}>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label className="text-[#ffffff] text-sm font-medium">Connection mode</Label>
+              <p className="text-sm text-stone-400">Automatic switches to the local model whenever the internet is unreachable</p>
+            </div>
+            <select
+              value={connectivity.mode}
+              onChange={(e) => connectivity.setMode(e.target.value as ConnectivityMode)}
+              className="bg-stone-800/60 border border-[#ffffff]/40 text-[#ffffff] rounded-xl p-2 min-w-[240px]"
+            >
+              <option value="auto">Automatic</option>
+              <option value="online">Always online</option>
+              <option value="offline">Always offline</option>
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label className="text-[#ffffff] text-sm font-medium">Local model server</Label>
+            <select
+              value={localProviderId}
+              onChange={(e) => handleLocalProviderChange(e.target.value)}
+              className="bg-stone-800/60 border border-[#ffffff]/40 text-[#ffffff] rounded-xl p-2 min-w-[240px]"
+            >
+              {listLocalProviders().map((provider) => (
+                <option key={provider.id} value={provider.id}>
+                  {provider.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20 space-y-3">
+            <div>
+              <Label className="text-[#ffffff] text-sm font-medium mb-2 block">Base URL</Label>
+              <Input
+                value={localConfig.baseUrl}
+                onChange={(e) => setLocalConfig(prev => ({ ...prev, baseUrl: e.target.value }))}
+                className="bg-stone-800/60 border-[#ffffff]/40 text-[#ffffff] rounded-xl"
+              />
+            </div>
+            <div>
+              <Label className="text-[#ffffff] text-sm font-medium mb-2 block">Model</Label>
+              <Input
+                value={localConfig.model}
+                onChange={(e) => setLocalConfig(prev => ({ ...prev, model: e.target.value }))}
+                className="bg-stone-800/60 border-[#ffffff]/40 text-[#ffffff] rounded-xl"
+              />
+            </div>
+            <div>
+              <Label className="text-[#ffffff] text-sm font-medium mb-2 block">Vision model (OCR)</Label>
+              <Input
+                value={localConfig.visionModel || ''}
+                onChange={(e) => setLocalConfig(prev => ({ ...prev, visionModel: e.target.value }))}
+                className="bg-stone-800/60 border-[#ffffff]/40 text-[#ffffff] rounded-xl"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className={`flex items-center gap-2 text-sm ${connectivity.localAvailable ? 'text-emerald-300' : 'text-red-300'}`}>
+              {connectivity.localAvailable ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+              {connectivity.localAvailable ? 'Local server is reachable' : 'Local server is not reachable'}
+            </div>
+            <Button
+              onClick={handleSaveLocalConfig}
+              variant="outline"
+              className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save & Test
+            </Button>
+          </div>
+        </div>
+      </SettingCard>
+
       <SettingCard title="API Configuration" icon={Key}>
         <div className="space-y-4">
           <div>
@@ -516,6 +793,173 @@ const Settings = () => {
         </div>
       </SettingCard>
 
+      <SettingCard title="Usage & Costs" icon={BarChart3}>
+        <div className="space-y-4">
+          {usageSummary && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {[
+                  { label: 'Requests today', value: usageSummary.today.requests.toLocaleString() },
+                  { label: 'Tokens today', value: formatTokens(usageSummary.today) },
+                  { label: 'Estimated cost today', value: formatCost(usageSummary.today.cost) }
+                ].map(tile => (
+                  <div key={tile.label} className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20">
+                    <div className="text-sm text-stone-400">{tile.label}</div>
+                    <div className="text-2xl font-bold text-[#ffffff]">{tile.value}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20 overflow-x-auto">
+                <h4 className="text-[#ffffff] font-medium mb-3">Last 7 Days by Feature</h4>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-stone-400 text-left">
+                      <th className="py-1 font-medium">Feature</th>
+                      <th className="py-1 font-medium text-right">Requests</th>
+                      <th className="py-1 font-medium text-right">Tokens</th>
+                      <th className="py-1 font-medium text-right">Avg. latency</th>
+                      <th className="py-1 font-medium text-right">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {MODEL_FEATURES.filter(({ id }) => usageSummary.byFeature[id]).map(({ id, label }) => {
+                      const totals = usageSummary.byFeature[id] as UsageTotals;
+                      return (
+                        <tr key={id} className="text-stone-300 border-t border-[#ffffff]/10">
+                          <td className="py-2">{label}</td>
+                          <td className="py-2 text-right">
+                            {totals.requests}
+                            {totals.failures > 0 && <span className="text-red-400"> ({totals.failures} failed)</span>}
+                          </td>
+                          <td className="py-2 text-right">{formatTokens(totals)}</td>
+                          <td className="py-2 text-right">{(totals.averageLatencyMs / 1000).toFixed(1)} s</td>
+                          <td className="py-2 text-right text-[#ffffff]">{formatCost(totals.cost)}</td>
+                        </tr>
+                      );
+                    })}
+                    <tr className="text-[#ffffff] font-medium border-t border-[#ffffff]/20">
+                      <td className="py-2">Total</td>
+                      <td className="py-2 text-right">{usageSummary.period.requests}</td>
+                      <td className="py-2 text-right">{formatTokens(usageSummary.period)}</td>
+                      <td className="py-2 text-right">{(usageSummary.period.averageLatencyMs / 1000).toFixed(1)} s</td>
+                      <td className="py-2 text-right">{formatCost(usageSummary.period.cost)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+                <p className="text-xs text-stone-500 mt-3">
+                  Costs are estimates from published per-token prices. Local models are free; tokens are estimated when a provider does not report them.
+                </p>
+              </div>
+            </>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label className="text-[#ffffff] text-sm font-medium mb-2 block">Daily cost limit (USD)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="No limit"
+                value={budget.dailyCost}
+                onChange={(e) => setBudget(prev => ({ ...prev, dailyCost: e.target.value }))}
+                className="bg-stone-800/60 border-[#ffffff]/40 text-[#ffffff] rounded-xl"
+              />
+            </div>
+            <div>
+              <Label className="text-[#ffffff] text-sm font-medium mb-2 block">Daily token limit</Label>
+              <Input
+                type="number"
+                min="0"
+                step="1000"
+                placeholder="No limit"
+                value={budget.dailyTokens}
+                onChange={(e) => setBudget(prev => ({ ...prev, dailyTokens: e.target.value }))}
+                className="bg-stone-800/60 border-[#ffffff]/40 text-[#ffffff] rounded-xl"
+              />
+            </div>
+          </div>
+          <p className="text-sm text-stone-400">Once a limit is reached, generation with cloud providers is blocked until tomorrow. Local models are not limited.</p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Button
+              onClick={handleSaveBudget}
+              variant="outline"
+              className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10 justify-start"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save Budget
+            </Button>
+            <Button
+              onClick={handleClearUsage}
+              variant="outline"
+              className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10 justify-start"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Clear Usage History
+            </Button>
+          </div>
+        </div>
+      </SettingCard>
+
+      <SettingCard title="AI Response Cache" icon={HardDrive}>
+        <div className="space-y-4">
+          <ToggleSwitch
+            enabled={cacheEnabled}
+            onToggle={handleToggleCache}
+            label="Reuse Earlier Answers"
+            description="Identical requests (same provider, model, prompt version, input and language) are answered from this device instantly, including offline"
+          />
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label className="text-[#ffffff] text-sm font-medium">Keep answers for</Label>
+              <p className="text-sm text-stone-400">Older answers are dropped and generated again on the next request</p>
+            </div>
+            <select
+              value={cacheTtlDays}
+              onChange={(e) => handleCacheTtlChange(Number(e.target.value))}
+              className="bg-stone-800/60 border border-[#ffffff]/40 text-[#ffffff] rounded-xl p-2 min-w-[240px]"
+            >
+              {[1, 7, 30, 90].map(days => (
+                <option key={days} value={days}>{days} {days === 1 ? 'day' : 'days'}</option>
+              ))}
+            </select>
+          </div>
+          <div className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20">
+            <h4 className="text-[#ffffff] font-medium mb-3">Cached Answers</h4>
+            <div className="space-y-2">
+              {MODEL_FEATURES.filter(({ id }) => cacheStats[id]).map(({ id, label }) => (
+                <div key={id} className="flex items-center justify-between">
+                  <span className="text-stone-300">{label}</span>
+                  <div className="flex items-center gap-3">
+                    <span className="text-[#ffffff] font-medium">{cacheStats[id]}</span>
+                    <button
+                      onClick={() => handleClearCache(id)}
+                      className="text-stone-400 hover:text-red-400 transition-colors"
+                      title={`Clear cached ${label.toLowerCase()} answers`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              {Object.keys(cacheStats).length === 0 && (
+                <div className="text-sm text-stone-400">Nothing cached yet.</div>
+              )}
+            </div>
+          </div>
+          <Button
+            onClick={() => handleClearCache()}
+            variant="outline"
+            className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear Cache
+          </Button>
+        </div>
+      </SettingCard>
+
       <SettingCard title="Performance" icon={Zap}>
         <div className="space-y-2">
           <ToggleSwitch
@@ -524,12 +968,6 @@ const Settings = () => {
             label="Auto-Save"
             description="Automatically save your progress"
           />
-          <ToggleSwitch
-            enabled={performance.caching}
-            onToggle={() => handleToggle('performance', 'caching')}
-            label="Smart Caching"
-            description="Cache frequently used data for faster loading"
-          />
           <ToggleSwitch
             enabled={performance.preload}
             onToggle={() => handleToggle('performance', 'preload')}
@@ -639,6 +1077,7 @@ const Settings = () => {
           {/* Right Content - Settings Panels */}
           <div className="flex-1">
             {activeSection === 'profile' && renderProfileSettings()}
+            {activeSection === 'advanced' && renderAdvancedSettings()}
 
             {/* Save Button */}
             <div className="mt-8 flex justify-center">
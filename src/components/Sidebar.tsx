@@ -1,10 +1,11 @@
 // src/components/Sidebar.tsx
 
 import React from 'react';
-import { Sparkles, X, LogOut, LucideIcon, ChevronsLeft } from 'lucide-react';
+import { Sparkles, X, LogOut, LucideIcon, ChevronsLeft, Wifi, WifiOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import LanguageSelector from './LanguageSelector';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useConnectivity } from '../contexts/connectivity';
 
 interface NavigationItem {
   id: string;
@@ -35,6 +36,12 @@ const Sidebar: React.FC<SidebarProps> = ({
   handleLogout,
 }) => {
   const { t } = useLanguage();
+  const { isOffline, localAvailable } = useConnectivity();
+
+  const connectionLabel = isOffline ? t('connectivity.offline') : t('connectivity.online');
+  const connectionDetail = isOffline
+    ? (localAvailable ? t('connectivity.local.ready') : t('connectivity.local.unreachable'))
+    : t('connectivity.cloud');
 
   return (
     <>
@@ -106,6 +113,25 @@ const Sidebar: React.FC<SidebarProps> = ({
 
         {/* Footer with Toggle and Logout */}
         <div className="p-4 border-t border-white/10">
+          {/* Connection Status */}
+          <div
+            title={isExpanded ? '' : `${connectionLabel} - ${connectionDetail}`}
+            className={`flex items-center gap-3 px-4 py-3 mb-2 rounded-xl border
+                      ${!isExpanded && 'justify-center'}
+                      ${isOffline
+                        ? (localAvailable ? 'border-amber-400/30 bg-amber-500/10 text-amber-300' : 'border-red-400/30 bg-red-500/10 text-red-300')
+                        : 'border-emerald-400/30 bg-emerald-500/10 text-emerald-300'
+                      }`}
+          >
+            {isOffline ? <WifiOff className="w-5 h-5 flex-shrink-0" /> : <Wifi className="w-5 h-5 flex-shrink-0" />}
+            {isExpanded && (
+              <div className="min-w-0">
+                <p className="text-sm font-medium whitespace-nowrap">{connectionLabel}</p>
+                <p className="text-xs opacity-80 truncate">{connectionDetail}</p>
+              </div>
+            )}
+          </div>
+
           {/* Collapse/Expand Toggle for Desktop */}
           <Button
             onClick={() => setIsExpanded(!isExpanded)}
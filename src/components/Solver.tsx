@@ -15,33 +15,70 @@ import {
   HelpCircle,
   ChevronRight,
   Copy,
-  Clock
+  Clock,
+  RefreshCw,
+  FlaskConical,
+  Ruler,
+  Tag,
+  History,
+  Search,
+  EyeOff,
+  Camera
 } from 'lucide-react';
+import MathText from './MathText';
+import TutorChat from './TutorChat';
+import HintPractice from './HintPractice';
+import PracticeVariants from './PracticeVariants';
+import CameraCapture from './CameraCapture';
+import TranscriptReview from './TranscriptReview';
+import { toLatexSource } from '../utils/latex';
 import { Button } from '@/components/ui/button';
-import { solverService, type MathProblem } from '../services/SolverService';
+import { solverService, type MathProblem, type PhysicsQuantity, type Subject, type TranscriptProblem } from '../services/SolverService';
+import { getUserErrorMessage } from '../services/modelErrors';
+import type { CacheOptions } from '../services/responseCache';
+import { verifyProblem, type StepVerification, type VerificationStatus } from '../services/stepVerification';
+import { databaseService, type SolverSource, type StoredSolverSession } from '../services/databaseService';
+import { createThumbnail } from '../utils/thumbnails';
+import { getPractice } from '../services/practiceService';
 
-// Define the type for the subject state
-type Subject = 'math' | 'physics' | 'chemistry' | 'biology';
+const VERIFICATION_BADGES: Record<Exclude<VerificationStatus, 'skipped'>, { icon: typeof CheckCircle; label: string; color: string }> = {
+  verified: { icon: CheckCircle, label: 'Verified', color: 'text-green-400 bg-green-400/20' },
+  failed: { icon: AlertCircle, label: 'Possible error', color: 'text-red-400 bg-red-400/20' },
+  unverified: { icon: HelpCircle, label: 'Not verified', color: 'text-stone-400 bg-stone-400/20' },
+};
 
 const Solver = () => {
   const { language, t } = useLanguage();
-  const [currentStep, setCurrentStep] = useState<'upload' | 'processing' | 'results'>('upload');
+  const [currentStep, setCurrentStep] = useState<'upload' | 'processing' | 'review' | 'results'>('upload');
   const [selectedSubject, setSelectedSubject] = useState<Subject>('math'); // State for selected subject
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  const [capturedPhoto, setCapturedPhoto] = useState<File | null>(null); // waiting to be cropped and confirmed
   const [inputMethod, setInputMethod] = useState<'upload' | 'text'>('upload');
   const [textInput, setTextInput] = useState('');
+  const [transcript, setTranscript] = useState<TranscriptProblem[]>([]); // read from the uploads, edited before solving
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isReading, setIsReading] = useState(false);
   const [processingStartTime, setProcessingStartTime] = useState<Date | null>(null);
   const [processingElapsedTime, setProcessingElapsedTime] = useState(0);
   const [mathProblems, setMathProblems] = useState<MathProblem[]>([]);
+  const [streamedProblems, setStreamedProblems] = useState<MathProblem[]>([]);
   const [selectedProblem, setSelectedProblem] = useState<MathProblem | null>(null);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [showStepByStep, setShowStepByStep] = useState(false);
   const [processingError, setProcessingError] = useState<string | null>(null);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [savedSessions, setSavedSessions] = useState<StoredSolverSession[]>([]);
+  const [historyResults, setHistoryResults] = useState<StoredSolverSession[]>([]);
+  const [historyQuery, setHistoryQuery] = useState('');
+  const [historyTopic, setHistoryTopic] = useState<string | null>(null);
+  const [hintMode, setHintMode] = useState(() => localStorage.getItem('solverHintMode') === 'true');
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const problemsChangedRef = useRef(false); // set by handleProblemChange until the session is saved
 
   // Array of subjects for easy mapping
   const subjects: { name: Subject; label: string }[] = [
@@ -106,30 +143,208 @@ const Solver = () => {
     setUploadedFiles(prev => [...prev, ...validFiles]);
   };
 
+  // Photos are prepared for OCR before they join the upload
+  const handleCameraCapture = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const photo = event.target.files?.[0];
+    event.target.value = '';
+    if (photo) {
+      setInputMethod('upload');
+      setCapturedPhoto(photo);
+    }
+  };
+
+  const handleConfirmPhoto = (files: File[]) => {
+    setUploadedFiles(prev => [...prev, ...files]);
+    setCapturedPhoto(null);
+  };
+
   const removeFile = (index: number) => {
     setUploadedFiles(prev => prev.filter((_, i) => i !== index));
   };
 
-  const handleProcessProblems = async () => {
-    if (inputMethod === 'upload' && uploadedFiles.length === 0) return;
+  // Stop any running request when leaving the page
+  React.useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  React.useEffect(() => {
+    loadSavedSessions();
+  }, []);
+
+  // Saves tutor threads and practice progress once they are in the results
+  React.useEffect(() => {
+    if (!problemsChangedRef.current || !currentSessionId) return;
+    problemsChangedRef.current = false;
+    databaseService.updateSolverSessionProblems(currentSessionId, mathProblems).catch(error => {
+      console.error('Error saving problem progress:', error);
+    });
+  }, [mathProblems, currentSessionId]);
+
+  React.useEffect(() => {
+    if (!showHistory) return;
+    let cancelled = false;
+    databaseService.searchSolverSessions(historyQuery, historyTopic || undefined).then(results => {
+      if (!cancelled) setHistoryResults(results);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showHistory, historyQuery, historyTopic, savedSessions]);
+
+  const loadSavedSessions = async () => {
+    try {
+      setSavedSessions(await databaseService.searchSolverSessions());
+    } catch (error) {
+      console.error('Error loading solver history:', error);
+    }
+  };
+
+  const historyTopics = Array.from(new Set(savedSessions.flatMap(session => session.topics))).sort();
+
+  /**
+   * Saves the solved problems so they can be reopened from the history.
+   * Regenerating replaces the session that is open.
+   */
+  const saveSession = async (problems: MathProblem[], regenerate: boolean) => {
+    const id = regenerate && currentSessionId ? currentSessionId : `solver_${Date.now()}`;
+    try {
+      const sources: SolverSource[] = inputMethod === 'upload'
+        ? await Promise.all(uploadedFiles.map(async file => ({ name: file.name, type: file.type, thumbnail: await createThumbnail(file) })))
+        : [];
+      await databaseService.saveSolverSession({
+        id,
+        title: inputMethod === 'upload' ? uploadedFiles.map(file => file.name).join(', ') : textInput.trim().slice(0, 120),
+        subject: selectedSubject,
+        language,
+        sources,
+        sourceText: inputMethod === 'text' ? textInput : undefined,
+        problems,
+        createdAt: new Date()
+      });
+      setCurrentSessionId(id);
+      loadSavedSessions();
+    } catch (error) {
+      console.error('Error saving solver session:', error);
+    }
+  };
+
+  const handleOpenSession = async (sessionId: string) => {
+    try {
+      const session = await databaseService.getSolverSession(sessionId);
+      if (!session) return;
+      setSelectedSubject(session.subject);
+      setMathProblems(session.problems.map(problem => ({ ...problem, verification: verifyProblem(problem) })));
+      setUploadedFiles([]);
+      setTranscript([]);
+      setInputMethod(session.sourceText !== undefined ? 'text' : 'upload');
+      setTextInput(session.sourceText || '');
+      setCurrentSessionId(session.id);
+      setSelectedProblem(null);
+      setShowStepByStep(false);
+      setCurrentStepIndex(0);
+      setProcessingError(null);
+      setCurrentStep('results');
+      setShowHistory(false);
+    } catch (error) {
+      console.error('Error opening solver session:', error);
+    }
+  };
+
+  const handleDeleteSession = async (sessionId: string) => {
+    if (confirm(t('solver.history.delete'))) {
+      try {
+        await databaseService.deleteSolverSession(sessionId);
+        if (sessionId === currentSessionId) setCurrentSessionId(null);
+        loadSavedSessions();
+      } catch (error) {
+        console.error('Error deleting solver session:', error);
+      }
+    }
+  };
+
+  const handleCancelProcessing = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const stopProcessing = () => {
+    setIsProcessing(false);
+    setProcessingStartTime(null);
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  /**
+   * Reads the uploaded files into a transcript that is reviewed before
+   * solving, so misread text never reaches the solver unchecked.
+   */
+  const handleReadFiles = async (cache?: CacheOptions) => {
+    if (uploadedFiles.length === 0) return;
+
+    setProcessingError(null);
+    setIsProcessing(true);
+    setIsReading(true);
+    setProcessingStartTime(new Date());
+    setProcessingElapsedTime(0);
+    setStreamedProblems([]);
+    setCurrentStep('processing');
+    abortControllerRef.current = new AbortController();
+    const signal = abortControllerRef.current.signal;
+
+    try {
+      const read = await solverService.extractTranscript(uploadedFiles, language, signal, cache);
+      if (read.length === 0) {
+        setProcessingError('No text could be read from the uploaded files. Please make sure your images contain clear problems.');
+      } else {
+        setTranscript(read);
+        setCurrentStep('review');
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        setCurrentStep('upload');
+        return;
+      }
+      console.error('Error reading uploaded files:', error);
+      setProcessingError(
+        getUserErrorMessage(error, 'An unexpected error occurred while reading your files. Please try again.')
+      );
+    } finally {
+      setIsReading(false);
+      stopProcessing();
+    }
+  };
+
+  const handleProcessProblems = async (cache?: CacheOptions) => {
+    if (inputMethod === 'upload' && !transcript.some(item => item.selected && item.text.trim())) return;
     if (inputMethod === 'text' && !textInput.trim()) return;
     
     setProcessingError(null);
     setIsProcessing(true);
     setProcessingStartTime(new Date());
     setProcessingElapsedTime(0);
+    setStreamedProblems([]);
     setCurrentStep('processing');
+    abortControllerRef.current = new AbortController();
+    const signal = abortControllerRef.current.signal;
+    const solvedSoFar: MathProblem[] = [];
     
     try {
       console.log(`Starting to process files for ${selectedSubject} with Gemma AI...`);
       
+      // Show each problem as soon as its solution has streamed in
+      const handleStreamedProblem = (problem: MathProblem) => {
+        solvedSoFar.push(problem);
+        setStreamedProblems([...solvedSoFar]);
+      };
+
       let problems;
       if (inputMethod === 'upload') {
-        // Process uploaded files
-        problems = await solverService.analyzeProblems(uploadedFiles, language);
+        // Solve the reviewed transcript of the uploaded files
+        problems = await solverService.solveTranscript(transcript, language, selectedSubject, handleStreamedProblem, signal, cache);
       } else {
         // Process text input
-        problems = await solverService.analyzeProblemsText(textInput, language);
+        problems = await solverService.analyzeProblemsText(textInput, language, selectedSubject, handleStreamedProblem, signal, cache);
       }
       console.log('Received problems from Gemma:', problems);
       
@@ -138,24 +353,41 @@ const Solver = () => {
       } else {
         setMathProblems(problems);
         setCurrentStep('results');
+        saveSession(problems, !!cache?.regenerate);
       }
     } catch (error) {
+      if (signal.aborted) {
+        // Keep whatever was solved before the user cancelled
+        setMathProblems(solvedSoFar);
+        setCurrentStep(solvedSoFar.length > 0 ? 'results' : inputMethod === 'upload' ? 'review' : 'upload');
+        if (solvedSoFar.length > 0) saveSession(solvedSoFar, !!cache?.regenerate);
+        return;
+      }
       console.error('Error processing math problems:', error);
       setProcessingError(
-        error instanceof Error 
-          ? error.message 
-          : 'An unexpected error occurred while processing your files. Please try again.'
+        getUserErrorMessage(error, 'An unexpected error occurred while processing your files. Please try again.')
       );
     } finally {
-      setIsProcessing(false);
-      setProcessingStartTime(null);
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
+      stopProcessing();
     }
   };
 
+  const handleToggleHintMode = () => {
+    localStorage.setItem('solverHintMode', String(!hintMode));
+    setHintMode(!hintMode);
+  };
+
+  // In hint-first mode the solution stays hidden until the student reveals it
+  const isPracticing = (problem: MathProblem) => hintMode && !problem.practice?.revealed;
+
+  // Keeps tutor threads and practice progress in the results and in the saved session.
+  // The change is applied to the latest problem, since a tutor answer can arrive long after it was asked
+  const handleProblemChange = (problemId: string, update: (problem: MathProblem) => MathProblem) => {
+    problemsChangedRef.current = true;
+    setMathProblems(prev => prev.map(problem => (problem.id === problemId ? update(problem) : problem)));
+    setSelectedProblem(prev => (prev?.id === problemId ? update(prev) : prev));
+  };
+
   const handleSelectProblem = (problem: MathProblem) => {
     setSelectedProblem(problem);
     setCurrentStepIndex(0);
@@ -174,13 +406,18 @@ const Solver = () => {
     }
   };
 
+  const formatQuantity = (quantity: PhysicsQuantity) =>
+    [quantity.symbol, quantity.value !== undefined && `= ${quantity.value}`, quantity.unit].filter(Boolean).join(' ');
+
   const handleCopyStep = (equation: string) => {
-    navigator.clipboard.writeText(equation);
+    navigator.clipboard.writeText(toLatexSource(equation));
     // You could add a toast notification here
   };
 
   const resetUpload = () => {
     setUploadedFiles([]);
+    setCapturedPhoto(null);
+    setTranscript([]);
     setTextInput('');
     setMathProblems([]);
     setSelectedProblem(null);
@@ -208,6 +445,20 @@ const Solver = () => {
     }
   };
 
+  const renderVerificationBadge = (verification?: StepVerification) => {
+    if (!verification || verification.status === 'skipped') return null;
+    const { icon: Icon, label, color } = VERIFICATION_BADGES[verification.status];
+    return (
+      <span title={verification.reason} className={`flex items-center gap-1 text-xs px-2 py-1 rounded-full font-medium ${color}`}>
+        <Icon className="w-3 h-3" />
+        {label}
+      </span>
+    );
+  };
+
+  const countFlaggedSteps = (problem: MathProblem) =>
+    problem.verification?.steps.filter(step => step.status === 'failed').length || 0;
+
   return (
     <div className="min-h-screen bg-[#0d0d0d]">
       {/* Header */}
@@ -221,8 +472,129 @@ const Solver = () => {
           </div>
           <h2 className="text-4xl md:text-5xl font-bold text-[#ffffff] mb-4">{t('solver.hero.title')}</h2>
           <p className="text-xl text-stone-300 max-w-3xl mx-auto leading-relaxed">{t('solver.hero.description')}</p>
+
+          <div className="mt-6">
+            <Button
+              onClick={() => setShowHistory(!showHistory)}
+              variant="outline"
+              className="border-[#ffffff]/40 text-[#ffffff] hover:bg-[#ffffff]/20 rounded-2xl"
+            >
+              <History className="w-4 h-4 mr-2" />
+              {showHistory ? t('hide') : t('solver.history.show')} ({savedSessions.length})
+            </Button>
+          </div>
         </div>
 
+        {/* Solution History */}
+        {showHistory && (
+          <div className="max-w-4xl mx-auto mb-8">
+            <div className="bg-stone-900/50 rounded-2xl p-8 shadow-lg border border-[#ffffff]/20 backdrop-blur-sm">
+              <h3 className="text-xl font-bold text-[#ffffff] mb-6">{t('solver.history.title')}</h3>
+
+              <div className="relative mb-4">
+                <Search className="w-4 h-4 text-stone-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="search"
+                  value={historyQuery}
+                  onChange={(e) => setHistoryQuery(e.target.value)}
+                  placeholder={t('solver.history.search')}
+                  className="w-full pl-9 pr-4 py-2 bg-stone-800/50 border border-[#ffffff]/20 rounded-xl text-stone-200 placeholder-stone-500 focus:outline-none focus:border-[#ffffff]/50"
+                />
+              </div>
+
+              {historyTopics.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-6">
+                  <button
+                    onClick={() => setHistoryTopic(null)}
+                    className={`text-xs px-3 py-1 rounded-full border transition-all ${
+                      historyTopic === null ? 'bg-[#ffffff] text-[#0d0d0d] border-transparent' : 'border-[#ffffff]/30 text-stone-300 hover:bg-[#ffffff]/10'
+                    }`}
+                  >
+                    {t('solver.history.all')}
+                  </button>
+                  {historyTopics.map(topic => (
+                    <button
+                      key={topic}
+                      onClick={() => setHistoryTopic(topic === historyTopic ? null : topic)}
+                      className={`flex items-center gap-1 text-xs px-3 py-1 rounded-full border transition-all ${
+                        historyTopic === topic ? 'bg-[#ffffff] text-[#0d0d0d] border-transparent' : 'border-[#ffffff]/30 text-stone-300 hover:bg-[#ffffff]/10'
+                      }`}
+                    >
+                      <Tag className="w-3 h-3" />
+                      {topic}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {historyResults.length === 0 ? (
+                <p className="text-stone-400 text-center py-8">
+                  {savedSessions.length === 0 ? t('solver.history.empty') : t('solver.history.nomatch')}
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {historyResults.map(session => (
+                    <div
+                      key={session.id}
+                      className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20 hover:border-[#ffffff]/40 transition-all duration-200"
+                    >
+                      <div className="flex items-start gap-4">
+                        {session.sources.length > 0 && (
+                          <div className="flex gap-1 flex-shrink-0">
+                            {session.sources.slice(0, 3).map((source, index) => (
+                              source.thumbnail ? (
+                                <img key={index} src={source.thumbnail} alt={source.name} title={source.name} className="w-12 h-12 rounded-lg object-cover border border-[#ffffff]/20" />
+                              ) : (
+                                <div key={index} title={source.name} className="w-12 h-12 rounded-lg bg-stone-700/50 flex items-center justify-center border border-[#ffffff]/20">
+                                  <FileText className="w-5 h-5 text-stone-400" />
+                                </div>
+                              )
+                            ))}
+                          </div>
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <h4 className="text-[#ffffff] font-semibold mb-1 truncate">{session.title}</h4>
+                          <div className="flex flex-wrap items-center gap-3 text-xs text-stone-400 mb-2">
+                            <span>{subjects.find(subject => subject.name === session.subject)?.label || session.subject}</span>
+                            <span>{JSON.parse(session.problemsData).length} {t('solver.history.problems')}</span>
+                            <span>{new Date(session.createdAt).toLocaleDateString()}</span>
+                          </div>
+                          <div className="flex flex-wrap gap-1">
+                            {session.topics.map(topic => (
+                              <button
+                                key={topic}
+                                onClick={() => setHistoryTopic(topic)}
+                                className="text-xs px-2 py-0.5 rounded-full bg-[#ffffff]/10 text-stone-300 hover:bg-[#ffffff]/20"
+                              >
+                                {topic}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                        <div className="flex gap-2 flex-shrink-0">
+                          <Button
+                            onClick={() => handleOpenSession(session.id)}
+                            className="bg-[#ffffff] text-[#0d0d0d] hover:bg-[#fde6c4] rounded-xl"
+                          >
+                            {t('solver.history.open')}
+                          </Button>
+                          <Button
+                            onClick={() => handleDeleteSession(session.id)}
+                            variant="outline"
+                            className="border-red-400/40 text-red-400 hover:bg-red-400/20 rounded-xl"
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Main Content Area */}
         <div className="max-w-4xl mx-auto space-y-8">
           
@@ -323,6 +695,23 @@ const Solver = () => {
                       {t('solver.upload.support')}
                     </p>
                   </div>
+
+                  {capturedPhoto ? (
+                    <CameraCapture
+                      photo={capturedPhoto}
+                      onConfirm={handleConfirmPhoto}
+                      onCancel={() => setCapturedPhoto(null)}
+                    />
+                  ) : (
+                    <Button
+                      onClick={() => cameraInputRef.current?.click()}
+                      variant="outline"
+                      className="w-full mb-6 border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+                    >
+                      <Camera className="w-4 h-4 mr-2" />
+                      Take a Photo
+                    </Button>
+                  )}
                   
                   <input
                     ref={fileInputRef}
@@ -387,13 +776,13 @@ Example:
                 type="file"
                 accept="image/*"
                 capture="environment"
-                onChange={handleFileUpload}
+                onChange={handleCameraCapture}
                 className="hidden"
               />
 
               {/* Process Button */}
               <Button
-                onClick={handleProcessProblems}
+                onClick={() => (inputMethod === 'upload' ? handleReadFiles() : handleProcessProblems())}
                 disabled={(inputMethod === 'upload' && uploadedFiles.length === 0) || (inputMethod === 'text' && !textInput.trim()) || isProcessing}
                 className="w-full bg-[#ffffff] text-[#0d0d0d] hover:bg-[#fde6c4] py-3 text-lg font-medium shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50"
               >
@@ -459,19 +848,66 @@ Example:
                   </div>
                   <h3 className="text-xl font-bold text-[#ffffff] mb-2">Analyzing with AI</h3>
                   <p className="text-stone-300 mb-4">
-                    {inputMethod === 'upload' 
-                      ? 'Reading your uploaded problems and generating step-by-step solutions...'
-                      : 'Analyzing your typed problems and generating step-by-step solutions...'
+                    {isReading
+                      ? 'Reading your uploaded files so you can check the text before solving...'
+                      : inputMethod === 'upload'
+                        ? 'Solving your reviewed problems step by step...'
+                        : 'Analyzing your typed problems and generating step-by-step solutions...'
                     }
                   </p>
                   
                   <div className="flex items-center justify-center gap-2 text-sm text-stone-400">
                     <Brain className="w-4 h-4" />
+                    {streamedProblems.length > 0 && (
+                      <span>{streamedProblems.length} problem{streamedProblems.length !== 1 ? 's' : ''} solved so far</span>
+                    )}
                   </div>
+
+                  <Button
+                    onClick={handleCancelProcessing}
+                    variant="outline"
+                    className="mt-6 border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
                 </div>
+
+                {streamedProblems.length > 0 && (
+                  <div className="grid gap-3 mt-6">
+                    {streamedProblems.map((problem, index) => (
+                      <div
+                        key={problem.id}
+                        className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20 flex items-start gap-3"
+                      >
+                        <div className="w-8 h-8 bg-gradient-to-br from-[#ffffff] to-[#fde6c4] rounded-lg flex items-center justify-center flex-shrink-0">
+                          <span className="text-[#0d0d0d] font-bold text-sm">{index + 1}</span>
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-[#ffffff] font-medium mb-1"><MathText text={problem.question} /></p>
+                          <div className="flex items-center gap-2 text-xs text-stone-400">
+                            <CheckCircle className="w-3 h-3 text-green-400" />
+                            <MathText text={problem.solution} />
+                            <span className="ml-auto">{problem.steps?.length || 0} steps</span>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
 
+            {currentStep === 'review' && (
+              <TranscriptReview
+                transcript={transcript}
+                onChange={setTranscript}
+                onSolve={() => handleProcessProblems()}
+                onReread={() => handleReadFiles({ regenerate: true })}
+                onBack={() => setCurrentStep('upload')}
+              />
+            )}
+
             {currentStep === 'results' && !showStepByStep && (
               <div className="bg-stone-900/50 rounded-2xl p-8 shadow-lg border border-[#ffffff]/20 backdrop-blur-sm">
                 <div className="text-center mb-8">
@@ -482,7 +918,41 @@ Example:
                   <h3 className="text-2xl font-bold text-[#ffffff] mb-2">
                     Found {mathProblems.length} Problem{mathProblems.length !== 1 ? 's' : ''}
                   </h3>
-                  <p className="text-stone-300">Click to see step-by-step solutions</p>
+                  <p className="text-stone-300">
+                    {hintMode ? 'Click a problem to work through it with hints' : 'Click to see step-by-step solutions'}
+                  </p>
+                  <div className="flex flex-wrap justify-center gap-3 mt-4">
+                    <Button
+                      onClick={() => handleProcessProblems({ regenerate: true })}
+                      // A reopened upload has no transcript to solve again
+                      disabled={inputMethod === 'upload' && transcript.length === 0}
+                      variant="outline"
+                      className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+                    >
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      Regenerate Solutions
+                    </Button>
+                    {inputMethod === 'upload' && transcript.length > 0 && (
+                      <Button
+                        onClick={() => setCurrentStep('review')}
+                        variant="outline"
+                        className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+                      >
+                        <FileText className="w-4 h-4 mr-2" />
+                        Edit Transcript
+                      </Button>
+                    )}
+                    <Button
+                      onClick={handleToggleHintMode}
+                      variant="outline"
+                      className={hintMode
+                        ? 'border-[#ffffff] bg-[#ffffff] text-[#0d0d0d] hover:bg-[#fde6c4]'
+                        : 'border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10'}
+                    >
+                      <Lightbulb className="w-4 h-4 mr-2" />
+                      Hint-First Mode {hintMode ? 'On' : 'Off'}
+                    </Button>
+                  </div>
                 </div>
 
                 <div className="grid gap-6">
@@ -500,7 +970,7 @@ Example:
                         <div className="flex-1">
                            {/* AFTER */}
                         <h4 className="text-xl font-semibold text-[#ffffff] mb-3">
-                          {problem.question}
+                          <MathText text={problem.question} />
                         </h4>
 
                           <div className="flex items-center gap-2 mb-2">
@@ -508,19 +978,40 @@ Example:
                               {problem.difficulty}
                             </span>
                             <span className="text-xs text-stone-400">{problem.topic}</span>
+                            {problem.page !== undefined && (
+                              <span className="flex items-center gap-1 text-xs text-stone-400">
+                                <FileText className="w-3 h-3" />
+                                Page {problem.page}
+                              </span>
+                            )}
+                            {countFlaggedSteps(problem) > 0 && (
+                              <span className="flex items-center gap-1 text-xs px-2 py-1 rounded-full font-medium text-red-400 bg-red-400/20">
+                                <AlertCircle className="w-3 h-3" />
+                                {countFlaggedSteps(problem)} step{countFlaggedSteps(problem) === 1 ? '' : 's'} flagged
+                              </span>
+                            )}
                           </div>
                           
-                          <div className="bg-[#ffffff]/10 border border-[#ffffff]/30 rounded-lg p-4 mb-3">
-                            <div className="flex items-center gap-2 mb-1">
-                              <Target className="w-3 h-3 text-[#ffffff]" />
-                              <span className="text-xs font-medium text-[#ffffff]">Solution:</span>
+                          {!isPracticing(problem) && (
+                            <div className="bg-[#ffffff]/10 border border-[#ffffff]/30 rounded-lg p-4 mb-3">
+                              <div className="flex items-center gap-2 mb-1">
+                                <Target className="w-3 h-3 text-[#ffffff]" />
+                                <span className="text-xs font-medium text-[#ffffff]">Solution:</span>
+                                {renderVerificationBadge(problem.verification?.answer)}
+                              </div>
+                              <p className="text-lg text-stone-200"><MathText text={problem.solution} formula /></p>
                             </div>
-                            <p className="text-lg font-mono text-stone-200">{problem.solution}</p>
-                          </div>
+                          )}
                           
                           <div className="mt-2 flex items-center gap-2 text-xs text-stone-400">
                             <Lightbulb className="w-3 h-3" />
                             <span>{problem.steps.length} steps</span>
+                            {problem.practice && (
+                              <span>
+                                · {problem.practice.hintsUsed} hint{problem.practice.hintsUsed === 1 ? '' : 's'} used
+                                {' '}· {getPractice(problem).steps.filter(step => step.solved).length} solved
+                              </span>
+                            )}
                             <ChevronRight className="w-3 h-3 ml-auto" />
                           </div>
                         </div>
@@ -547,13 +1038,46 @@ Example:
               </Button>
               
               <div className="bg-stone-900/50 rounded-2xl p-6 shadow-lg border border-[#ffffff]/20 backdrop-blur-sm">
-                <h3 className="text-2xl font-bold text-[#ffffff] mb-2">{selectedProblem.question}</h3>
+                <h3 className="text-2xl font-bold text-[#ffffff] mb-2"><MathText text={selectedProblem.question} /></h3>
                 <div className="flex items-center gap-3 mb-4">
                   <span className={`text-xs px-3 py-1 rounded-full font-medium ${getDifficultyColor(selectedProblem.difficulty)}`}>
                     {selectedProblem.difficulty}
                   </span>
                   <span className="text-sm text-stone-400">{selectedProblem.topic}</span>
+                  {selectedProblem.page !== undefined && (
+                    <span className="flex items-center gap-1 text-sm text-stone-400">
+                      <FileText className="w-4 h-4" />
+                      Page {selectedProblem.page}
+                    </span>
+                  )}
                 </div>
+
+                {selectedProblem.subject === 'physics' && (selectedProblem.given?.length || selectedProblem.find?.length) ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                    <div className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20">
+                      <span className="text-sm font-medium text-[#ffffff]">Given:</span>
+                      <ul className="mt-2 space-y-1">
+                        {(selectedProblem.given || []).map((quantity, index) => (
+                          <li key={index} className="text-sm text-stone-200">
+                            <span className="font-mono">{formatQuantity(quantity)}</span>
+                            {quantity.description && <span className="text-stone-400"> - {quantity.description}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                    <div className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20">
+                      <span className="text-sm font-medium text-[#ffffff]">Find:</span>
+                      <ul className="mt-2 space-y-1">
+                        {(selectedProblem.find || []).map((quantity, index) => (
+                          <li key={index} className="text-sm text-stone-200">
+                            <span className="font-mono">{formatQuantity(quantity)}</span>
+                            {quantity.description && <span className="text-stone-400"> - {quantity.description}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                ) : null}
                 
                 <div className="bg-[#ffffff]/10 border border-[#ffffff]/30 rounded-xl p-4">
                   <div className="flex items-center justify-between">
@@ -561,8 +1085,21 @@ Example:
                       <div className="flex items-center gap-2 mb-2">
                         <Target className="w-4 h-4 text-[#ffffff]" />
                         <span className="text-sm font-medium text-[#ffffff]">Final Answer:</span>
+                        {!isPracticing(selectedProblem) && renderVerificationBadge(selectedProblem.verification?.answer)}
                       </div>
-                      <p className="text-xl font-mono text-stone-200">{selectedProblem.solution}</p>
+                      {isPracticing(selectedProblem) ? (
+                        <p className="flex items-center gap-2 text-stone-400">
+                          <EyeOff className="w-4 h-4" />
+                          Hidden until you reveal the solution
+                        </p>
+                      ) : (
+                        <p className="text-xl text-stone-200"><MathText text={selectedProblem.solution} formula /></p>
+                      )}
+                      {selectedProblem.practice && (
+                        <p className="text-xs text-stone-400 mt-2">
+                          {selectedProblem.practice.hintsUsed} hint{selectedProblem.practice.hintsUsed === 1 ? '' : 's'} used
+                        </p>
+                      )}
                     </div>
                     <div className="text-right">
                       <p className="text-sm text-stone-400">Step {currentStepIndex + 1} of {selectedProblem.steps.length}</p>
@@ -585,38 +1122,125 @@ Example:
                   <span className="text-[#0d0d0d] font-bold">{selectedProblem.steps[currentStepIndex].step}</span>
                 </div>
                 <h4 className="text-xl font-semibold text-[#ffffff]">
-                  {selectedProblem.steps[currentStepIndex].description}
+                  {isPracticing(selectedProblem)
+                    ? 'Work out this step'
+                    : <MathText text={selectedProblem.steps[currentStepIndex].description} />}
                 </h4>
+                {!isPracticing(selectedProblem) && (
+                  <div className="ml-auto">
+                    {renderVerificationBadge(selectedProblem.verification?.steps[currentStepIndex])}
+                  </div>
+                )}
               </div>
 
-              <div className="space-y-4">
-                <div className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20">
-                  <div className="flex items-center justify-between mb-2">
-                    <span className="text-sm font-medium text-[#ffffff]">Equation:</span>
-                    <Button
-                      onClick={() => handleCopyStep(selectedProblem.steps[currentStepIndex].equation)}
-                      variant="ghost"
-                      size="sm"
-                      className="text-stone-400 hover:text-[#ffffff]"
-                    >
-                      <Copy className="w-4 h-4" />
-                    </Button>
-                  </div>
-                  <p className="text-lg font-mono text-stone-200 bg-[#0d0d0d]/50 p-3 rounded-lg">
-                    {selectedProblem.steps[currentStepIndex].equation}
-                  </p>
-                </div>
+              {isPracticing(selectedProblem) ? (
+                <HintPractice
+                  problem={selectedProblem}
+                  stepIndex={currentStepIndex}
+                  onProblemChange={update => handleProblemChange(selectedProblem.id, update)}
+                />
+              ) : (
+                <>
+                  {selectedProblem.verification?.steps[currentStepIndex]?.status === 'failed' && (
+                    <div className="flex items-start gap-2 bg-red-400/10 border border-red-400/30 rounded-xl p-3 mb-4">
+                      <AlertCircle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+                      <p className="text-sm text-red-300">
+                        {selectedProblem.verification.steps[currentStepIndex].reason} Double-check this step before relying on it.
+                      </p>
+                    </div>
+                  )}
 
-                <div className="bg-[#ffffff]/10 border border-[#ffffff]/30 rounded-xl p-4">
-                  <div className="flex items-center gap-2 mb-2">
-                    <Lightbulb className="w-4 h-4 text-[#ffffff]" />
-                    <span className="text-sm font-medium text-[#ffffff]">Explanation:</span>
+                  <div className="space-y-4">
+                    {selectedProblem.steps[currentStepIndex].reaction && (
+                      <div className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20">
+                        <div className="flex items-center justify-between mb-2">
+                          <div className="flex items-center gap-2">
+                            <FlaskConical className="w-4 h-4 text-[#ffffff]" />
+                            <span className="text-sm font-medium text-[#ffffff]">Balanced Reaction:</span>
+                          </div>
+                          <Button
+                            onClick={() => handleCopyStep(selectedProblem.steps[currentStepIndex].reaction || '')}
+                            variant="ghost"
+                            size="sm"
+                            className="text-stone-400 hover:text-[#ffffff]"
+                          >
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                        </div>
+                        <p className="text-lg font-mono text-stone-200 bg-[#0d0d0d]/50 p-3 rounded-lg">
+                          {selectedProblem.steps[currentStepIndex].reaction}
+                        </p>
+                      </div>
+                    )}
+
+                    {/* Biology and chemistry steps often have nothing to calculate */}
+                    {selectedProblem.steps[currentStepIndex].equation.trim() && (
+                      <div className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20">
+                        <div className="flex items-center justify-between mb-2">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium text-[#ffffff]">
+                              {selectedProblem.subject === 'chemistry' || selectedProblem.subject === 'biology' ? 'Calculation:' : 'Equation:'}
+                            </span>
+                            {selectedProblem.steps[currentStepIndex].unit && (
+                              <span className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-[#ffffff]/10 text-stone-300">
+                                <Ruler className="w-3 h-3" />
+                                {selectedProblem.steps[currentStepIndex].unit}
+                              </span>
+                            )}
+                          </div>
+                          <Button
+                            onClick={() => handleCopyStep(selectedProblem.steps[currentStepIndex].equation)}
+                            variant="ghost"
+                            size="sm"
+                            className="text-stone-400 hover:text-[#ffffff]"
+                          >
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                        </div>
+                        <p className="text-lg text-stone-200 bg-[#0d0d0d]/50 p-3 rounded-lg overflow-x-auto">
+                          <MathText text={selectedProblem.steps[currentStepIndex].equation} formula />
+                        </p>
+                      </div>
+                    )}
+
+                    {selectedProblem.steps[currentStepIndex].diagram && (
+                      <div className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20">
+                        <span className="text-sm font-medium text-[#ffffff]">Diagram:</span>
+                        <pre className="mt-2 text-sm font-mono text-stone-200 bg-[#0d0d0d]/50 p-3 rounded-lg overflow-x-auto whitespace-pre">
+                          {selectedProblem.steps[currentStepIndex].diagram}
+                        </pre>
+                      </div>
+                    )}
+
+                    <div className="bg-[#ffffff]/10 border border-[#ffffff]/30 rounded-xl p-4">
+                      <div className="flex items-center gap-2 mb-2">
+                        <Lightbulb className="w-4 h-4 text-[#ffffff]" />
+                        <span className="text-sm font-medium text-[#ffffff]">Explanation:</span>
+                      </div>
+                      <p className="text-stone-200 leading-relaxed">
+                        <MathText text={selectedProblem.steps[currentStepIndex].explanation} />
+                      </p>
+                    </div>
+
+                    {selectedProblem.steps[currentStepIndex].terms?.length ? (
+                      <div className="bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20">
+                        <div className="flex items-center gap-2 mb-2">
+                          <Tag className="w-4 h-4 text-[#ffffff]" />
+                          <span className="text-sm font-medium text-[#ffffff]">Key Terms:</span>
+                        </div>
+                        <dl className="space-y-2">
+                          {selectedProblem.steps[currentStepIndex].terms?.map((term, index) => (
+                            <div key={index}>
+                              <dt className="text-stone-200 font-medium">{term.term}</dt>
+                              <dd className="text-sm text-stone-400"><MathText text={term.definition} /></dd>
+                            </div>
+                          ))}
+                        </dl>
+                      </div>
+                    ) : null}
                   </div>
-                  <p className="text-stone-200 leading-relaxed">
-                    {selectedProblem.steps[currentStepIndex].explanation}
-                  </p>
-                </div>
-              </div>
+                </>
+              )}
 
               {/* Navigation */}
               <div className="flex justify-between items-center mt-6 pt-6 border-t border-[#ffffff]/20">
@@ -646,6 +1270,24 @@ Example:
                 </Button>
               </div>
             </div>
+
+            {/* The tutor knows the full solution, so it waits until the student has seen it */}
+            {!isPracticing(selectedProblem) && (
+              <div className="mt-6">
+                <TutorChat
+                  problem={selectedProblem}
+                  stepIndex={currentStepIndex}
+                  language={language}
+                  onProblemChange={update => handleProblemChange(selectedProblem.id, update)}
+                />
+              </div>
+            )}
+
+            {selectedProblem.topic !== 'Error' && (
+              <div className="mt-6">
+                <PracticeVariants key={selectedProblem.id} problem={selectedProblem} language={language} />
+              </div>
+            )}
           </div>
         )}
 
@@ -0,0 +1,126 @@
+import { AlertCircle, ArrowLeft, FileText, RefreshCw, Zap } from 'lucide-react';
+import { Button } from './ui/button';
+import MathText from './MathText';
+import type { TranscriptProblem } from '../services/SolverService';
+
+interface TranscriptReviewProps {
+  transcript: TranscriptProblem[];
+  onChange: (transcript: TranscriptProblem[]) => void;
+  onSolve: () => void;
+  onReread: () => void; // reads the files again, ignoring earlier answers
+  onBack: () => void;
+}
+
+const sourceLabel = (item: TranscriptProblem) =>
+  item.page !== undefined ? `${item.fileName} · Page ${item.page}` : item.fileName;
+
+/**
+ * The text read from the uploaded files, shown before anything is solved so
+ * the student can fix misread numbers or symbols and leave problems out.
+ */
+const TranscriptReview = ({ transcript, onChange, onSolve, onReread, onBack }: TranscriptReviewProps) => {
+  // Problems stay in reading order, grouped under the file or page they came from
+  const sources: { label: string; items: TranscriptProblem[] }[] = [];
+  transcript.forEach(item => {
+    const label = sourceLabel(item);
+    const last = sources[sources.length - 1];
+    if (last && last.label === label) last.items.push(item);
+    else sources.push({ label, items: [item] });
+  });
+
+  const readCount = transcript.filter(item => !item.error).length;
+  const solvable = transcript.filter(item => item.selected && !item.error && item.text.trim()).length;
+
+  const updateItem = (id: string, changes: Partial<TranscriptProblem>) => {
+    onChange(transcript.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  return (
+    <div className="bg-stone-900/50 rounded-2xl p-8 shadow-lg border border-[#ffffff]/20 backdrop-blur-sm">
+      <div className="text-center mb-8">
+        <div className="inline-flex items-center gap-2 bg-[#ffffff]/10 text-[#ffffff] px-4 py-2 rounded-full text-sm font-medium mb-4 border border-[#ffffff]/30">
+          <FileText className="w-4 h-4" />
+          Review Transcript
+        </div>
+        <h3 className="text-2xl font-bold text-[#ffffff] mb-2">
+          Read {readCount} Problem{readCount !== 1 ? 's' : ''}
+        </h3>
+        <p className="text-stone-300">
+          Check the text against your files, correct anything that was misread and untick problems you don't want solved.
+        </p>
+      </div>
+
+      <div className="grid gap-6 mb-6">
+        {sources.map(source => (
+          <div key={source.items[0].id}>
+            <h4 className="text-sm font-medium text-stone-400 mb-3">{source.label}</h4>
+            <div className="grid gap-3">
+              {source.items.map(item => item.error ? (
+                <div key={item.id} className="bg-red-900/30 rounded-xl p-4 border border-red-500/20 flex items-start gap-3">
+                  <AlertCircle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm text-red-200">{item.error}</p>
+                </div>
+              ) : (
+                <div
+                  key={item.id}
+                  className={`bg-stone-800/50 rounded-xl p-4 border border-[#ffffff]/20 transition-opacity ${item.selected ? '' : 'opacity-50'}`}
+                >
+                  <label className="flex items-center gap-2 text-sm text-[#ffffff] mb-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={item.selected}
+                      onChange={(e) => updateItem(item.id, { selected: e.target.checked })}
+                      className="accent-[#ffffff]"
+                    />
+                    Solve this problem
+                  </label>
+                  <textarea
+                    value={item.text}
+                    onChange={(e) => updateItem(item.id, { text: e.target.value })}
+                    disabled={!item.selected}
+                    rows={Math.min(8, Math.max(2, item.text.split('\n').length))}
+                    className="w-full bg-stone-900/60 border border-[#ffffff]/20 text-[#ffffff] rounded-lg p-3 text-sm font-mono focus:outline-none focus:border-[#ffffff]/50 resize-y"
+                  />
+                  {item.text.trim() && (
+                    <div className="mt-3 text-sm text-stone-200">
+                      <MathText text={item.text} />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-3 justify-end">
+        <Button
+          onClick={onBack}
+          variant="outline"
+          className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+        <Button
+          onClick={onReread}
+          variant="outline"
+          className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+        >
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Read Again
+        </Button>
+        <Button
+          onClick={onSolve}
+          disabled={solvable === 0}
+          className="bg-[#ffffff] text-[#0d0d0d] hover:bg-[#fde6c4] disabled:opacity-50"
+        >
+          <Zap className="w-4 h-4 mr-2" />
+          Solve {solvable} Selected
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptReview;
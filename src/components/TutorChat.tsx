@@ -0,0 +1,175 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageCircle, Send, Square, User, GraduationCap } from 'lucide-react';
+import { Button } from './ui/button';
+import MathText from './MathText';
+import type { MathProblem, TutorMessage } from '../services/SolverService';
+import { appendToThread, askTutor, getThread } from '../services/tutorService';
+import { getUserErrorMessage } from '../services/modelErrors';
+
+interface TutorChatProps {
+  problem: MathProblem;
+  stepIndex: number; // the step on screen
+  language: string;
+  onProblemChange: (update: (problem: MathProblem) => MathProblem) => void; // called after each answer to add it to the thread
+}
+
+const SUGGESTIONS = ['Why do we do this step?', 'Can you explain it more simply?', 'How can I check this result?'];
+
+/**
+ * Follow-up questions about the step on screen or the whole problem. Each
+ * thread lives on the problem, so it is saved with the solver session.
+ */
+const TutorChat = ({ problem, stepIndex, language, onProblemChange }: TutorChatProps) => {
+  const [scope, setScope] = useState<'step' | 'problem'>('step');
+  const [input, setInput] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [streamedAnswer, setStreamedAnswer] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const threadStepIndex = scope === 'step' ? stepIndex : undefined;
+  const messages = getThread(problem, threadStepIndex);
+
+  // A question still being answered belongs to the step it was asked on
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, [problem.id, stepIndex, scope]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages.length, streamedAnswer]);
+
+  const handleSend = async (text = input) => {
+    const message = text.trim();
+    if (!message || pendingQuestion) return;
+
+    setError(null);
+    setInput('');
+    setPendingQuestion(message);
+    setStreamedAnswer('');
+    abortControllerRef.current = new AbortController();
+    const signal = abortControllerRef.current.signal;
+    const question: TutorMessage = { role: 'student', content: message, createdAt: new Date().toISOString() };
+
+    try {
+      const answer = await askTutor({
+        problem,
+        stepIndex: threadStepIndex,
+        message,
+        language,
+        onText: setStreamedAnswer,
+        signal,
+      });
+      const reply: TutorMessage = { role: 'tutor', content: answer, createdAt: new Date().toISOString() };
+      onProblemChange(current => appendToThread(current, threadStepIndex, question, reply));
+    } catch (err) {
+      // Give the question back so it can be sent again
+      setInput(message);
+      if (!signal.aborted) {
+        console.error('Error asking the tutor:', err);
+        setError(getUserErrorMessage(err, 'The tutor could not answer right now. Please try again.'));
+      }
+    } finally {
+      setPendingQuestion(null);
+      setStreamedAnswer('');
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  const renderMessage = (role: TutorMessage['role'], content: string, key: React.Key) => (
+    <div key={key} className={`flex items-start gap-3 ${role === 'student' ? 'flex-row-reverse' : ''}`}>
+      <div className="w-8 h-8 rounded-full bg-[#ffffff]/10 flex items-center justify-center flex-shrink-0">
+        {role === 'student' ? <User className="w-4 h-4 text-stone-300" /> : <GraduationCap className="w-4 h-4 text-[#ffffff]" />}
+      </div>
+      <div className={`max-w-[80%] rounded-xl px-4 py-2 text-sm leading-relaxed whitespace-pre-wrap ${
+        role === 'student' ? 'bg-[#ffffff]/20 text-[#ffffff]' : 'bg-stone-800/70 text-stone-200 border border-[#ffffff]/10'
+      }`}>
+        <MathText text={content} />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-stone-900/50 rounded-2xl p-6 shadow-lg border border-[#ffffff]/20 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <MessageCircle className="w-5 h-5 text-[#ffffff]" />
+          <h4 className="text-lg font-semibold text-[#ffffff]">Ask the Tutor</h4>
+        </div>
+        <div className="flex gap-1 bg-stone-800/50 rounded-xl p-1 border border-[#ffffff]/20">
+          {(['step', 'problem'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setScope(option)}
+              disabled={!!pendingQuestion}
+              className={`text-xs px-3 py-1 rounded-lg transition-all ${
+                scope === option ? 'bg-[#ffffff] text-[#0d0d0d]' : 'text-stone-300 hover:bg-[#ffffff]/10'
+              }`}
+            >
+              {option === 'step' ? `Step ${problem.steps[stepIndex]?.step ?? stepIndex + 1}` : 'Whole problem'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3 max-h-96 overflow-y-auto mb-4">
+        {messages.length === 0 && !pendingQuestion && (
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTIONS.map(suggestion => (
+              <button
+                key={suggestion}
+                onClick={() => handleSend(suggestion)}
+                className="text-xs px-3 py-1 rounded-full border border-[#ffffff]/30 text-stone-300 hover:bg-[#ffffff]/10"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        )}
+        {messages.map((message, index) => renderMessage(message.role, message.content, index))}
+        {pendingQuestion && renderMessage('student', pendingQuestion, 'pending-question')}
+        {pendingQuestion && renderMessage('tutor', streamedAnswer || '…', 'pending-answer')}
+        <div ref={bottomRef} />
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+      <div className="flex items-end gap-2">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          placeholder={scope === 'step' ? 'Ask about this step...' : 'Ask about this problem...'}
+          className="flex-1 resize-none px-4 py-2 bg-stone-800/50 border border-[#ffffff]/20 rounded-xl text-stone-200 placeholder-stone-500 focus:outline-none focus:border-[#ffffff]/50"
+        />
+        {pendingQuestion ? (
+          <Button
+            onClick={() => abortControllerRef.current?.abort()}
+            variant="outline"
+            className="border-[#ffffff]/30 text-[#ffffff] hover:bg-[#ffffff]/10"
+          >
+            <Square className="w-4 h-4" />
+          </Button>
+        ) : (
+          <Button
+            onClick={() => handleSend()}
+            disabled={!input.trim()}
+            className="bg-[#ffffff] text-[#0d0d0d] hover:bg-[#fde6c4]"
+          >
+            <Send className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TutorChat;
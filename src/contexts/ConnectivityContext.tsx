@@ -0,0 +1,52 @@
+import React, { useState, useEffect, useCallback, ReactNode } from 'react';
+import {
+  ConnectivityMode,
+  ConnectivityStatus,
+  applySavedConnectivityMode,
+  refreshConnectivity,
+  saveConnectivityMode,
+} from '../services/connectivityService';
+import { ConnectivityContext } from './connectivity';
+
+const CHECK_INTERVAL_MS = 30000;
+
+interface ConnectivityProviderProps {
+  children: ReactNode;
+}
+
+export const ConnectivityProvider: React.FC<ConnectivityProviderProps> = ({ children }) => {
+  const [status, setStatus] = useState<ConnectivityStatus>(applySavedConnectivityMode);
+
+  const refresh = useCallback(async () => {
+    const next = await refreshConnectivity();
+    if (next) {
+      setStatus(next);
+    }
+  }, []);
+
+  const setMode = (mode: ConnectivityMode) => {
+    saveConnectivityMode(mode);
+    const applied = applySavedConnectivityMode();
+    setStatus(prev => ({ ...applied, localAvailable: prev.localAvailable }));
+    refresh();
+  };
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, CHECK_INTERVAL_MS);
+    window.addEventListener('online', refresh);
+    window.addEventListener('offline', refresh);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', refresh);
+      window.removeEventListener('offline', refresh);
+    };
+  }, [refresh]);
+
+  return (
+    <ConnectivityContext.Provider value={{ ...status, setMode, refresh }}>
+      {children}
+    </ConnectivityContext.Provider>
+  );
+};
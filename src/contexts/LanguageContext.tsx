@@ -31,6 +31,11 @@ const translations = {
     'nav.settings': 'Settings',
     'nav.practiceexam': 'Practice Exam',
     'nav.signout': 'Sign Out',
+    'connectivity.online': 'Online',
+    'connectivity.offline': 'Offline mode',
+    'connectivity.cloud': 'Using cloud AI providers',
+    'connectivity.local.ready': 'Using local model',
+    'connectivity.local.unreachable': 'Local model server unreachable',
     
     // LearnSphere
     'learnsphere.title': 'LearnSphere',
@@ -80,6 +85,15 @@ const translations = {
     'solver.previous': 'Previous Step',
     'solver.next': 'Next Step',
     'solver.new.upload': 'New Upload',
+    'solver.history.show': 'History',
+    'solver.history.title': 'Solution History',
+    'solver.history.search': 'Search questions, answers and steps...',
+    'solver.history.all': 'All topics',
+    'solver.history.empty': 'Solved problems are saved here automatically.',
+    'solver.history.nomatch': 'No saved solutions match your search.',
+    'solver.history.open': 'Open',
+    'solver.history.problems': 'problems',
+    'solver.history.delete': 'Delete this saved solution?',
     
     // Learning Road
     'learningroad.title': 'Learning Road',
@@ -88,6 +102,7 @@ const translations = {
     'learningroad.placeholder': 'Enter a topic (e.g., JavaScript, Machine Learning, Photography)',
     'learningroad.generate': 'Generate Learning Path',
     'learningroad.generating': 'Generating Path...',
+    'learningroad.cancel': 'Cancel',
     'learningroad.powered': 'Powered by Google Gemini',
     'learningroad.path': 'Learning Path:',
     'learningroad.steps': 'steps',
@@ -160,6 +175,11 @@ const translations = {
     'examsimulator.generate': 'Generate Practice Exams',
     'examsimulator.generating': 'Generating Exam Series...',
     'examsimulator.generating.description': 'Creating progressive difficulty exams with AI...',
+    'examsimulator.cancel': 'Cancel (finished levels are saved)',
+    'examsimulator.saved.partial': '{generated} of {total} generated',
+    'examsimulator.saved.resume': 'Resume',
+    'examsimulator.progress.level': 'Generating exam {level} of {total}',
+    'examsimulator.progress.questions': '{count} questions ready',
     'examsimulator.saved.title': 'Saved Exam Series',
     'examsimulator.saved.show': 'Load Saved Series',
     'examsimulator.saved.hide': 'Hide',
@@ -167,6 +187,12 @@ const translations = {
     'examsimulator.saved.created': 'Created',
     'examsimulator.saved.exams': 'exams',
     'examsimulator.saved.load': 'Load Series',
+    'examsimulator.sets.show': 'Problem Sets',
+    'examsimulator.sets.title': 'My Problem Sets',
+    'examsimulator.sets.empty': 'No problem sets yet. Save practice problems from the Solver to build one.',
+    'examsimulator.sets.problems': 'problems',
+    'examsimulator.sets.take': 'Take as Exam',
+    'examsimulator.sets.delete': 'Are you sure you want to delete this problem set?',
     'examsimulator.error.title': 'Generation Error',
     'examsimulator.error.description': 'Failed to generate exam series',
     'examsimulator.error.try': 'Try Again',
@@ -249,6 +275,11 @@ const translations = {
     'nav.learningroad': '学习路径',
     'nav.practiceexam': '练习考试',
     'nav.signout': '退出登录',
+    'connectivity.online': '在线',
+    'connectivity.offline': '离线模式',
+    'connectivity.cloud': '正在使用云端 AI 服务',
+    'connectivity.local.ready': '正在使用本地模型',
+    'connectivity.local.unreachable': '无法连接本地模型服务器',
     'math': '数学',
     'physics': '物理',
     'chemistry': '化学',
@@ -302,6 +333,15 @@ const translations = {
     'solver.previous': '上一步',
     'solver.next': '下一步',
     'solver.new.upload': '新上传',
+    'solver.history.show': '历史记录',
+    'solver.history.title': '解题历史',
+    'solver.history.search': '搜索题目、答案和步骤...',
+    'solver.history.all': '全部主题',
+    'solver.history.empty': '解答的题目会自动保存在这里。',
+    'solver.history.nomatch': '没有符合搜索条件的已保存解答。',
+    'solver.history.open': '打开',
+    'solver.history.problems': '道题',
+    'solver.history.delete': '删除这条已保存的解答？',
     
     // Learning Road
     'learningroad.title': '学习路径',
@@ -310,6 +350,7 @@ const translations = {
     'learningroad.placeholder': '输入主题（例如：JavaScript、机器学习、摄影）',
     'learningroad.generate': '生成学习路径',
     'learningroad.generating': '正在生成路径...',
+    'learningroad.cancel': '取消',
     'learningroad.powered': '由Google Gemini提供支持',
     'learningroad.path': '学习路径：',
     'learningroad.steps': '步骤',
@@ -381,6 +422,11 @@ const translations = {
     'examsimulator.generate': '生成练习考试',
     'examsimulator.generating': '正在生成考试系列...',
     'examsimulator.generating.description': '使用AI创建渐进难度考试...',
+    'examsimulator.cancel': '取消（已完成的级别会保存）',
+    'examsimulator.saved.partial': '已生成 {generated} / {total}',
+    'examsimulator.saved.resume': '继续生成',
+    'examsimulator.progress.level': '正在生成第 {level} / {total} 套考试',
+    'examsimulator.progress.questions': '已完成 {count} 道题',
     'examsimulator.saved.title': '已保存的考试系列',
     'examsimulator.saved.show': '加载已保存系列',
     'examsimulator.saved.hide': '隐藏',
@@ -388,6 +434,12 @@ const translations = {
     'examsimulator.saved.created': '创建时间',
     'examsimulator.saved.exams': '考试',
     'examsimulator.saved.load': '加载系列',
+    'examsimulator.sets.show': '习题集',
+    'examsimulator.sets.title': '我的习题集',
+    'examsimulator.sets.empty': '还没有习题集。在解题器中保存练习题即可创建。',
+    'examsimulator.sets.problems': '道题',
+    'examsimulator.sets.take': '作为考试',
+    'examsimulator.sets.delete': '确定要删除这个习题集吗？',
     'examsimulator.error.title': '生成错误',
     'examsimulator.error.description': '生成考试系列失败',
     'examsimulator.error.try': '重试',
@@ -470,6 +522,11 @@ const translations = {
     'nav.learningroad': 'Ruta de Aprendizaje',
     'nav.practiceexam': 'Examen de Práctica',
     'nav.signout': 'Cerrar Sesión',
+    'connectivity.online': 'En línea',
+    'connectivity.offline': 'Modo sin conexión',
+    'connectivity.cloud': 'Usando proveedores de IA en la nube',
+    'connectivity.local.ready': 'Usando modelo local',
+    'connectivity.local.unreachable': 'Servidor del modelo local no disponible',
     'math': 'Matemáticas',
     'physics': 'Física',
     'chemistry': 'Química',
@@ -523,6 +580,15 @@ const translations = {
     'solver.previous': 'Paso Anterior',
     'solver.next': 'Siguiente Paso',
     'solver.new.upload': 'Nueva Subida',
+    'solver.history.show': 'Historial',
+    'solver.history.title': 'Historial de Soluciones',
+    'solver.history.search': 'Buscar preguntas, respuestas y pasos...',
+    'solver.history.all': 'Todos los temas',
+    'solver.history.empty': 'Los problemas resueltos se guardan aquí automáticamente.',
+    'solver.history.nomatch': 'Ninguna solución guardada coincide con tu búsqueda.',
+    'solver.history.open': 'Abrir',
+    'solver.history.problems': 'problemas',
+    'solver.history.delete': '¿Eliminar esta solución guardada?',
     
     // Learning Road
     'learningroad.title': 'Ruta de Aprendizaje',
@@ -531,6 +597,7 @@ const translations = {
     'learningroad.placeholder': 'Ingresa un tema (ej., JavaScript, Aprendizaje Automático, Fotografía)',
     'learningroad.generate': 'Generar Ruta de Aprendizaje',
     'learningroad.generating': 'Generando Ruta...',
+    'learningroad.cancel': 'Cancelar',
     'learningroad.powered': 'Impulsado por Google Gemini',
     'learningroad.path': 'Ruta de Aprendizaje:',
     'learningroad.steps': 'pasos',
@@ -602,6 +669,11 @@ const translations = {
     'examsimulator.generate': 'Generar Exámenes de Práctica',
     'examsimulator.generating': 'Generando Serie de Exámenes...',
     'examsimulator.generating.description': 'Creando exámenes de dificultad progresiva con IA...',
+    'examsimulator.cancel': 'Cancelar (se guardan los niveles terminados)',
+    'examsimulator.saved.partial': '{generated} de {total} generados',
+    'examsimulator.saved.resume': 'Reanudar',
+    'examsimulator.progress.level': 'Generando examen {level} de {total}',
+    'examsimulator.progress.questions': '{count} preguntas listas',
     'examsimulator.saved.title': 'Series de Exámenes Guardadas',
     'examsimulator.saved.show': 'Cargar Series Guardadas',
     'examsimulator.saved.hide': 'Ocultar',
@@ -609,6 +681,12 @@ const translations = {
     'examsimulator.saved.created': 'Creado',
     'examsimulator.saved.exams': 'exámenes',
     'examsimulator.saved.load': 'Cargar Serie',
+    'examsimulator.sets.show': 'Conjuntos de Problemas',
+    'examsimulator.sets.title': 'Mis Conjuntos de Problemas',
+    'examsimulator.sets.empty': 'Aún no hay conjuntos de problemas. Guarda problemas de práctica desde el Solucionador para crear uno.',
+    'examsimulator.sets.problems': 'problemas',
+    'examsimulator.sets.take': 'Hacer como Examen',
+    'examsimulator.sets.delete': '¿Seguro que quieres eliminar este conjunto de problemas?',
     'examsimulator.error.title': 'Error de Generación',
     'examsimulator.error.description': 'Falló la generación de la serie de exámenes',
     'examsimulator.error.try': 'Intentar de Nuevo',
@@ -691,6 +769,11 @@ const translations = {
     'nav.learningroad': 'Parcours d\'Apprentissage',
     'nav.practiceexam': 'Examen d\'Entraînement',
     'nav.signout': 'Se Déconnecter',
+    'connectivity.online': 'En ligne',
+    'connectivity.offline': 'Mode hors ligne',
+    'connectivity.cloud': 'Fournisseurs d\'IA cloud utilisés',
+    'connectivity.local.ready': 'Modèle local utilisé',
+    'connectivity.local.unreachable': 'Serveur du modèle local injoignable',
     'math': 'Mathématiques',
     'physics': 'Physique',
     'chemistry': 'Chimie',
@@ -744,6 +827,15 @@ const translations = {
     'solver.previous': 'Étape Précédente',
     'solver.next': 'Étape Suivante',
     'solver.new.upload': 'Nouveau Téléchargement',
+    'solver.history.show': 'Historique',
+    'solver.history.title': 'Historique des Solutions',
+    'solver.history.search': 'Rechercher des questions, réponses et étapes...',
+    'solver.history.all': 'Tous les sujets',
+    'solver.history.empty': 'Les problèmes résolus sont enregistrés ici automatiquement.',
+    'solver.history.nomatch': 'Aucune solution enregistrée ne correspond à votre recherche.',
+    'solver.history.open': 'Ouvrir',
+    'solver.history.problems': 'problèmes',
+    'solver.history.delete': 'Supprimer cette solution enregistrée ?',
     
     // Learning Road
     'learningroad.title': 'Parcours d\'Apprentissage',
@@ -752,6 +844,7 @@ const translations = {
     'learningroad.placeholder': 'Entrez un sujet (ex., JavaScript, Apprentissage Automatique, Photographie)',
     'learningroad.generate': 'Générer un Parcours d\'Apprentissage',
     'learningroad.generating': 'Génération du Parcours...',
+    'learningroad.cancel': 'Annuler',
     'learningroad.powered': 'Alimenté par Google Gemini',
     'learningroad.path': 'Parcours d\'Apprentissage:',
     'learningroad.steps': 'étapes',
@@ -823,6 +916,11 @@ const translations = {
     'examsimulator.generate': 'Générer des Examens de Pratique',
     'examsimulator.generating': 'Génération de la Série d\'Examens...',
     'examsimulator.generating.description': 'Création d\'examens de difficulté progressive avec IA...',
+    'examsimulator.cancel': 'Annuler (les niveaux terminés sont enregistrés)',
+    'examsimulator.saved.partial': '{generated} sur {total} générés',
+    'examsimulator.saved.resume': 'Reprendre',
+    'examsimulator.progress.level': 'Génération de l\'examen {level} sur {total}',
+    'examsimulator.progress.questions': '{count} questions prêtes',
     'examsimulator.saved.title': 'Séries d\'Examens Sauvegardées',
     'examsimulator.saved.show': 'Charger les Séries Sauvegardées',
     'examsimulator.saved.hide': 'Masquer',
@@ -830,6 +928,12 @@ const translations = {
     'examsimulator.saved.created': 'Créé',
     'examsimulator.saved.exams': 'examens',
     'examsimulator.saved.load': 'Charger la Série',
+    'examsimulator.sets.show': 'Séries de Problèmes',
+    'examsimulator.sets.title': 'Mes Séries de Problèmes',
+    'examsimulator.sets.empty': 'Aucune série de problèmes pour l\'instant. Enregistrez des problèmes d\'entraînement depuis le Solveur pour en créer une.',
+    'examsimulator.sets.problems': 'problèmes',
+    'examsimulator.sets.take': 'Passer en Examen',
+    'examsimulator.sets.delete': 'Voulez-vous vraiment supprimer cette série de problèmes ?',
     'examsimulator.error.title': 'Erreur de Génération',
     'examsimulator.error.description': 'Échec de la génération de la série d\'examens',
     'examsimulator.error.try': 'Réessayer',
@@ -912,6 +1016,11 @@ const translations = {
     'nav.learningroad': 'Con Đường Học Tập',
     'nav.practiceexam': 'Bài Thi Thực Hành',
     'nav.signout': 'Đăng Xuất',
+    'connectivity.online': 'Trực tuyến',
+    'connectivity.offline': 'Chế độ ngoại tuyến',
+    'connectivity.cloud': 'Đang dùng nhà cung cấp AI đám mây',
+    'connectivity.local.ready': 'Đang dùng mô hình cục bộ',
+    'connectivity.local.unreachable': 'Không kết nối được máy chủ mô hình cục bộ',
 
     'math': 'Toán',
     'physics': 'Vật lý',
@@ -966,6 +1075,15 @@ const translations = {
     'solver.previous': 'Bước Trước',
     'solver.next': 'Bước Tiếp Theo',
     'solver.new.upload': 'Tải Lên Mới',
+    'solver.history.show': 'Lịch Sử',
+    'solver.history.title': 'Lịch Sử Lời Giải',
+    'solver.history.search': 'Tìm câu hỏi, đáp án và các bước...',
+    'solver.history.all': 'Tất cả chủ đề',
+    'solver.history.empty': 'Các bài đã giải được lưu tự động tại đây.',
+    'solver.history.nomatch': 'Không có lời giải đã lưu nào khớp với tìm kiếm.',
+    'solver.history.open': 'Mở',
+    'solver.history.problems': 'bài',
+    'solver.history.delete': 'Xóa lời giải đã lưu này?',
     
     // Learning Road
     'learningroad.title': 'Lộ Trình Học Tập',
@@ -974,6 +1092,7 @@ const translations = {
     'learningroad.placeholder': 'Nhập chủ đề (ví dụ: JavaScript, Học Máy, Nhiếp Ảnh)',
     'learningroad.generate': 'Tạo Lộ Trình Học Tập',
     'learningroad.generating': 'Đang Tạo Lộ Trình...',
+    'learningroad.cancel': 'Hủy',
     'learningroad.powered': 'Được Hỗ Trợ bởi Google Gemini',
     'learningroad.path': 'Lộ Trình Học Tập:',
     'learningroad.steps': 'bước',
@@ -1045,6 +1164,11 @@ const translations = {
     'examsimulator.generate': 'Tạo Bài Thi Thực Hành',
     'examsimulator.generating': 'Đang Tạo Chuỗi Bài Thi...',
     'examsimulator.generating.description': 'Tạo bài thi với độ khó tăng dần bằng AI...',
+    'examsimulator.cancel': 'Hủy (các cấp đã xong sẽ được lưu)',
+    'examsimulator.saved.partial': 'Đã tạo {generated} / {total}',
+    'examsimulator.saved.resume': 'Tiếp tục',
+    'examsimulator.progress.level': 'Đang tạo bài thi {level} / {total}',
+    'examsimulator.progress.questions': 'Đã có {count} câu hỏi',
     'examsimulator.saved.title': 'Chuỗi Bài Thi Đã Lưu',
     'examsimulator.saved.show': 'Tải Chuỗi Đã Lưu',
     'examsimulator.saved.hide': 'Ẩn',
@@ -1052,6 +1176,12 @@ const translations = {
     'examsimulator.saved.created': 'Đã Tạo',
     'examsimulator.saved.exams': 'bài thi',
     'examsimulator.saved.load': 'Tải Chuỗi',
+    'examsimulator.sets.show': 'Bộ Bài Tập',
+    'examsimulator.sets.title': 'Bộ Bài Tập Của Tôi',
+    'examsimulator.sets.empty': 'Chưa có bộ bài tập nào. Lưu bài luyện tập từ Trình Giải để tạo bộ đầu tiên.',
+    'examsimulator.sets.problems': 'bài',
+    'examsimulator.sets.take': 'Làm Như Bài Thi',
+    'examsimulator.sets.delete': 'Bạn có chắc muốn xóa bộ bài tập này?',
     'examsimulator.error.title': 'Lỗi Tạo',
     'examsimulator.error.description': 'Tạo chuỗi bài thi thất bại',
     'examsimulator.error.try': 'Thử Lại',
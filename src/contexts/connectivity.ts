@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+import type { ConnectivityMode, ConnectivityStatus } from '../services/connectivityService';
+
+export interface ConnectivityContextType extends ConnectivityStatus {
+  setMode: (mode: ConnectivityMode) => void;
+  refresh: () => Promise<void>;
+}
+
+export const ConnectivityContext = createContext<ConnectivityContextType | undefined>(undefined);
+
+export const useConnectivity = (): ConnectivityContextType => {
+  const context = useContext(ConnectivityContext);
+  if (!context) {
+    throw new Error('useConnectivity must be used within a ConnectivityProvider');
+  }
+  return context;
+};
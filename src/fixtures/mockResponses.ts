@@ -0,0 +1,423 @@
+import type { MockFixture } from '../services/modelProviders';
+import type { ModelErrorKind } from '../services/modelErrors';
+
+/*
+ * Recorded answers for the mock provider (VITE_MOCK_LLM=true or Settings).
+ *
+ * Scenario markers can be typed into any prompt, e.g. a Solver text problem,
+ * or put in an uploaded file's name to exercise the failure paths:
+ *   [mock:malformed]     never returns valid JSON, so repairs run out
+ *   [mock:repairable]    the first answer misses fields, the repair fixes it
+ *   [mock:flaky]         one server error, then the normal answer
+ *   [mock:error:<kind>]  always fails with that ModelError kind
+ * Everything else falls through to one default answer per prompt template.
+ */
+
+const REPAIR_PROMPT = 'could not be used because it does not match the required JSON format';
+
+const solvedProblems = [
+  {
+    question: 'Solve for x: 2x + 6 = 14',
+    solution: 'x = 4',
+    difficulty: 'Easy',
+    topic: 'Linear Equations',
+    steps: [
+      {
+        step: 1,
+        description: 'Subtract 6 from both sides',
+        equation: '2x = 8',
+        explanation: 'Isolating the term with x keeps the equation balanced.',
+      },
+      {
+        step: 2,
+        description: 'Divide both sides by 2',
+        equation: 'x = 4',
+        explanation: 'Dividing by the coefficient of x leaves x on its own.',
+      },
+    ],
+  },
+  {
+    question: 'What is the derivative of $f(x) = 3x^2 + 2x$?',
+    solution: "f'(x) = 6x + 2",
+    difficulty: 'Medium',
+    topic: 'Calculus',
+    steps: [
+      {
+        step: 1,
+        description: 'Apply the power rule to each term',
+        equation: '$\\frac{d}{dx}(3x^2) = 6x$, $\\frac{d}{dx}(2x) = 2$',
+        explanation: 'The power rule $\\frac{d}{dx}x^n = nx^{n-1}$ brings the exponent down and lowers it by one.',
+      },
+      {
+        step: 2,
+        description: 'Add the results',
+        equation: "f'(x) = 6x + 2",
+        explanation: 'The derivative of a sum is the sum of the derivatives.',
+      },
+    ],
+  },
+];
+
+const physicsProblems = [
+  {
+    question: 'A 2.0 kg block is pushed with a net force of 10 N. What is its acceleration?',
+    solution: 'a = 5.0 m/s^2',
+    difficulty: 'Easy',
+    topic: 'Dynamics',
+    given: [
+      { symbol: 'm', value: '2.0', unit: 'kg', description: 'mass of the block' },
+      { symbol: 'F', value: '10', unit: 'N', description: 'net force' },
+    ],
+    find: [{ symbol: 'a', unit: 'm/s^2', description: 'acceleration of the block' }],
+    steps: [
+      {
+        step: 1,
+        description: "Apply Newton's second law",
+        equation: 'a = F / m = 10 N / 2.0 kg',
+        unit: 'm/s^2',
+        explanation: 'Net force equals mass times acceleration, so dividing by the mass gives the acceleration.',
+      },
+      {
+        step: 2,
+        description: 'Evaluate',
+        equation: 'a = 5.0 m/s^2',
+        unit: 'm/s^2',
+        explanation: 'One newton is one kg·m/s^2, so the units reduce to m/s^2.',
+      },
+    ],
+  },
+];
+
+const chemistryProblems = [
+  {
+    question: 'How many grams of water form when 4.0 g of hydrogen burns completely in oxygen?',
+    solution: '36 g H2O',
+    difficulty: 'Medium',
+    topic: 'Stoichiometry',
+    steps: [
+      {
+        step: 1,
+        description: 'Write the balanced equation',
+        reaction: '2H2(g) + O2(g) -> 2H2O(l)',
+        equation: '',
+        explanation: 'Four hydrogen and two oxygen atoms appear on each side.',
+      },
+      {
+        step: 2,
+        description: 'Convert grams of hydrogen to moles',
+        equation: 'n(H2) = 4.0 g / 2.0 g/mol = 2.0 mol',
+        explanation: 'Dividing by the molar mass gives the amount of substance.',
+      },
+      {
+        step: 3,
+        description: 'Use the mole ratio and convert to grams',
+        equation: 'm(H2O) = 2.0 mol × 18 g/mol = 36 g',
+        explanation: 'H2 and H2O react 2:2, so 2.0 mol of hydrogen gives 2.0 mol of water.',
+      },
+    ],
+  },
+];
+
+const biologyProblems = [
+  {
+    question: 'Two heterozygous tall pea plants (Tt) are crossed. What fraction of the offspring is short?',
+    solution: '1/4',
+    difficulty: 'Easy',
+    topic: 'Genetics',
+    steps: [
+      {
+        step: 1,
+        description: 'Set up the Punnett square',
+        equation: '',
+        explanation: 'Each parent passes on one of its two alleles with equal probability.',
+        terms: [
+          { term: 'Allele', definition: 'One of the versions of a gene' },
+          { term: 'Heterozygous', definition: 'Having two different alleles of a gene' },
+        ],
+        diagram: '    |  T  |  t\n----+-----+-----\n  T |  TT |  Tt\n  t |  Tt |  tt',
+      },
+      {
+        step: 2,
+        description: 'Count the short offspring',
+        equation: 'P(tt) = 1/4',
+        explanation: 'Only tt plants are short because tall (T) is dominant.',
+        terms: [{ term: 'Dominant', definition: 'An allele whose trait shows even with one copy' }],
+      },
+    ],
+  },
+];
+
+const tutorAnswer = `In step 2 we divide both sides by $2$ because $x$ is multiplied by $2$. Dividing undoes the multiplication and keeps the equation balanced:
+
+$$\\frac{2x}{2} = \\frac{8}{2} \\Rightarrow x = 4$$
+
+You can check it by substituting back: $2(4) + 6 = 14$.`;
+
+const practiceProblems = [
+  {
+    question: 'Solve for $x$: $3x + 5 = 20$',
+    solution: '$x = 5$',
+    difficulty: 'Easy',
+    topic: 'Linear Equations',
+    steps: [
+      { step: 1, description: 'Subtract $5$ from both sides', equation: '$3x = 15$', explanation: 'Removing the constant leaves only the $x$ term on the left.' },
+      { step: 2, description: 'Divide both sides by $3$', equation: '$x = 5$', explanation: 'Dividing by the coefficient isolates $x$.' },
+    ],
+  },
+  {
+    question: 'Solve for $x$: $4x - 7 = 9$',
+    solution: '$x = 4$',
+    difficulty: 'Easy',
+    topic: 'Linear Equations',
+    steps: [
+      { step: 1, description: 'Add $7$ to both sides', equation: '$4x = 16$', explanation: 'Adding $7$ cancels the $-7$ on the left.' },
+      { step: 2, description: 'Divide both sides by $4$', equation: '$x = 4$', explanation: 'Dividing by the coefficient isolates $x$.' },
+    ],
+  },
+  {
+    question: 'Solve for $x$: $5x + 2 = 27$',
+    solution: '$x = 5$',
+    difficulty: 'Easy',
+    topic: 'Linear Equations',
+    steps: [
+      { step: 1, description: 'Subtract $2$ from both sides', equation: '$5x = 25$', explanation: 'Removing the constant leaves only the $x$ term on the left.' },
+      { step: 2, description: 'Divide both sides by $5$', equation: '$x = 5$', explanation: 'Dividing by the coefficient isolates $x$.' },
+    ],
+  },
+];
+
+const learningPath = {
+  topic: 'Linear Equations',
+  totalEstimatedTime: '4 hours',
+  difficulty: 'Beginner',
+  description: 'From the meaning of an equation to solving systems of two linear equations.',
+  steps: [
+    {
+      step: 1,
+      title: 'What an Equation Says',
+      description: 'Read equations as balanced statements and identify unknowns.',
+      estimatedTime: '45 minutes',
+      difficulty: 'Beginner',
+      prerequisites: [],
+      keyTopics: ['Variables', 'Equality', 'Terms and coefficients'],
+      practiceExercises: ['Translate five sentences into equations'],
+    },
+    {
+      step: 2,
+      title: 'Solving One-Step and Two-Step Equations',
+      description: 'Use inverse operations to isolate the variable.',
+      estimatedTime: '1.5 hours',
+      difficulty: 'Beginner',
+      prerequisites: ['What an Equation Says'],
+      keyTopics: ['Inverse operations', 'Checking solutions'],
+      practiceExercises: ['Solve 2x + 6 = 14', 'Solve x / 3 - 1 = 5'],
+    },
+    {
+      step: 3,
+      title: 'Systems of Linear Equations',
+      description: 'Solve two equations together by substitution and elimination.',
+      estimatedTime: '2 hours',
+      difficulty: 'Intermediate',
+      prerequisites: ['Solving One-Step and Two-Step Equations'],
+      keyTopics: ['Substitution', 'Elimination'],
+      practiceExercises: ['Solve x + y = 5 and x - y = 1'],
+    },
+  ],
+};
+
+const learningMaterial = {
+  stepTitle: 'Solving One-Step and Two-Step Equations',
+  topic: 'Linear Equations',
+  introduction: 'An equation stays true when you do the same thing to both sides. Solving means undoing operations until the variable stands alone.',
+  sections: [
+    {
+      title: 'Inverse Operations',
+      content: 'Addition undoes subtraction and multiplication undoes division. Undo the operations applied to x in reverse order.',
+      examples: ['x + 5 = 12 → x = 7', '4x = 20 → x = 5'],
+      keyPoints: ['Do the same operation on both sides', 'Undo addition before multiplication'],
+    },
+    {
+      title: 'Checking Your Answer',
+      content: 'Substitute the value back into the original equation. If both sides are equal, the solution is correct.',
+      examples: ['2(4) + 6 = 14 ✓'],
+      keyPoints: ['Always check in the original equation'],
+    },
+  ],
+  summary: 'Isolate the variable with inverse operations, then check the result.',
+  nextSteps: ['Practice equations with variables on both sides', 'Move on to systems of equations'],
+  estimatedReadTime: '10 minutes',
+};
+
+const quizQuestions = [
+  {
+    question: 'What is the first step to solve 3x - 4 = 11?',
+    options: ['Divide by 3', 'Add 4 to both sides', 'Subtract 11', 'Multiply by 4'],
+    correctAnswer: 1,
+    explanation: 'Undo the subtraction first: 3x = 15.',
+    difficulty: 'Easy',
+  },
+  {
+    question: 'Which value solves 5x + 2 = 17?',
+    options: ['x = 3', 'x = 5', 'x = 15', 'x = 19/5'],
+    correctAnswer: 0,
+    explanation: '5x = 15, so x = 3.',
+    difficulty: 'Easy',
+  },
+  {
+    question: 'How many solutions does 2x + 1 = 2x + 3 have?',
+    options: ['One', 'Two', 'None', 'Infinitely many'],
+    correctAnswer: 2,
+    explanation: 'Subtracting 2x leaves 1 = 3, which is never true.',
+    difficulty: 'Medium',
+  },
+];
+
+const exam = {
+  title: 'Linear Equations Practice Exam',
+  description: 'Checks fluency with one- and two-step linear equations.',
+  instructions: 'Answer every question. Show your reasoning for short-answer questions.',
+  questions: [
+    {
+      question: 'Solve for x: 4x - 7 = 9',
+      type: 'multiple-choice',
+      options: ['x = 1/2', 'x = 4', 'x = 16', 'x = -4'],
+      correctAnswer: 1,
+      points: 2,
+      explanation: '4x = 16, so x = 4.',
+      difficulty: 'Easy',
+    },
+    {
+      question: 'The equation x + 3 = x + 3 has exactly one solution.',
+      type: 'true-false',
+      options: ['True', 'False'],
+      correctAnswer: 1,
+      points: 1,
+      explanation: 'It is true for every x, so it has infinitely many solutions.',
+      difficulty: 'Medium',
+    },
+    {
+      question: 'Solve 3(x - 2) = 12 and give the value of x.',
+      type: 'short-answer',
+      correctAnswer: '6',
+      points: 3,
+      explanation: 'x - 2 = 4, so x = 6.',
+      difficulty: 'Medium',
+    },
+    {
+      question: 'If 2x = 10, then x = ____.',
+      type: 'fill-blank',
+      correctAnswer: '5',
+      points: 1,
+      explanation: 'Divide both sides by 2.',
+      difficulty: 'Easy',
+    },
+    {
+      question: 'Explain how to solve 5x + 2 = 17 and how to check that your answer is right.',
+      type: 'essay',
+      correctAnswer: 'Subtract 2 from both sides to get 5x = 15, then divide by 5 to get x = 3. Check by substituting: 5(3) + 2 = 17.',
+      points: 5,
+      explanation: 'Full marks need both inverse operations, the answer x = 3 and the substitution check.',
+      difficulty: 'Medium',
+    },
+  ],
+  totalPoints: 12,
+};
+
+const performanceAnalysis = `📊 PERFORMANCE ANALYSIS
+Scores rise steadily through the early levels and dip once questions mix several steps.
+
+🎯 STRENGTHS
+- Fast, accurate one-step equations
+
+⚠️ AREAS FOR IMPROVEMENT
+- Distributing before isolating the variable
+
+📚 STUDY RECOMMENDATIONS
+- Work ten multi-step equations a day and check each answer
+
+🎯 NEXT STEPS
+- Retake the level where your score dropped first
+
+💡 PERSONALIZED TIPS
+- Write every step; most lost points come from skipped ones`;
+
+const essayGrade = {
+  score: 3,
+  feedback: 'You isolate the variable correctly, but the answer skips the check by substitution that the question asks for.',
+  criteria: [
+    { criterion: 'Method', earned: 2, max: 2, comment: 'Both sides are changed in the same way.' },
+    { criterion: 'Explanation', earned: 1, max: 2, comment: 'The reason for each step is only partly given.' },
+    { criterion: 'Check', earned: 0, max: 1, comment: 'The solution is not substituted back.' },
+  ],
+};
+
+const questionExplanation = `You chose $x = 16$, which is $4x$ rather than $x$: after adding $7$ to both sides you get $4x = 16$, and the last step is still to divide by $4$.
+
+1. Undo the subtraction: $4x - 7 + 7 = 9 + 7$, so $4x = 16$.
+2. Undo the multiplication: $\\frac{4x}{4} = \\frac{16}{4}$, so $x = 4$.
+
+Option A comes from dividing before adding, and D from a sign slip. Check by substituting: $4(4) - 7 = 9$.`;
+
+const extractedText = `1. Solve for x: 2x + 6 = 14
+2. What is the derivative of f(x) = 3x^2 + 2x?`;
+
+const ERROR_SCENARIOS: { kind: ModelErrorKind; message: string; status?: number; retryAfterMs?: number }[] = [
+  { kind: 'auth', message: 'invalid API key', status: 401 },
+  { kind: 'quota', message: 'quota exceeded', status: 429 },
+  { kind: 'rateLimit', message: 'too many requests', status: 429, retryAfterMs: 1000 },
+  { kind: 'timeout', message: 'the request timed out' },
+  { kind: 'network', message: 'the server could not be reached' },
+  { kind: 'server', message: 'internal server error', status: 500 },
+  { kind: 'malformed', message: 'the response could not be read' },
+];
+
+const scenarioFixtures = (purpose: 'text' | 'vision'): MockFixture[] => [
+  ...ERROR_SCENARIOS.map(error => ({
+    name: `error:${error.kind}`,
+    purpose,
+    includes: [`[mock:error:${error.kind}]`],
+    error,
+  })),
+  {
+    name: 'flaky',
+    purpose,
+    includes: ['[mock:flaky]'],
+    error: { kind: 'server', message: 'service temporarily unavailable', status: 503 },
+    times: 1,
+  },
+];
+
+export const mockFixtures: MockFixture[] = [
+  ...scenarioFixtures('text'),
+  {
+    name: 'malformed',
+    includes: ['[mock:malformed]'],
+    text: 'Sure! Here are the solutions: [{"question": "2x + 6 = 14", "solution": x = 4, "steps": [',
+  },
+  {
+    name: 'repairable:repaired',
+    includes: ['[mock:repairable]', REPAIR_PROMPT],
+    text: JSON.stringify(solvedProblems.slice(0, 1)),
+  },
+  {
+    name: 'repairable',
+    includes: ['[mock:repairable]'],
+    text: JSON.stringify([{ question: solvedProblems[0].question, solution: 4, difficulty: 'Trivial' }]),
+  },
+  { name: 'solver.physics', includes: ['expert physics tutor'], text: JSON.stringify(physicsProblems, null, 2) },
+  { name: 'solver.chemistry', includes: ['expert chemistry tutor'], text: JSON.stringify(chemistryProblems, null, 2) },
+  { name: 'solver.biology', includes: ['expert biology tutor'], text: JSON.stringify(biologyProblems, null, 2) },
+  { name: 'solver.solve', includes: ['UPLOADED PROBLEMS DOCUMENT'], text: JSON.stringify(solvedProblems, null, 2) },
+  { name: 'solver.tutor', includes: ['patient tutor'], text: tutorAnswer },
+  { name: 'solver.variants', includes: ['writing practice problems'], text: JSON.stringify(practiceProblems, null, 2) },
+  { name: 'learningRoad.path', includes: ['expert educational curriculum designer'], text: JSON.stringify(learningPath, null, 2) },
+  { name: 'learningRoad.material', includes: ['expert educational content creator'], text: JSON.stringify(learningMaterial, null, 2) },
+  { name: 'learningRoad.quiz', includes: ['creating quiz questions'], text: JSON.stringify(quizQuestions, null, 2) },
+  { name: 'examSimulator.exam', includes: ['expert exam creator'], text: JSON.stringify(exam, null, 2) },
+  { name: 'examSimulator.analysis', includes: ['expert educational analyst'], text: performanceAnalysis },
+  { name: 'examSimulator.grade', includes: ['experienced examiner grading'], text: JSON.stringify(essayGrade, null, 2) },
+  { name: 'examSimulator.explain', includes: ['going over an exam question'], text: questionExplanation },
+
+  ...scenarioFixtures('vision'),
+  { name: 'ocr', purpose: 'vision', text: extractedText },
+];
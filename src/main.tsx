@@ -3,11 +3,18 @@ import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
 import { LanguageProvider } from './contexts/LanguageContext';
+import { ConnectivityProvider } from './contexts/ConnectivityContext';
+import { applySavedConnectivityMode } from './services/connectivityService';
+
+// Before anything renders, so no request at startup reaches a cloud provider in offline mode
+applySavedConnectivityMode();
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <LanguageProvider>
-      <App />
+      <ConnectivityProvider>
+        <App />
+      </ConnectivityProvider>
     </LanguageProvider>
   </StrictMode>
 );
@@ -0,0 +1,221 @@
+import type { PromptTemplate } from '../services/promptRegistry';
+import { withLatexMath } from './mathNotation';
+
+const baseTemplates: PromptTemplate[] = [
+  {
+    id: 'examSimulator.exam',
+    version: 1,
+    description: 'Creates one level of a progressive exam series.',
+    variables: ['description', 'numberOfExams', 'level', 'label', 'complexity', 'cognitiveLevel', 'levelDescription', 'hasUploadedFiles'],
+    template: `You are an expert exam creator and educational assessment specialist. {{#if hasUploadedFiles}}CAREFULLY ANALYZE the uploaded exam/study materials first. Study the question types, difficulty level, subject matter, cognitive complexity, and assessment style of the original exam.{{/if}} 
+
+Create a comprehensive practice exam for LEVEL {{level}} of {{numberOfExams}} total exams with PROGRESSIVE DIFFICULTY.
+
+EXAM DESCRIPTION: "{{description}}"
+
+DIFFICULTY LEVEL {{level}}: {{label}}
+COMPLEXITY INSTRUCTION: {{complexity}}
+COGNITIVE LEVEL: {{cognitiveLevel}}
+DESCRIPTION: {{levelDescription}}
+
+EXAM REQUIREMENTS:
+- Number of questions: ANALYZE the uploaded exam to determine appropriate question count (typically 15-25 questions)
+- Question types: MATCH the question types found in the uploaded exam (multiple choice, short answer, essay, etc.)
+- Time limit: CALCULATE appropriate time based on question count and complexity (typically 1-3 minutes per question)
+- Difficulty Level: {{level}}/7 ({{label}})
+
+{{#if hasUploadedFiles}}
+CRITICAL ANALYSIS REQUIREMENTS:
+1. CONTENT ANALYSIS: Identify all topics, concepts, and subject areas covered in the uploaded exam
+2. STYLE ANALYSIS: Study the question format, wording style, and presentation approach
+3. DIFFICULTY ANALYSIS: Assess the cognitive level, question count, and time allocation from the original exam
+4. PATTERN RECOGNITION: Identify question patterns, common structures, and assessment methods
+5. SCOPE ANALYSIS: Understand the breadth and depth of content coverage
+
+PROGRESSIVE DIFFICULTY STRATEGY:
+- Base ALL questions on content and concepts from the uploaded exam
+- Maintain the same subject matter and topic areas across all levels
+- MATCH the question count and time allocation style of the original exam
+- USE the same question types found in the uploaded exam
+- Level {{level}} should be {{complexity}}
+- Ensure questions test the same learning objectives but at Level {{level}} complexity
+- Use the cognitive level: {{cognitiveLevel}}
+{{else}}
+DIFFICULTY PROGRESSION STRATEGY:
+- Create questions appropriate for Level {{level}} difficulty
+- Use standard academic question counts (15-25 questions)
+- Set appropriate time limits (45-90 minutes typical)
+- Include variety of question types (multiple choice, short answer, essay)
+- Focus on {{cognitiveLevel}} cognitive skills
+- {{complexity}}
+- Ensure educational value and clear learning objectives
+{{/if}}
+
+FORMAT YOUR RESPONSE AS JSON:
+
+{
+  "title": "Level {{level}}: {{label}} - [Subject] Practice Exam",
+  "description": "Level {{level}} exam focusing on {{levelDescription}}",
+  "instructions": "Clear instructions for taking this Level {{level}} exam",
+  "questions": [
+    {
+      "id": "q1",
+      "question": "Question text appropriate for Level {{level}} difficulty",
+      "type": "multiple-choice|true-false|short-answer|essay|fill-blank|matching",
+      "options": ["Option A", "Option B", "Option C", "Option D"], // Only for multiple choice
+      "correctAnswer": "Correct answer or option index (0-3 for multiple choice)",
+      "points": 5,
+      "explanation": "Detailed explanation of the correct answer and why others are wrong",
+      "difficulty": "Easy|Medium|Hard|Very Hard|Expert"
+    }
+  ],
+  "totalPoints": 100,
+  "estimatedTime": "CALCULATE appropriate time based on question count and complexity",
+  "difficultyLevel": {{level}},
+  "difficultyLabel": "{{label}}"
+}
+
+CRITICAL REQUIREMENTS:
+- Return ONLY valid JSON, no additional text or markdown
+- Determine appropriate number of questions based on uploaded exam analysis (15-25 typical)
+- Match question types to those found in uploaded exam or use academic standards
+- Calculate realistic time limits based on question complexity and count
+- For multiple choice questions, correctAnswer should be the index (0-3)
+- For other question types, correctAnswer should be the actual answer text
+- Points should total approximately 100 points across all questions
+- Each question should have a clear, educational explanation
+- Questions should be professional and well-written
+- Make questions appropriately challenging for Level {{level}}
+- Maintain academic integrity and educational value
+- Ensure questions are fair, unbiased, and clearly worded
+- Focus on {{cognitiveLevel}} cognitive skills`,
+  },
+  {
+    id: 'examSimulator.analysis',
+    version: 1,
+    description: 'Coaches the student based on their results across a series.',
+    variables: ['topic', 'description', 'completedExams', 'totalExams', 'averageScore', 'lowestScore', 'highestScore', 'averageTime', 'levelDetails'],
+    template: `You are an expert educational analyst and learning coach. Analyze this student's exam performance and provide detailed, actionable improvement suggestions.
+
+EXAM SERIES: {{topic}}
+DESCRIPTION: {{description}}
+
+PERFORMANCE SUMMARY:
+- Completed Exams: {{completedExams}}/{{totalExams}}
+- Average Score: {{averageScore}}%
+- Score Range: {{lowestScore}}% - {{highestScore}}%
+- Average Time: {{averageTime}}
+
+DETAILED PERFORMANCE BY LEVEL:
+{{levelDetails}}
+
+ANALYSIS REQUIREMENTS:
+1. **Performance Trends**: Analyze score progression across difficulty levels
+2. **Time Management**: Evaluate time efficiency and pacing
+3. **Difficulty Adaptation**: How well the student adapts to increasing difficulty
+4. **Strengths**: Identify areas of strong performance
+5. **Weaknesses**: Pinpoint specific areas needing improvement
+6. **Study Strategy**: Recommend specific study approaches
+7. **Next Steps**: Suggest which exams to retake or focus on
+
+Provide a comprehensive analysis in the following format:
+
+📊 PERFORMANCE ANALYSIS
+
+🎯 STRENGTHS
+[List specific strengths based on performance data]
+
+⚠️ AREAS FOR IMPROVEMENT
+[Identify specific weaknesses and patterns]
+
+📚 STUDY RECOMMENDATIONS
+[Provide actionable study strategies]
+
+🎯 NEXT STEPS
+[Suggest specific actions to improve performance]
+
+💡 PERSONALIZED TIPS
+[Give tailored advice based on their performance patterns]
+
+Make the analysis detailed, actionable, and encouraging. Focus on specific, practical advice the student can implement immediately.`,
+  },
+  {
+    id: 'examSimulator.grade',
+    version: 1,
+    description: 'Grades a written exam answer against a rubric, with partial credit and feedback.',
+    variables: ['question', 'type', 'points', 'referenceAnswer', 'explanation', 'answer', 'language'],
+    template: `You are an experienced examiner grading a student's written answer to one exam question ({{type}}) worth {{points}} points.
+
+QUESTION:
+{{question}}
+{{#if referenceAnswer}}
+REFERENCE ANSWER:
+{{referenceAnswer}}
+{{/if}}
+{{#if explanation}}
+EXAMINER NOTES:
+{{explanation}}
+{{/if}}
+STUDENT'S ANSWER:
+{{answer}}
+
+GRADING PROCESS:
+1. Write a rubric of 2-5 criteria for this question (for example accuracy, key concepts, reasoning, completeness) and split the {{points}} points between them.
+2. Award each criterion between 0 and its maximum. Give partial credit for partly correct work; do not deduct for spelling or style unless the question asks for it.
+3. The total score is the sum of the criteria.
+
+FORMAT YOUR RESPONSE AS JSON:
+
+{
+  "score": 0,
+  "feedback": "Two or three sentences for the student: what was good and what was missing",
+  "criteria": [
+    { "criterion": "Key concepts", "earned": 0, "max": 0, "comment": "One sentence" }
+  ]
+}
+
+CRITICAL RULES:
+- **Primary Language:** "feedback" and every "comment" MUST be in {{language}}.
+- "score" must be between 0 and {{points}}, and each "earned" between 0 and its "max".
+- Judge only what the student wrote; an answer that does not address the question scores 0.
+- Return ONLY valid JSON, no additional text or markdown.`,
+  },
+  {
+    id: 'examSimulator.explain',
+    version: 1,
+    description: 'Explains an exam question in more depth while reviewing a submitted exam.',
+    variables: ['question', 'options', 'correctAnswer', 'explanation', 'studentAnswer', 'result', 'language'],
+    template: `
+You are a patient teacher going over an exam question with a student after the exam. Explain the question in more depth than the short explanation below.
+
+QUESTION:
+{{question}}
+{{#if options}}
+OPTIONS:
+{{options}}
+{{/if}}
+CORRECT ANSWER:
+{{correctAnswer}}
+{{#if explanation}}
+SHORT EXPLANATION:
+{{explanation}}
+{{/if}}
+STUDENT'S ANSWER:
+{{studentAnswer}}
+
+RESULT: {{result}}
+
+RULES:
+- **Primary Language:** Your entire answer MUST be in {{language}}. This is a strict requirement.
+- Start from the student's answer: if it was wrong, name the likely misconception and why it leads there; if it was right, confirm the reasoning.
+- Then explain the concept behind the question step by step and how to recognise similar questions.
+- For multiple choice, say briefly why each wrong option is wrong.
+- Keep it under 250 words. Write mathematical expressions in LaTeX between dollar signs, e.g. $\\frac{x}{2} = 3$.
+- Answer in plain text, not JSON.`,
+  },
+];
+
+export const examSimulatorPrompts: PromptTemplate[] = [
+  ...baseTemplates,
+  ...withLatexMath(baseTemplates, ['examSimulator.exam']),
+];
@@ -0,0 +1,134 @@
+import type { PromptTemplate } from '../services/promptRegistry';
+import { withLatexMath } from './mathNotation';
+
+const baseTemplates: PromptTemplate[] = [
+  {
+    id: 'learningRoad.path',
+    version: 1,
+    description: 'Designs a 5-8 step learning path for a topic.',
+    variables: ['topic', 'language'],
+    template: `You are an expert educational curriculum designer. Create a comprehensive learning path for the topic: "{{topic}}".
+
+Generate a structured learning path with 5-8 progressive steps that build upon each other. Each step should be designed to help a student master the topic systematically.
+
+Format your response as a JSON object with this exact structure:
+
+{
+  "id": "unique_id",
+  "topic": "{{topic}}",
+  "totalEstimatedTime": "X hours Y minutes",
+  "difficulty": "Beginner|Intermediate|Advanced|Mixed",
+  "description": "Brief overview of what the student will learn",
+  "steps": [
+    {
+      "step": 1,
+      "title": "Step title",
+      "description": "Detailed description of what this step covers",
+      "estimatedTime": "X min",
+      "difficulty": "Beginner|Intermediate|Advanced",
+      "prerequisites": ["Previous step titles if any"],
+      "keyTopics": ["Topic 1", "Topic 2", "Topic 3"],
+      "practiceExercises": ["Exercise 1", "Exercise 2", "Exercise 3"]
+    }
+  ]
+}
+CRITICAL RULES:
+- **Primary Language:** Your entire response MUST be in {{language}}. This is a strict requirement.
+
+IMPORTANT RULES:
+- Return ONLY valid JSON, no additional text or markdown
+- Create 5-8 progressive steps that build logically
+- Each step should have 3-5 key topics and 3-5 practice exercises
+- Estimated times should be realistic (15-90 minutes per step)
+- Prerequisites should reference actual previous step titles
+- Make the learning path comprehensive but achievable
+- Difficulty should progress naturally from easier to harder concepts
+- Include practical, hands-on exercises for each step`,
+  },
+  {
+    id: 'learningRoad.material',
+    version: 1,
+    description: 'Writes the study material for one learning step.',
+    variables: ['topic', 'stepTitle', 'stepDescription', 'keyTopics', 'language'],
+    template: `You are an expert educational content creator. Generate comprehensive learning material for:
+
+Topic: "{{topic}}"
+Learning Step: "{{stepTitle}}"
+Description: "{{stepDescription}}"
+Key Topics to Cover: {{keyTopics}}
+
+Create detailed, educational content that helps students understand these concepts thoroughly.
+
+Format your response as a JSON object with this exact structure:
+
+{
+  "id": "unique_id",
+  "stepTitle": "{{stepTitle}}",
+  "topic": "{{topic}}",
+  "introduction": "Engaging introduction that explains what the student will learn",
+  "sections": [
+    {
+      "title": "Section title",
+      "content": "Detailed explanation of the concept (2-3 paragraphs)",
+      "examples": ["Example 1", "Example 2", "Example 3"],
+      "keyPoints": ["Key point 1", "Key point 2", "Key point 3"]
+    }
+  ],
+  "summary": "Comprehensive summary of what was learned",
+  "nextSteps": ["What to do next", "How to practice", "Further reading"],
+  "estimatedReadTime": "X minutes"
+}
+CRITICAL RULES:
+- **Primary Language:** Your entire response MUST be in {{language}}. This is a strict requirement.
+
+IMPORTANT RULES:
+- Return ONLY valid JSON, no additional text or markdown
+- Create 3-5 sections covering different aspects of the topic
+- Each section should have detailed content (150-300 words)
+- Include practical examples and real-world applications
+- Key points should be concise and memorable
+- Make content educational, engaging, and easy to understand
+- Estimated read time should be realistic (5-20 minutes)
+- Content should be appropriate for the learning level`,
+  },
+  {
+    id: 'learningRoad.quiz',
+    version: 1,
+    description: 'Writes a multiple-choice quiz for one learning step.',
+    variables: ['topic', 'stepTitle', 'language'],
+    template: `You are an expert educator creating quiz questions for the topic: "{{topic}}", specifically for the learning step: "{{stepTitle}}".
+
+Create 3-5 multiple choice questions that test understanding of this specific step. Questions should be educational and help reinforce learning.
+
+Format your response as a JSON array with this exact structure:
+
+[
+  {
+    "id": "unique_id",
+    "question": "Clear, specific question about the topic",
+    "options": ["Option A", "Option B", "Option C", "Option D"],
+    "correctAnswer": 0,
+    "explanation": "Detailed explanation of why this answer is correct and why others are wrong",
+    "difficulty": "Easy|Medium|Hard"
+  }
+]
+
+CRITICAL RULES:
+- **Primary Language:** Your entire response MUST be in {{language}}. This is a strict requirement.
+
+IMPORTANT RULES:
+- Return ONLY valid JSON, no additional text or markdown
+- Create 3-5 questions per topic
+- Each question should have exactly 4 options
+- correctAnswer should be the index (0-3) of the correct option
+- Explanations should be educational and help students learn
+- Mix difficulty levels appropriately
+- Questions should be specific to the step topic, not general knowledge
+- Avoid trick questions - focus on genuine understanding`,
+  },
+];
+
+export const learningRoadPrompts: PromptTemplate[] = [
+  ...baseTemplates,
+  ...withLatexMath(baseTemplates, ['learningRoad.material', 'learningRoad.quiz']),
+];
@@ -0,0 +1,34 @@
+import type { PromptId, PromptTemplate } from '../services/promptRegistry';
+
+const LATEX_RULE = `- Write every mathematical expression in LaTeX between dollar signs, e.g. $\\\\frac{3}{4}x^2 + 2 = 5$, and $$...$$ for a formula on its own line. Plain words stay outside the dollar signs.
+- Backslashes inside JSON strings must be doubled: write "$\\\\sqrt{2}$", never "$\\sqrt{2}$".
+`;
+
+const REACTION_RULE = `- Keep the "reaction" field as plain text with "->" (no LaTeX), so it can be balanced automatically.
+`;
+
+const RULES_HEADER = /(CRITICAL (?:RULES|REQUIREMENTS):\n)/;
+
+/**
+ * New versions of the latest template for each id that additionally ask for
+ * LaTeX-delimited math, so answers render with the shared math component.
+ */
+export const withLatexMath = (templates: PromptTemplate[], ids: PromptId[]): PromptTemplate[] =>
+  ids.map(id => {
+    const latest = templates
+      .filter(template => template.id === id)
+      .reduce((newest, template) => (template.version > newest.version ? template : newest));
+    if (!RULES_HEADER.test(latest.template)) {
+      throw new Error(`Prompt "${id}" has no rules section to add the LaTeX rule to.`);
+    }
+    return {
+      ...latest,
+      version: latest.version + 1,
+      description: `${latest.description || ''} Math is written in LaTeX.`.trim(),
+      template: latest.template.replace(
+        RULES_HEADER,
+        header => header + LATEX_RULE + (latest.template.includes('"reaction"') ? REACTION_RULE : '')
+      ),
+      weight: undefined,
+    };
+  });
@@ -1,5 +1,60 @@
 import { getLanguageNameByCode } from "./languageService";
-import { getGeminiResponseFile, getOssResponse } from "./modelService";
+import { extractTextFromFile } from "./modelService";
+import { generateStructured } from "./structuredOutput";
+import { formatPromptVersion, renderPrompt, type PromptId } from "./promptRegistry";
+import {
+  biologyProblemSchema,
+  chemistryProblemSchema,
+  mathProblemSchema,
+  physicsProblemSchema,
+  type GeneratedMathProblem,
+} from "./outputSchemas";
+import { IncrementalJsonArrayParser } from "../utils/incrementalJson";
+import { array, validate, type Validator } from "../utils/schema";
+import { getUserErrorMessage } from "./modelErrors";
+import { withResponseCache, type CacheOptions } from "./responseCache";
+import { hashFile } from "../utils/hash";
+import { isPdf, readPdfPages } from "../utils/pdfPages";
+import { splitTranscript } from "../utils/transcript";
+import { verifyProblem, type ProblemVerification } from "./stepVerification";
+
+export type Subject = 'math' | 'physics' | 'chemistry' | 'biology';
+
+// A physical quantity; `value` is left out for the unknowns
+export interface PhysicsQuantity {
+  symbol: string;
+  value?: string;
+  unit: string;
+  description?: string;
+}
+
+export interface KeyTerm {
+  term: string;
+  definition: string;
+}
+
+// One turn of a follow-up conversation with the tutor
+export interface TutorMessage {
+  role: 'student' | 'tutor';
+  content: string;
+  createdAt: string;
+}
+
+// Progress on one step in hint-first mode
+export interface StepPractice {
+  hints: number; // hints shown so far, see practiceService.getHints
+  attempts: number;
+  solved: boolean; // an attempt was checked as correct
+}
+
+// Progress on a problem in hint-first mode; missing until the student starts
+export interface PracticeProgress {
+  hintsUsed: number; // across all steps
+  revealed: boolean; // the full solution was shown
+  steps: StepPractice[];
+  answerAttempts?: number; // final answers checked, for practice variants
+  answerCorrect?: boolean;
+}
 
 // Define the structure for the math problems
 export interface MathStep {
@@ -7,6 +62,11 @@ export interface MathStep {
   description: string;
   equation: string;
   explanation: string;
+  unit?: string; // physics: unit of the step's result
+  reaction?: string; // chemistry: balanced equation used in this step
+  terms?: KeyTerm[]; // biology: terminology the step relies on
+  diagram?: string; // biology: labelled plain-text diagram
+  thread?: TutorMessage[]; // questions about this step
 }
 
 export interface MathProblem {
@@ -16,8 +76,58 @@ export interface MathProblem {
   steps: MathStep[];
   difficulty: 'Easy' | 'Medium' | 'Hard';
   topic: string;
+  subject?: Subject; // missing on problems solved before subjects existed, which were math
+  given?: PhysicsQuantity[]; // physics
+  find?: PhysicsQuantity[]; // physics
+  verification?: ProblemVerification; // recomputed on every solve, never cached
+  page?: number; // 1-based page of the uploaded PDF the problem was found on
+  thread?: TutorMessage[]; // questions about the problem as a whole
+  practice?: PracticeProgress;
+  variantOf?: string; // id of the solved problem this practice problem was generated from
+}
+
+// One problem as read from an uploaded image or PDF page, reviewed before it is solved
+export interface TranscriptProblem {
+  id: string;
+  fileName: string;
+  page?: number; // 1-based page of a PDF
+  text: string; // as read; the student can correct it
+  selected: boolean;
+  error?: string; // the file or page could not be read; there is no text
+}
+
+export interface VariantOptions {
+  count: number;
+  harder?: boolean; // one difficulty level up instead of the same difficulty
+  signal?: AbortSignal;
 }
 
+// Math keeps the original prompt id so pinned versions and cached answers carry over
+const SUBJECT_PROMPTS: Record<Subject, PromptId> = {
+  math: 'solver.solve',
+  physics: 'solver.physics',
+  chemistry: 'solver.chemistry',
+  biology: 'solver.biology',
+};
+
+const SUBJECT_SCHEMAS: Record<Subject, Validator<GeneratedMathProblem>> = {
+  math: mathProblemSchema,
+  physics: physicsProblemSchema,
+  chemistry: chemistryProblemSchema,
+  biology: biologyProblemSchema,
+};
+
+const HARDER: Record<MathProblem['difficulty'], MathProblem['difficulty']> = {
+  Easy: 'Medium',
+  Medium: 'Hard',
+  Hard: 'Hard',
+};
+
+/**
+ * Called with each problem as soon as its solution has finished streaming.
+ */
+export type ProblemHandler = (problem: MathProblem) => void;
+
 /**
  * A service class to interact with your FastAPI backend for solving math problems.
  */
@@ -26,148 +136,229 @@ export class SolverService {
   static analyzeProblems: any;
 
   /**
-   * Creates the detailed prompt that instructs the AI on how to format its response.
-   * This is sent to the backend along with the file.
+   * Streams the solver response, handing each finished problem to `onProblem`
+   * under the same id it will have in the final result. The full response is
+   * validated (and repaired if needed) before it is returned. A cached answer
+   * to the same text is returned without calling the model. Every problem is
+   * checked with `verifyProblem` so unverified steps can be flagged.
    */
-  private generatePrompt(problem:string,language:string): string {
-    return `
-You are an expert tutor in math, biology, physics, and chemistry. Analyze the uploaded document and:
-1. Identify ALL problems.
-2. For EACH problem, provide a detailed step-by-step solution. Explain to the user how to solve the problem correctly.
-3. Format your entire response as a single, valid JSON array with this exact structure:
-4. For "solution". Remember just state the correct answer only. If it is a mutiple choice. Then only select the correct choice (e.g., A. -5) 
-[
-  {
-    "id": "placeholder_id",
-    "question": "The exact math problem as written",
-    "solution": "Final answer (e.g., x = 4, y = 2x + 3, etc.)",
-    "difficulty": "Easy|Medium|Hard",
-    "topic": "Subject area (e.g., Algebra, Calculus, Geometry)",
-    "steps": [
-      {
-        "step": 1,
-        "description": "Brief description of what we're doing",
-        "equation": "Mathematical equation for this step",
-        "explanation": "Detailed explanation of why we do this step"
-      }
-    ]
+  private async solve(problem: string, subject: Subject, language: string, idPrefix: string, onProblem?: ProblemHandler, signal?: AbortSignal, cache?: CacheOptions): Promise<MathProblem[]> {
+    const schema = SUBJECT_SCHEMAS[subject];
+    const toProblem = (solved: GeneratedMathProblem, index: number): MathProblem => {
+      const result: MathProblem = { ...solved, id: `${idPrefix}_${index}`, subject };
+      return { ...result, verification: verifyProblem(result) };
+    };
+    const parser = new IncrementalJsonArrayParser<unknown>((streamed, index) => {
+      const { value, errors } = validate(schema, streamed);
+      if (errors.length === 0) onProblem?.(toProblem(value, index));
+    });
+    let received = 0;
+    const prompt = renderPrompt(SUBJECT_PROMPTS[subject], { problem, language: getLanguageNameByCode(language) }, { language });
+
+    const problems = await withResponseCache(
+      'solver',
+      { promptVersion: formatPromptVersion(prompt), inputs: { problem, subject }, language },
+      () => generateStructured('solver', prompt.text, array(schema), {
+        language,
+        signal,
+        onText: (text) => {
+          parser.push(text.slice(received));
+          received = text.length;
+        }
+      }),
+      cache
+    );
+    return problems.map(toProblem);
   }
-]
 
-UPLOADED PROBLEMS DOCUMENT:
-${problem}
+  /**
+   * Writes and solves `count` new problems like a solved one, with the same
+   * topic and difficulty or one level harder. Variants are new every time,
+   * so they are not cached. Each is verified like a solved problem.
+   */
+  async generateVariants(problem: MathProblem, language: string, { count, harder, signal }: VariantOptions): Promise<MathProblem[]> {
+    const subject = problem.subject || 'math';
+    const difficulty = harder ? HARDER[problem.difficulty] : problem.difficulty;
+    // Only the solution itself; tutor threads and practice progress stay out of the prompt
+    const original = {
+      question: problem.question,
+      solution: problem.solution,
+      difficulty: problem.difficulty,
+      topic: problem.topic,
+      given: problem.given,
+      find: problem.find,
+      steps: problem.steps.map(step => ({ ...step, thread: undefined })),
+    };
+    const prompt = renderPrompt('solver.variants', {
+      problem: JSON.stringify(original, null, 2),
+      count,
+      topic: problem.topic,
+      difficulty,
+      language: getLanguageNameByCode(language),
+    }, { language });
 
+    const variants = await generateStructured('solver', prompt.text, array(SUBJECT_SCHEMAS[subject]), { language, signal });
+    const idPrefix = `${problem.id}_variant_${Date.now()}`;
+    return variants.slice(0, count).map((variant, index) => {
+      const result: MathProblem = { ...variant, id: `${idPrefix}_${index}`, subject, topic: problem.topic, difficulty, variantOf: problem.id };
+      return { ...result, verification: verifyProblem(result) };
+    });
+  }
+
+  private errorProblem(id: string, question: string, subject: Subject, error: unknown, page?: number): MathProblem {
+    return {
+      id,
+      question,
+      solution: 'Error',
+      difficulty: 'Hard',
+      topic: 'Error',
+      subject,
+      page,
+      steps: [{
+        step: 1,
+        description: 'An error occurred',
+        equation: 'N/A',
+        explanation: getUserErrorMessage(error, 'An unknown error occurred during processing.'),
+      }],
+    };
+  }
 
-CRITICAL RULES:
-- **Primary Language:** Your entire response MUST be in ${language}. This is a strict requirement.
-- The output MUST be only a valid JSON array. Do not include any other text, explanations, or markdown formatting like \`\`\`json.
-- If no problems are found, return an empty array [].`;
+  private async readImage(file: File, language: string, signal?: AbortSignal, cache?: CacheOptions): Promise<string> {
+    return withResponseCache(
+      'ocr',
+      { inputs: { file: await hashFile(file) }, language },
+      () => extractTextFromFile(file, { language, signal }),
+      cache
+    );
+  }
+
+  private toTranscript(text: string, fileName: string, page?: number): TranscriptProblem[] {
+    const idPrefix = `${fileName}${page !== undefined ? `_p${page}` : ''}_${Date.now()}`;
+    return splitTranscript(text).map((part, index) => ({ id: `${idPrefix}_${index}`, fileName, page, text: part, selected: true }));
+  }
+
+  private transcriptError(fileName: string, error: unknown, page?: number): TranscriptProblem {
+    return {
+      id: `error_${fileName}${page !== undefined ? `_p${page}` : ''}_${Date.now()}`,
+      fileName,
+      page,
+      text: '',
+      selected: false,
+      error: getUserErrorMessage(error, 'An unknown error occurred while reading this file.'),
+    };
   }
 
   /**
-   * Cleans the AI's text response to ensure it's valid JSON.
-   * This removes potential markdown code blocks that the AI might add.
+   * Reads a PDF page by page: embedded text is used as is and only scanned
+   * pages go through OCR. A page that fails is reported without stopping
+   * the others.
    */
-private cleanJsonResponse(text: string): string {
-    // Add a guard clause to handle null, undefined, or other non-string inputs.
-    if (!text || typeof text !== 'string') {
-        return text; // Or return '{}' or throw an error, depending on desired behavior.
-    }
+  private async extractPdf(file: File, language: string, signal?: AbortSignal, cache?: CacheOptions): Promise<TranscriptProblem[]> {
+    const transcript: TranscriptProblem[] = [];
 
-    // 1. Clean the string by removing markdown code fences.
-    // The original try...catch is no longer necessary because we've validated the input.
-    let cleaned = text.trim();
-
-    if (cleaned.startsWith('```json')) {
-        cleaned = cleaned.substring(7);
-    } else if (cleaned.startsWith('```')) {
-        cleaned = cleaned.substring(3);
-    }
-    if (cleaned.endsWith('```')) {
-        cleaned = cleaned.slice(0, -3);
+    for (const page of await readPdfPages(file, signal)) {
+      try {
+        const text = page.image ? await this.readImage(page.image, language, signal, cache) : page.text;
+        transcript.push(...this.toTranscript(text, file.name, page.pageNumber));
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error(`Error reading page ${page.pageNumber} of ${file.name}:`, error);
+        transcript.push(this.transcriptError(file.name, error, page.pageNumber));
+      }
     }
-    cleaned = cleaned.trim();
-
-    // 2. Add a targeted fix for unescaped quotes followed by a letter (e.g., 27"F).
-    // This is now more specific to avoid breaking valid JSON.
-    const fixUnescapedQuotesRegex = /(\d)"([a-zA-Z])/g;
-    cleaned = cleaned.replace(fixUnescapedQuotesRegex, '$1\\"$2');
 
-    return cleaned;
-}
+    return transcript;
+  }
 
   /**
-   * Uploads files to the backend and returns the parsed math problems.
-   * @param files An array of File objects to be processed.
-   * @returns A promise that resolves to an array of MathProblem objects.
+   * The first phase of solving uploads: reads the images and PDFs and splits
+   * the text into numbered problems, so misread text can be corrected and
+   * problems left out before `solveTranscript` is called.
    */
-  async analyzeProblems(files: File[],language:string): Promise<MathProblem[]> {
-    const allProblems: MathProblem[] = [];
+  async extractTranscript(files: File[], language: string, signal?: AbortSignal, cache?: CacheOptions): Promise<TranscriptProblem[]> {
+    const transcript: TranscriptProblem[] = [];
 
     for (const file of files) {
       try {
-        const problem = await getGeminiResponseFile(file)
-        const solutionText = await getOssResponse(this.generatePrompt(problem,language))
-        // Clean and parse the JSON string returned from the backend
-        console.log("Test 2")
-
-        console.log(solutionText)
-        const cleanedText = this.cleanJsonResponse(solutionText);
-        try {
-          const problems = JSON.parse(cleanedText) as MathProblem[];
-          const validatedProblems = problems.map((problem, index) => ({
-            ...problem,
-            id: `${file.name}_${Date.now()}_${index}`, // Create a more robust unique ID
-          }));
-          allProblems.push(...validatedProblems);
-        } catch (parseError) {
-          console.error('Failed to parse backend response as JSON:', parseError);
-          throw new Error('The server response was not in the expected format.');
+        if (isPdf(file)) {
+          transcript.push(...await this.extractPdf(file, language, signal, cache));
+          continue;
         }
+        transcript.push(...this.toTranscript(await this.readImage(file, language, signal, cache), file.name));
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error(`Error reading file ${file.name}:`, error);
+        transcript.push(this.transcriptError(file.name, error));
+      }
+    }
 
+    return transcript;
+  }
+
+  /**
+   * The second phase: solves the selected problems of a reviewed transcript.
+   * Problems from the same image or page are solved together so shared
+   * instructions stay with them, and keep the page they came from. Sources
+   * that could not be read are reported as error entries.
+   */
+  async solveTranscript(transcript: TranscriptProblem[], language: string, subject: Subject = 'math', onProblem?: ProblemHandler, signal?: AbortSignal, cache?: CacheOptions): Promise<MathProblem[]> {
+    const allProblems: MathProblem[] = [];
+    const sources = new Map<string, TranscriptProblem[]>();
+    for (const item of transcript) {
+      if (!item.selected && !item.error) continue;
+      const key = `${item.fileName}|${item.page ?? ''}`;
+      sources.set(key, [...(sources.get(key) || []), item]);
+    }
+
+    for (const items of sources.values()) {
+      const { fileName, page } = items[0];
+      const source = page !== undefined ? `page ${page} of ${fileName}` : fileName;
+      const failed = items.find(item => item.error);
+      if (failed) {
+        allProblems.push(this.errorProblem(failed.id, `Failed to read ${source}`, subject, new Error(failed.error), page));
+        continue;
+      }
+
+      const withPage = (problem: MathProblem): MathProblem => (page !== undefined ? { ...problem, page } : problem);
+      const text = items.map(item => item.text.trim()).filter(Boolean).join('\n\n');
+      if (!text) continue;
+      try {
+        const idPrefix = `${fileName}${page !== undefined ? `_p${page}` : ''}_${Date.now()}`;
+        const solved = await this.solve(text, subject, language, idPrefix, problem => onProblem?.(withPage(problem)), signal, cache);
+        allProblems.push(...solved.map(withPage));
       } catch (error) {
-        console.error(`Error processing file ${file.name}:`, error);
-        // Add a descriptive error problem to the results list
-        allProblems.push({
-          id: `error_${file.name}_${Date.now()}`,
-          question: `Failed to process file: ${file.name}`,
-          solution: 'Error',
-          difficulty: 'Hard',
-          topic: 'Error',
-          steps: [{
-            step: 1,
-            description: 'An error occurred',
-            equation: 'N/A',
-            explanation: error instanceof Error ? error.message : 'An unknown error occurred during processing.',
-          }],
-        });
+        if (signal?.aborted) throw error;
+        console.error(`Error solving ${source}:`, error);
+        allProblems.push(this.errorProblem(`error_${items[0].id}`, `Failed to process ${source}`, subject, error, page));
       }
     }
 
     return allProblems;
   }
 
-  async analyzeProblemsText(problem:string,language:string): Promise<MathProblem[]> {
+  /**
+   * Reads the uploaded images and PDFs and returns the solved problems from
+   * all of them, without a review step in between.
+   * @param files An array of File objects to be processed.
+   * @param subject Selects the subject's prompt and step format.
+   * @param onProblem Optional callback for each problem as soon as it is solved.
+   * @param signal Optional abort signal; aborting stops processing and rejects.
+   * @param cache Optional cache options, e.g. `{ regenerate: true }` to ignore earlier answers.
+   * @returns A promise that resolves to an array of MathProblem objects.
+   */
+  async analyzeProblems(files: File[],language:string, subject: Subject = 'math', onProblem?: ProblemHandler, signal?: AbortSignal, cache?: CacheOptions): Promise<MathProblem[]> {
+    const transcript = await this.extractTranscript(files, language, signal, cache);
+    return this.solveTranscript(transcript, language, subject, onProblem, signal, cache);
+  }
+
+  async analyzeProblemsText(problem:string,language:string, subject: Subject = 'math', onProblem?: ProblemHandler, signal?: AbortSignal, cache?: CacheOptions): Promise<MathProblem[]> {
     const allProblems: MathProblem[] = [];
 
       try {
-        const solutionText = await getOssResponse(this.generatePrompt(problem,language))
-        // Clean and parse the JSON string returned from the backend
-        const cleanedText = this.cleanJsonResponse(solutionText);
-        console.log(cleanedText)
-        try {
-          const problems = JSON.parse(cleanedText) as MathProblem[];
-          const validatedProblems = problems.map((problem, index) => ({
-            ...problem,
-            id: `${Date.now()}_${index}`, // Create a more robust unique ID
-          }));
-          allProblems.push(...validatedProblems);
-        } catch (parseError) {
-          console.error('Failed to parse backend response as JSON:', parseError);
-          throw new Error('The server response was not in the expected format.');
-        }
-
+        const idPrefix = `${Date.now()}`;
+        allProblems.push(...await this.solve(problem, subject, language, idPrefix, onProblem, signal, cache));
       } catch (error) {
+        if (signal?.aborted) throw error;
         // Add a descriptive error problem to the results list
         allProblems.push({
           id: `error`,
@@ -175,11 +366,12 @@ private cleanJsonResponse(text: string): string {
           solution: 'Error',
           difficulty: 'Hard',
           topic: 'Error',
+          subject,
           steps: [{
             step: 1,
             description: 'An error occurred',
             equation: 'N/A',
-            explanation: error instanceof Error ? error.message : 'An unknown error occurred during processing.',
+            explanation: getUserErrorMessage(error, 'An unknown error occurred during processing.'),
           }],
         });
       }
@@ -0,0 +1,90 @@
+import { checkLocalProvider, setOfflineMode } from './modelService';
+
+/**
+ * `auto` follows the network; `online` and `offline` pin the mode.
+ */
+export type ConnectivityMode = 'auto' | 'online' | 'offline';
+
+export interface ConnectivityStatus {
+  mode: ConnectivityMode;
+  isOnline: boolean; // internet reachable
+  isOffline: boolean; // requests are being served by the local provider
+  localAvailable: boolean; // local provider answered its health check
+}
+
+const MODE_STORAGE_KEY = 'connectivityMode';
+const PROBE_URL = 'https://www.gstatic.com/generate_204';
+const PROBE_TIMEOUT_MS = 5000;
+
+export const getConnectivityMode = (): ConnectivityMode => {
+  const saved = localStorage.getItem(MODE_STORAGE_KEY);
+  return saved === 'online' || saved === 'offline' ? saved : 'auto';
+};
+
+export const saveConnectivityMode = (mode: ConnectivityMode) => {
+  localStorage.setItem(MODE_STORAGE_KEY, mode);
+};
+
+const isOfflineFor = (mode: ConnectivityMode, isOnline: boolean) => mode === 'offline' || (mode === 'auto' && !isOnline);
+
+// Bumped by every check and mode change, so a check that finishes late is dropped
+let latestCheck = 0;
+
+/**
+ * The status before any check has run, from the saved mode and
+ * navigator.onLine. It is applied to model routing right away, so requests
+ * made at startup or just after a mode change already respect a pinned mode,
+ * and checks still running for the previous mode are discarded.
+ */
+export const applySavedConnectivityMode = (): ConnectivityStatus => {
+  latestCheck++;
+  const mode = getConnectivityMode();
+  const isOnline = navigator.onLine;
+  const isOffline = isOfflineFor(mode, isOnline);
+  setOfflineMode(isOffline);
+  return { mode, isOnline, isOffline, localAvailable: false };
+};
+
+/**
+ * navigator.onLine only knows about the network adapter, so confirm with a
+ * real request. `no-cors` keeps the probe working from any origin.
+ */
+export const checkInternetConnection = async (): Promise<boolean> => {
+  if (!navigator.onLine) {
+    return false;
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  try {
+    await fetch(PROBE_URL, { method: 'HEAD', mode: 'no-cors', cache: 'no-store', signal: controller.signal });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Checks the local provider and, in `auto` mode, the internet, then switches
+ * model routing to match the mode. A pinned mode never probes the internet,
+ * so `offline` sends nothing off the device. Resolves to null when a newer
+ * check or a mode change overtook this one while it was waiting.
+ */
+export const refreshConnectivity = async (): Promise<ConnectivityStatus | null> => {
+  const check = ++latestCheck;
+  const mode = getConnectivityMode();
+  const [isOnline, localAvailable] = await Promise.all([
+    mode === 'auto' ? checkInternetConnection() : Promise.resolve(navigator.onLine),
+    checkLocalProvider(),
+  ]);
+  if (check !== latestCheck || mode !== getConnectivityMode()) {
+    return null;
+  }
+
+  const isOffline = isOfflineFor(mode, isOnline);
+  setOfflineMode(isOffline);
+
+  return { mode, isOnline, isOffline, localAvailable };
+};
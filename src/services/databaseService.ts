@@ -1,12 +1,16 @@
 import Dexie, { Table } from 'dexie';
 import { ExamSeries, SimulatorExam, SimulatorSettings } from './examSimulatorService';
 import { GeneratedExam, ExamSettings } from './practiceExamService';
+import type { MathProblem, Subject } from './SolverService';
+import type { ExamAnswer, GradeStatus, RubricCriterion } from './gradingService';
+import type { ExamPacing, ExamTimingRules } from './examTimingService';
 
 export interface StoredExamSeries {
   id: string;
   topic: string;
   description: string;
   totalExams: number;
+  generatedExams?: number; // fewer than totalExams when generation was cancelled; missing on older records
   settings: SimulatorSettings;
   time: number;
   createdAt: string;
@@ -27,6 +31,7 @@ export interface StoredExam {
   score?: number; // User's score (0-100)
   completedAt?: string; // When exam was completed
   timeTaken?: number; // Time taken in seconds
+  promptVersion?: string; // e.g. "examSimulator.exam@1"; missing on older records
   createdAt: string;
 }
 
@@ -54,14 +59,173 @@ export interface StoredLearningPath {
   totalEstimatedTime: string;
   difficulty: string;
   stepsData: string; // JSON string of LearningStep[]
+  promptVersion?: string; // e.g. "learningRoad.path@1"; missing on older records
   createdAt: string;
 }
 
+export interface StoredCachedResponse {
+  key: string; // hash of provider, model, prompt version, inputs and language
+  inputKey: string; // the same without provider and model, used to find answers offline
+  feature: string;
+  providerId: string;
+  model: string;
+  promptVersion?: string;
+  language?: string;
+  value: string; // JSON string of the cached result
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface StoredUsageRecord {
+  id?: number;
+  day: string; // local date, YYYY-MM-DD
+  feature: string;
+  providerId: string;
+  local: boolean; // ran on a local model, which budgets ignore
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  tokensEstimated: boolean; // the provider did not report usage, so tokens were estimated from text length
+  latencyMs: number;
+  cost: number; // estimated, in USD
+  success: boolean;
+  errorKind?: string;
+  createdAt: string;
+}
+
+export interface SolverSource {
+  name: string;
+  type: string; // MIME type of the uploaded file
+  thumbnail?: string; // small JPEG data URL; missing for PDFs
+}
+
+export interface SolverSession {
+  id: string;
+  title: string;
+  subject: Subject;
+  language: string;
+  sources: SolverSource[]; // uploaded files; empty for typed problems
+  sourceText?: string; // the typed problem text
+  problems: MathProblem[];
+  createdAt: Date;
+}
+
+export interface StoredSolverSession {
+  id: string;
+  title: string;
+  subject: string;
+  language: string;
+  sources: SolverSource[];
+  sourceText?: string;
+  problemsData: string; // JSON string of MathProblem[] without verification
+  topics: string[]; // distinct problem topics, used as tags
+  searchText: string; // lowercased questions, answers, steps and source text for full-text search
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A personal set of practice problems, e.g. variants generated in the Solver
+export interface ProblemSet {
+  id: string;
+  name: string;
+  problems: MathProblem[];
+  createdAt: Date;
+}
+
+export interface StoredProblemSet {
+  id: string;
+  name: string;
+  problemsData: string; // JSON string of MathProblem[] without verification
+  problemCount: number;
+  topics: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One question of a submitted simulator exam
+export interface AttemptAnswer {
+  questionId: string;
+  answer: ExamAnswer;
+  status: GradeStatus;
+  earned: number;
+  points: number;
+  timeSpent: number; // seconds the question was on screen
+  flagged?: boolean; // marked for review while taking the exam
+  feedback?: string;
+  rubric?: RubricCriterion[]; // for answers graded by the model
+}
+
+// Every submission of a simulator exam is kept, so retakes add to the history
+export interface ExamAttempt {
+  id: string;
+  examId: string;
+  seriesId: string;
+  score: number; // 0-100
+  earnedPoints: number;
+  totalPoints: number;
+  timeTaken: number; // seconds
+  answers: AttemptAnswer[];
+  pacing?: ExamPacing; // missing on attempts from before exam timing rules
+  startedAt: Date;
+  completedAt: Date;
+}
+
+export interface StoredExamAttempt {
+  id: string;
+  examId: string;
+  seriesId: string;
+  score: number;
+  earnedPoints: number;
+  totalPoints: number;
+  timeTaken: number;
+  answersData: string; // JSON string of AttemptAnswer[]
+  pacingData?: string; // JSON string of ExamPacing
+  startedAt: string;
+  completedAt: string;
+}
+
+// The progress of a simulator exam that has been started but not submitted, one per exam
+export interface ExamCheckpoint {
+  examId: string;
+  seriesId: string;
+  currentQuestionIndex: number;
+  answers: ExamAnswer[];
+  timeSpent: number[]; // seconds on each question so far
+  flagged: boolean[];
+  startedAt: Date;
+  pausedMs: number; // time in finished pauses, not counted against the time limit
+  pausedAt?: Date; // set while the exam is paused
+  rules?: ExamTimingRules; // missing on checkpoints from before exam timing rules
+  sectionEnteredAt?: number[]; // seconds into the exam at which each timed section was reached
+  warningsShown?: number[];
+  savedAt: Date;
+}
+
+export interface StoredExamCheckpoint {
+  examId: string;
+  seriesId: string;
+  currentQuestionIndex: number;
+  answersData: string; // JSON string of ExamAnswer[]
+  timeSpent: number[];
+  flagged: boolean[];
+  startedAt: string;
+  pausedMs: number;
+  pausedAt?: string;
+  timingData?: string; // JSON string of the rules, section times and warnings shown
+  savedAt: string;
+}
+
 class ExamDatabase extends Dexie {
   examSeries!: Table<StoredExamSeries>;
   simulatorExams!: Table<StoredExam>;
   practiceExams!: Table<StoredPracticeExam>;
   learningPaths!: Table<StoredLearningPath>;
+  responseCache!: Table<StoredCachedResponse>;
+  usageRecords!: Table<StoredUsageRecord>;
+  solverSessions!: Table<StoredSolverSession>;
+  problemSets!: Table<StoredProblemSet>;
+  examAttempts!: Table<StoredExamAttempt>;
+  examCheckpoints!: Table<StoredExamCheckpoint>;
 
   constructor() {
     super('ExamDatabase');
@@ -72,6 +236,30 @@ class ExamDatabase extends Dexie {
       practiceExams: 'id, difficulty, createdAt',
       learningPaths: 'id, topic, createdAt'
     });
+
+    this.version(2).stores({
+      responseCache: 'key, inputKey, feature, expiresAt'
+    });
+
+    this.version(3).stores({
+      usageRecords: '++id, day, feature, createdAt'
+    });
+
+    this.version(4).stores({
+      solverSessions: 'id, subject, *topics, createdAt'
+    });
+
+    this.version(5).stores({
+      problemSets: 'id, name, updatedAt'
+    });
+
+    this.version(6).stores({
+      examAttempts: 'id, examId, seriesId, completedAt'
+    });
+
+    this.version(7).stores({
+      examCheckpoints: 'examId, seriesId, savedAt'
+    });
   }
 }
 
@@ -92,6 +280,7 @@ export class DatabaseService {
           topic: examSeries.topic,
           description: examSeries.description,
           totalExams: examSeries.totalExams,
+          generatedExams: examSeries.exams.length,
           settings: settings,
           time: time,
           createdAt: examSeries.createdAt.toISOString(),
@@ -100,22 +289,7 @@ export class DatabaseService {
 
         // Save all exams in the series
         for (const exam of examSeries.exams) {
-          await this.db.simulatorExams.put({
-            id: exam.id,
-            seriesId: examSeries.id,
-            title: exam.title,
-            description: exam.description,
-            instructions: exam.instructions,
-            totalPoints: exam.totalPoints,
-            estimatedTime: exam.estimatedTime,
-            difficultyLevel: exam.difficultyLevel,
-            difficultyLabel: exam.difficultyLabel,
-            questionsData: JSON.stringify(exam.questions),
-            score: undefined,
-            completedAt: undefined,
-            timeTaken: undefined,
-            createdAt: exam.createdAt.toISOString()
-          });
+          await this.db.simulatorExams.put(this.toStoredExam(exam, examSeries.id));
         }
       });
     } catch (error) {
@@ -124,6 +298,48 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Store the newly generated levels of a resumed series, leaving the
+   * scores of levels that were already taken untouched.
+   */
+  async addExamsToSeries(examSeries: ExamSeries): Promise<void> {
+    try {
+      await this.db.transaction('rw', this.db.examSeries, this.db.simulatorExams, async () => {
+        const existing = await this.db.simulatorExams.where('seriesId').equals(examSeries.id).primaryKeys();
+        const newExams = examSeries.exams.filter(exam => !existing.includes(exam.id));
+
+        await this.db.simulatorExams.bulkPut(newExams.map(exam => this.toStoredExam(exam, examSeries.id)));
+        await this.db.examSeries.update(examSeries.id, {
+          generatedExams: examSeries.exams.length,
+          updatedAt: new Date().toISOString()
+        });
+      });
+    } catch (error) {
+      console.error('Error adding exams to series:', error);
+      throw error;
+    }
+  }
+
+  private toStoredExam(exam: SimulatorExam, seriesId: string): StoredExam {
+    return {
+      id: exam.id,
+      seriesId: seriesId,
+      title: exam.title,
+      description: exam.description,
+      instructions: exam.instructions,
+      totalPoints: exam.totalPoints,
+      estimatedTime: exam.estimatedTime,
+      difficultyLevel: exam.difficultyLevel,
+      difficultyLabel: exam.difficultyLabel,
+      questionsData: JSON.stringify(exam.questions),
+      score: undefined,
+      completedAt: undefined,
+      timeTaken: undefined,
+      promptVersion: exam.promptVersion,
+      createdAt: exam.createdAt.toISOString()
+    };
+  }
+
   async getAllExamSeries(): Promise<StoredExamSeries[]> {
     try {
       const series = await this.db.examSeries.orderBy('createdAt').reverse().toArray();
@@ -154,7 +370,11 @@ export class DatabaseService {
         estimatedTime: exam.estimatedTime,
         difficultyLevel: exam.difficultyLevel,
         difficultyLabel: exam.difficultyLabel,
-        createdAt: new Date(exam.createdAt)
+        createdAt: new Date(exam.createdAt),
+        score: exam.score,
+        completedAt: exam.completedAt,
+        timeTaken: exam.timeTaken,
+        promptVersion: exam.promptVersion
       }));
 
       return {
@@ -173,7 +393,9 @@ export class DatabaseService {
 
   async deleteExamSeries(seriesId: string): Promise<void> {
     try {
-      await this.db.transaction('rw', this.db.examSeries, this.db.simulatorExams, async () => {
+      await this.db.transaction('rw', [this.db.examSeries, this.db.simulatorExams, this.db.examAttempts, this.db.examCheckpoints], async () => {
+        await this.db.examAttempts.where('seriesId').equals(seriesId).delete();
+        await this.db.examCheckpoints.where('seriesId').equals(seriesId).delete();
         await this.db.simulatorExams.where('seriesId').equals(seriesId).delete();
         await this.db.examSeries.delete(seriesId);
       });
@@ -200,6 +422,127 @@ export class DatabaseService {
     }
   }
 
+  // Exam Attempt Methods
+  async saveExamAttempt(attempt: ExamAttempt): Promise<void> {
+    try {
+      await this.db.examAttempts.put({
+        id: attempt.id,
+        examId: attempt.examId,
+        seriesId: attempt.seriesId,
+        score: attempt.score,
+        earnedPoints: attempt.earnedPoints,
+        totalPoints: attempt.totalPoints,
+        timeTaken: attempt.timeTaken,
+        answersData: JSON.stringify(attempt.answers),
+        pacingData: attempt.pacing && JSON.stringify(attempt.pacing),
+        startedAt: attempt.startedAt.toISOString(),
+        completedAt: attempt.completedAt.toISOString()
+      });
+    } catch (error) {
+      console.error('Error saving exam attempt:', error);
+      throw error;
+    }
+  }
+
+  private fromStoredAttempt(attempt: StoredExamAttempt): ExamAttempt {
+    return {
+      id: attempt.id,
+      examId: attempt.examId,
+      seriesId: attempt.seriesId,
+      score: attempt.score,
+      earnedPoints: attempt.earnedPoints,
+      totalPoints: attempt.totalPoints,
+      timeTaken: attempt.timeTaken,
+      answers: JSON.parse(attempt.answersData),
+      pacing: attempt.pacingData ? JSON.parse(attempt.pacingData) : undefined,
+      startedAt: new Date(attempt.startedAt),
+      completedAt: new Date(attempt.completedAt)
+    };
+  }
+
+  /**
+   * All attempts at the exams of a series, oldest first.
+   */
+  async getSeriesAttempts(seriesId: string): Promise<ExamAttempt[]> {
+    try {
+      const attempts = await this.db.examAttempts.where('seriesId').equals(seriesId).sortBy('completedAt');
+      return attempts.map(attempt => this.fromStoredAttempt(attempt));
+    } catch (error) {
+      console.error('Error getting exam attempts:', error);
+      return [];
+    }
+  }
+
+  async getExamAttempts(examId: string): Promise<ExamAttempt[]> {
+    try {
+      const attempts = await this.db.examAttempts.where('examId').equals(examId).sortBy('completedAt');
+      return attempts.map(attempt => this.fromStoredAttempt(attempt));
+    } catch (error) {
+      console.error('Error getting exam attempts:', error);
+      return [];
+    }
+  }
+
+  // Exam Checkpoint Methods
+  async saveExamCheckpoint(checkpoint: ExamCheckpoint): Promise<void> {
+    try {
+      await this.db.examCheckpoints.put({
+        examId: checkpoint.examId,
+        seriesId: checkpoint.seriesId,
+        currentQuestionIndex: checkpoint.currentQuestionIndex,
+        answersData: JSON.stringify(checkpoint.answers),
+        timeSpent: checkpoint.timeSpent,
+        flagged: checkpoint.flagged,
+        startedAt: checkpoint.startedAt.toISOString(),
+        pausedMs: checkpoint.pausedMs,
+        pausedAt: checkpoint.pausedAt?.toISOString(),
+        timingData: JSON.stringify({
+          rules: checkpoint.rules,
+          sectionEnteredAt: checkpoint.sectionEnteredAt,
+          warningsShown: checkpoint.warningsShown
+        }),
+        savedAt: checkpoint.savedAt.toISOString()
+      });
+    } catch (error) {
+      console.error('Error saving exam checkpoint:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The exams of a series that were started and not submitted, most recent first.
+   */
+  async getSeriesCheckpoints(seriesId: string): Promise<ExamCheckpoint[]> {
+    try {
+      const checkpoints = await this.db.examCheckpoints.where('seriesId').equals(seriesId).reverse().sortBy('savedAt');
+      return checkpoints.map(checkpoint => ({
+        examId: checkpoint.examId,
+        seriesId: checkpoint.seriesId,
+        currentQuestionIndex: checkpoint.currentQuestionIndex,
+        answers: JSON.parse(checkpoint.answersData),
+        timeSpent: checkpoint.timeSpent,
+        flagged: checkpoint.flagged,
+        startedAt: new Date(checkpoint.startedAt),
+        pausedMs: checkpoint.pausedMs,
+        pausedAt: checkpoint.pausedAt ? new Date(checkpoint.pausedAt) : undefined,
+        ...(checkpoint.timingData ? JSON.parse(checkpoint.timingData) : {}),
+        savedAt: new Date(checkpoint.savedAt)
+      }));
+    } catch (error) {
+      console.error('Error getting exam checkpoints:', error);
+      return [];
+    }
+  }
+
+  async deleteExamCheckpoint(examId: string): Promise<void> {
+    try {
+      await this.db.examCheckpoints.delete(examId);
+    } catch (error) {
+      console.error('Error deleting exam checkpoint:', error);
+      throw error;
+    }
+  }
+
   // Practice Exam Methods
   async savePracticeExam(exam: GeneratedExam, settings: ExamSettings): Promise<void> {
     try {
@@ -296,6 +639,7 @@ export class DatabaseService {
         totalEstimatedTime: learningPath.totalEstimatedTime,
         difficulty: learningPath.difficulty,
         stepsData: JSON.stringify(learningPath.steps),
+        promptVersion: learningPath.promptVersion,
         createdAt: learningPath.createdAt || new Date().toISOString()
       });
     } catch (error) {
@@ -329,6 +673,7 @@ export class DatabaseService {
         totalEstimatedTime: path.totalEstimatedTime,
         difficulty: path.difficulty,
         steps: steps,
+        promptVersion: path.promptVersion,
         createdAt: path.createdAt
       };
     } catch (error) {
@@ -346,35 +691,344 @@ export class DatabaseService {
     }
   }
 
+  // Solver Session Methods
+  private toStoredProblems(problems: MathProblem[]): MathProblem[] {
+    // Verification is recomputed when a session is reopened
+    return problems.map(problem => ({ ...problem, verification: undefined }));
+  }
+
+  private toSearchText(session: Pick<SolverSession, 'title' | 'sourceText' | 'sources' | 'problems'>): string {
+    return [
+      session.title,
+      session.sourceText || '',
+      ...session.sources.map(source => source.name),
+      ...session.problems.flatMap(problem => [
+        problem.question,
+        problem.solution,
+        problem.topic,
+        ...problem.steps.flatMap(step => [step.description, step.equation, step.explanation]),
+      ]),
+    ].join('\n').toLowerCase();
+  }
+
+  private toTopics(problems: MathProblem[]): string[] {
+    return Array.from(new Set(problems.filter(problem => problem.topic !== 'Error').map(problem => problem.topic.trim()).filter(Boolean)));
+  }
+
+  async saveSolverSession(session: SolverSession): Promise<void> {
+    try {
+      await this.db.solverSessions.put({
+        id: session.id,
+        title: session.title,
+        subject: session.subject,
+        language: session.language,
+        sources: session.sources,
+        sourceText: session.sourceText,
+        problemsData: JSON.stringify(this.toStoredProblems(session.problems)),
+        topics: this.toTopics(session.problems),
+        searchText: this.toSearchText(session),
+        createdAt: session.createdAt.toISOString(),
+        updatedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error saving solver session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the problems of a saved session, e.g. after a tutor conversation.
+   */
+  async updateSolverSessionProblems(sessionId: string, problems: MathProblem[]): Promise<void> {
+    try {
+      await this.db.solverSessions.update(sessionId, {
+        problemsData: JSON.stringify(this.toStoredProblems(problems)),
+        updatedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error updating solver session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Past sessions, newest first. Every word of `query` must appear somewhere
+   * in the session; `topic` narrows the list to sessions tagged with it.
+   */
+  async searchSolverSessions(query = '', topic?: string): Promise<StoredSolverSession[]> {
+    try {
+      const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+      const sessions = topic
+        ? this.db.solverSessions.where('topics').equals(topic)
+        : this.db.solverSessions.toCollection();
+      const matches = await sessions.filter(session => words.every(word => session.searchText.includes(word))).toArray();
+      return matches.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+      console.error('Error searching solver sessions:', error);
+      return [];
+    }
+  }
+
+  async getSolverSession(sessionId: string): Promise<SolverSession | null> {
+    try {
+      const session = await this.db.solverSessions.get(sessionId);
+      if (!session) return null;
+
+      return {
+        id: session.id,
+        title: session.title,
+        subject: session.subject as Subject,
+        language: session.language,
+        sources: session.sources,
+        sourceText: session.sourceText,
+        problems: JSON.parse(session.problemsData),
+        createdAt: new Date(session.createdAt)
+      };
+    } catch (error) {
+      console.error('Error getting solver session:', error);
+      return null;
+    }
+  }
+
+  async deleteSolverSession(sessionId: string): Promise<void> {
+    try {
+      await this.db.solverSessions.delete(sessionId);
+    } catch (error) {
+      console.error('Error deleting solver session:', error);
+      throw error;
+    }
+  }
+
+  // Problem Set Methods
+  async saveProblemSet(set: ProblemSet): Promise<void> {
+    try {
+      await this.db.problemSets.put({
+        id: set.id,
+        name: set.name,
+        problemsData: JSON.stringify(this.toStoredProblems(set.problems)),
+        problemCount: set.problems.length,
+        topics: this.toTopics(set.problems),
+        createdAt: set.createdAt.toISOString(),
+        updatedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error saving problem set:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adds problems to a saved set; problems already in it are left as they are.
+   */
+  async addProblemsToSet(setId: string, problems: MathProblem[]): Promise<void> {
+    try {
+      const set = await this.getProblemSet(setId);
+      if (!set) {
+        throw new Error('Problem set not found');
+      }
+      const existing = new Set(set.problems.map(problem => problem.id));
+      await this.saveProblemSet({ ...set, problems: [...set.problems, ...problems.filter(problem => !existing.has(problem.id))] });
+    } catch (error) {
+      console.error('Error adding problems to set:', error);
+      throw error;
+    }
+  }
+
+  async getAllProblemSets(): Promise<StoredProblemSet[]> {
+    try {
+      return await this.db.problemSets.orderBy('updatedAt').reverse().toArray();
+    } catch (error) {
+      console.error('Error getting problem sets:', error);
+      return [];
+    }
+  }
+
+  async getProblemSet(setId: string): Promise<ProblemSet | null> {
+    try {
+      const set = await this.db.problemSets.get(setId);
+      if (!set) return null;
+
+      return {
+        id: set.id,
+        name: set.name,
+        problems: JSON.parse(set.problemsData),
+        createdAt: new Date(set.createdAt)
+      };
+    } catch (error) {
+      console.error('Error getting problem set:', error);
+      return null;
+    }
+  }
+
+  async deleteProblemSet(setId: string): Promise<void> {
+    try {
+      await this.db.problemSets.delete(setId);
+    } catch (error) {
+      console.error('Error deleting problem set:', error);
+      throw error;
+    }
+  }
+
+  // Response Cache Methods
+  async getCachedResponse(key: string): Promise<StoredCachedResponse | null> {
+    try {
+      const entry = await this.db.responseCache.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= new Date().toISOString()) {
+        await this.db.responseCache.delete(key);
+        return null;
+      }
+      return entry;
+    } catch (error) {
+      console.error('Error reading cached response:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The newest unexpired answer to the same request from any provider.
+   */
+  async findCachedResponseByInput(inputKey: string): Promise<StoredCachedResponse | null> {
+    try {
+      const now = new Date().toISOString();
+      const entries = await this.db.responseCache.where('inputKey').equals(inputKey).toArray();
+      const fresh = entries.filter(entry => entry.expiresAt > now);
+      fresh.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      return fresh[0] || null;
+    } catch (error) {
+      console.error('Error reading cached response:', error);
+      return null;
+    }
+  }
+
+  async saveCachedResponse(entry: StoredCachedResponse): Promise<void> {
+    try {
+      await this.db.responseCache.put(entry);
+    } catch (error) {
+      console.error('Error saving cached response:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drops every provider's answer to one request.
+   */
+  async deleteCachedResponses(inputKey: string): Promise<void> {
+    try {
+      await this.db.responseCache.where('inputKey').equals(inputKey).delete();
+    } catch (error) {
+      console.error('Error deleting cached responses:', error);
+      throw error;
+    }
+  }
+
+  async clearResponseCache(feature?: string): Promise<void> {
+    try {
+      if (feature) {
+        await this.db.responseCache.where('feature').equals(feature).delete();
+      } else {
+        await this.db.responseCache.clear();
+      }
+    } catch (error) {
+      console.error('Error clearing response cache:', error);
+      throw error;
+    }
+  }
+
+  async purgeExpiredResponses(): Promise<number> {
+    try {
+      return await this.db.responseCache.where('expiresAt').belowOrEqual(new Date().toISOString()).delete();
+    } catch (error) {
+      console.error('Error purging expired responses:', error);
+      return 0;
+    }
+  }
+
+  async getResponseCacheStats(): Promise<Record<string, number>> {
+    try {
+      const stats: Record<string, number> = {};
+      await this.db.responseCache.each(entry => {
+        stats[entry.feature] = (stats[entry.feature] || 0) + 1;
+      });
+      return stats;
+    } catch (error) {
+      console.error('Error getting response cache stats:', error);
+      return {};
+    }
+  }
+
+  // Usage Methods
+  async addUsageRecord(record: StoredUsageRecord): Promise<void> {
+    try {
+      await this.db.usageRecords.add(record);
+    } catch (error) {
+      console.error('Error saving usage record:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every usage record from `day` (YYYY-MM-DD) onwards.
+   */
+  async getUsageRecordsSince(day: string): Promise<StoredUsageRecord[]> {
+    try {
+      return await this.db.usageRecords.where('day').aboveOrEqual(day).toArray();
+    } catch (error) {
+      console.error('Error getting usage records:', error);
+      return [];
+    }
+  }
+
+  async clearUsageRecords(): Promise<void> {
+    try {
+      await this.db.usageRecords.clear();
+    } catch (error) {
+      console.error('Error clearing usage records:', error);
+      throw error;
+    }
+  }
+
   // Utility Methods
-  async getStorageStats(): Promise<{ examSeries: number; simulatorExams: number; practiceExams: number; learningPaths: number }> {
+  async getStorageStats(): Promise<{ examSeries: number; simulatorExams: number; practiceExams: number; learningPaths: number; solverSessions: number; problemSets: number; examAttempts: number }> {
     try {
-      const [seriesCount, simulatorCount, practiceCount, pathsCount] = await Promise.all([
+      const [seriesCount, simulatorCount, practiceCount, pathsCount, sessionsCount, setsCount, attemptsCount] = await Promise.all([
         this.db.examSeries.count(),
         this.db.simulatorExams.count(),
         this.db.practiceExams.count(),
-        this.db.learningPaths.count()
+        this.db.learningPaths.count(),
+        this.db.solverSessions.count(),
+        this.db.problemSets.count(),
+        this.db.examAttempts.count()
       ]);
 
       return {
         examSeries: seriesCount,
         simulatorExams: simulatorCount,
         practiceExams: practiceCount,
-        learningPaths: pathsCount
+        learningPaths: pathsCount,
+        solverSessions: sessionsCount,
+        problemSets: setsCount,
+        examAttempts: attemptsCount
       };
     } catch (error) {
       console.error('Error getting storage stats:', error);
-      return { examSeries: 0, simulatorExams: 0, practiceExams: 0, learningPaths: 0 };
+      return { examSeries: 0, simulatorExams: 0, practiceExams: 0, learningPaths: 0, solverSessions: 0, problemSets: 0, examAttempts: 0 };
     }
   }
 
   async clearAllData(): Promise<void> {
     try {
-      await this.db.transaction('rw', this.db.examSeries, this.db.simulatorExams, this.db.practiceExams, this.db.learningPaths, async () => {
+      await this.db.transaction('rw', [this.db.examSeries, this.db.simulatorExams, this.db.practiceExams, this.db.learningPaths, this.db.responseCache, this.db.usageRecords, this.db.solverSessions, this.db.problemSets, this.db.examAttempts, this.db.examCheckpoints], async () => {
         await this.db.simulatorExams.clear();
         await this.db.examSeries.clear();
         await this.db.practiceExams.clear();
         await this.db.learningPaths.clear();
+        await this.db.responseCache.clear();
+        await this.db.usageRecords.clear();
+        await this.db.solverSessions.clear();
+        await this.db.problemSets.clear();
+        await this.db.examAttempts.clear();
+        await this.db.examCheckpoints.clear();
       });
     } catch (error) {
       console.error('Error clearing all data:', error);
@@ -1,5 +1,12 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { getGeminiResponse, getOssResponse } from './modelService';
+import { generateText, streamText } from './modelService';
+import { generateStructured } from './structuredOutput';
+import { formatPromptVersion, renderPrompt } from './promptRegistry';
+import { examQuestionSchema, examSchema } from './outputSchemas';
+import { IncrementalJsonArrayParser } from '../utils/incrementalJson';
+import { validate } from '../utils/schema';
+import { getLanguageNameByCode } from './languageService';
+import type { AttemptAnswer, ExamAttempt, ProblemSet } from './databaseService';
 
 // Initialize Gemini AI
 const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
@@ -26,7 +33,10 @@ export interface SimulatorExam {
   difficultyLevel: number; // 1-7
   difficultyLabel: string;
   createdAt: Date;
-  score: number;
+  score?: number; // set once the exam is taken; the latest attempt's score
+  completedAt?: string; // when the latest attempt was submitted
+  timeTaken?: number; // seconds the latest attempt took
+  promptVersion?: string; // prompt template that produced it, e.g. "examSimulator.exam@1"
 }
 
 export interface ExamSeries {
@@ -44,6 +54,22 @@ export interface SimulatorSettings {
   timePerExam?: number; // Optional, will be determined from uploaded exam
 }
 
+export interface ExamGenerationProgress {
+  level: number; // level currently being generated
+  totalLevels: number;
+  questions: SimulatorQuestion[]; // questions of the current level received so far
+  series: ExamSeries; // the series with every level finished so far
+}
+
+// Missed questions listed per level in the performance analysis prompt
+const MAX_MISSED_PER_LEVEL = 5;
+
+export interface ExamGenerationOptions {
+  onProgress?: (progress: ExamGenerationProgress) => void;
+  signal?: AbortSignal;
+  resumeFrom?: ExamSeries; // a partially generated series to continue
+}
+
 export class ExamSimulatorService {
   private model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
 
@@ -133,154 +159,6 @@ export class ExamSimulatorService {
     return configs[level] || configs[1];
   }
 
-  /**
-   * Create the prompt for exam series generation
-   */
-  private createExamSeriesPrompt(
-    description: string,
-    settings: SimulatorSettings,
-    hasUploadedFiles: boolean,
-    examLevel: number
-  ): string {
-    const difficultyConfig = this.getDifficultyConfig(examLevel);
-    
-    return `You are an expert exam creator and educational assessment specialist. ${hasUploadedFiles ? 'CAREFULLY ANALYZE the uploaded exam/study materials first. Study the question types, difficulty level, subject matter, cognitive complexity, and assessment style of the original exam.' : ''} 
-
-Create a comprehensive practice exam for LEVEL ${examLevel} of ${settings.numberOfExams} total exams with PROGRESSIVE DIFFICULTY.
-
-EXAM DESCRIPTION: "${description}"
-
-DIFFICULTY LEVEL ${examLevel}: ${difficultyConfig.label}
-COMPLEXITY INSTRUCTION: ${difficultyConfig.complexity}
-COGNITIVE LEVEL: ${difficultyConfig.cognitiveLevel}
-DESCRIPTION: ${difficultyConfig.description}
-
-EXAM REQUIREMENTS:
-- Number of questions: ANALYZE the uploaded exam to determine appropriate question count (typically 15-25 questions)
-- Question types: MATCH the question types found in the uploaded exam (multiple choice, short answer, essay, etc.)
-- Time limit: CALCULATE appropriate time based on question count and complexity (typically 1-3 minutes per question)
-- Difficulty Level: ${examLevel}/7 (${difficultyConfig.label})
-
-${hasUploadedFiles ? `
-CRITICAL ANALYSIS REQUIREMENTS:
-1. CONTENT ANALYSIS: Identify all topics, concepts, and subject areas covered in the uploaded exam
-2. STYLE ANALYSIS: Study the question format, wording style, and presentation approach
-3. DIFFICULTY ANALYSIS: Assess the cognitive level, question count, and time allocation from the original exam
-4. PATTERN RECOGNITION: Identify question patterns, common structures, and assessment methods
-5. SCOPE ANALYSIS: Understand the breadth and depth of content coverage
-
-PROGRESSIVE DIFFICULTY STRATEGY:
-- Base ALL questions on content and concepts from the uploaded exam
-- Maintain the same subject matter and topic areas across all levels
-- MATCH the question count and time allocation style of the original exam
-- USE the same question types found in the uploaded exam
-- Level ${examLevel} should be ${difficultyConfig.complexity}
-- Ensure questions test the same learning objectives but at Level ${examLevel} complexity
-- Use the cognitive level: ${difficultyConfig.cognitiveLevel}
-` : `
-DIFFICULTY PROGRESSION STRATEGY:
-- Create questions appropriate for Level ${examLevel} difficulty
-- Use standard academic question counts (15-25 questions)
-- Set appropriate time limits (45-90 minutes typical)
-- Include variety of question types (multiple choice, short answer, essay)
-- Focus on ${difficultyConfig.cognitiveLevel} cognitive skills
-- ${difficultyConfig.complexity}
-- Ensure educational value and clear learning objectives
-`}
-
-FORMAT YOUR RESPONSE AS JSON:
-
-{
-  "title": "Level ${examLevel}: ${difficultyConfig.label} - [Subject] Practice Exam",
-  "description": "Level ${examLevel} exam focusing on ${difficultyConfig.description}",
-  "instructions": "Clear instructions for taking this Level ${examLevel} exam",
-  "questions": [
-    {
-      "id": "q1",
-      "question": "Question text appropriate for Level ${examLevel} difficulty",
-      "type": "multiple-choice|true-false|short-answer|essay|fill-blank|matching",
-      "options": ["Option A", "Option B", "Option C", "Option D"], // Only for multiple choice
-      "correctAnswer": "Correct answer or option index (0-3 for multiple choice)",
-      "points": 5,
-      "explanation": "Detailed explanation of the correct answer and why others are wrong",
-      "difficulty": "Easy|Medium|Hard|Very Hard|Expert"
-    }
-  ],
-  "totalPoints": 100,
-  "estimatedTime": "CALCULATE appropriate time based on question count and complexity",
-  "difficultyLevel": ${examLevel},
-  "difficultyLabel": "${difficultyConfig.label}"
-}
-
-CRITICAL REQUIREMENTS:
-- Return ONLY valid JSON, no additional text or markdown
-- Determine appropriate number of questions based on uploaded exam analysis (15-25 typical)
-- Match question types to those found in uploaded exam or use academic standards
-- Calculate realistic time limits based on question complexity and count
-- For multiple choice questions, correctAnswer should be the index (0-3)
-- For other question types, correctAnswer should be the actual answer text
-- Points should total approximately 100 points across all questions
-- Each question should have a clear, educational explanation
-- Questions should be professional and well-written
-- Make questions appropriately challenging for Level ${examLevel}
-- Maintain academic integrity and educational value
-- Ensure questions are fair, unbiased, and clearly worded
-- Focus on ${difficultyConfig.cognitiveLevel} cognitive skills`;
-  }
-
-  private createExamSeriesPromptShort(
-    description: string,
-    settings: SimulatorSettings,
-    hasUploadedFiles: boolean,
-    examLevel: number
-  ): string {
-    const difficultyConfig = this.getDifficultyConfig(examLevel);
-    
-    return `You are an expert exam creator and educational assessment specialist. ${hasUploadedFiles ? 'CAREFULLY ANALYZE the uploaded exam/study materials first. Study the question types, difficulty level, subject matter, cognitive complexity, and assessment style of the original exam.' : ''} 
-
-Create a comprehensive practice exam for LEVEL ${examLevel} of ${settings.numberOfExams} total exams with PROGRESSIVE DIFFICULTY.
-
-EXAM DESCRIPTION: "${description}"
-
-DIFFICULTY LEVEL ${examLevel}: ${difficultyConfig.label}
-COMPLEXITY INSTRUCTION: ${difficultyConfig.complexity}
-COGNITIVE LEVEL: ${difficultyConfig.cognitiveLevel}
-DESCRIPTION: ${difficultyConfig.description}
-
-EXAM REQUIREMENTS:
-- Number of questions: ANALYZE the uploaded exam to determine appropriate question count (typically 15-25 questions)
-- Question types: MATCH the question types found in the uploaded exam (multiple choice, short answer, essay, etc.)
-- Time limit: CALCULATE appropriate time based on question count and complexity (typically 1-3 minutes per question)
-- Difficulty Level: ${examLevel}/7 (${difficultyConfig.label})
-
-${hasUploadedFiles ? `
-CRITICAL ANALYSIS REQUIREMENTS:
-1. CONTENT ANALYSIS: Identify all topics, concepts, and subject areas covered in the uploaded exam
-2. STYLE ANALYSIS: Study the question format, wording style, and presentation approach
-3. DIFFICULTY ANALYSIS: Assess the cognitive level, question count, and time allocation from the original exam
-4. PATTERN RECOGNITION: Identify question patterns, common structures, and assessment methods
-5. SCOPE ANALYSIS: Understand the breadth and depth of content coverage
-
-PROGRESSIVE DIFFICULTY STRATEGY:
-- Base ALL questions on content and concepts from the uploaded exam
-- Maintain the same subject matter and topic areas across all levels
-- MATCH the question count and time allocation style of the original exam
-- USE the same question types found in the uploaded exam
-- Level ${examLevel} should be ${difficultyConfig.complexity}
-- Ensure questions test the same learning objectives but at Level ${examLevel} complexity
-- Use the cognitive level: ${difficultyConfig.cognitiveLevel}
-` : `
-DIFFICULTY PROGRESSION STRATEGY:
-- Create questions appropriate for Level ${examLevel} difficulty
-- Use standard academic question counts (15-25 questions)
-- Set appropriate time limits (45-90 minutes typical)
-- Include variety of question types (multiple choice, short answer, essay)
-- Focus on ${difficultyConfig.cognitiveLevel} cognitive skills
-- ${difficultyConfig.complexity}
-- Ensure educational value and clear learning objectives
-`}`;
-  }
-
   private backendUrl = 'http://127.0.0.1:8000/exam/';
 
   async generateResponse(prompt:string): Promise<string>{
@@ -301,62 +179,19 @@ DIFFICULTY PROGRESSION STRATEGY:
 
 
   /**
-   * Clean Gemini response by removing markdown code block delimiters
-   */
-  private cleanJsonResponse(text: string): string {
-    let cleaned = text.trim();
-    
-    // Remove markdown code block delimiters at the beginning
-    if (cleaned.startsWith('```json')) {
-      cleaned = cleaned.substring(7);
-    } else if (cleaned.startsWith('```')) {
-      cleaned = cleaned.substring(3);
-    }
-    
-    // Remove markdown code block delimiters at the end
-    if (cleaned.endsWith('```')) {
-      cleaned = cleaned.substring(0, cleaned.length - 3);
-    }
-    
-    cleaned = cleaned.trim();
-    
-    // Find the first opening brace/bracket and last closing brace/bracket
-    const openBrace = cleaned.indexOf('{');
-    const openBracket = cleaned.indexOf('[');
-    const closeBrace = cleaned.lastIndexOf('}');
-    const closeBracket = cleaned.lastIndexOf(']');
-    
-    // Determine if we're dealing with an object or array
-    let startIndex = -1;
-    let endIndex = -1;
-    
-    if (openBrace !== -1 && (openBracket === -1 || openBrace < openBracket)) {
-      // Object format
-      startIndex = openBrace;
-      endIndex = closeBrace;
-    } else if (openBracket !== -1) {
-      // Array format
-      startIndex = openBracket;
-      endIndex = closeBracket;
-    }
-    
-    if (startIndex !== -1 && endIndex !== -1 && endIndex > startIndex) {
-      cleaned = cleaned.substring(startIndex, endIndex + 1);
-    }
-    
-    return cleaned.trim();
-  }
-
-  /**
-   * Generate a series of practice exams with progressive difficulty
+   * Generate a series of practice exams with progressive difficulty.
+   * With `resumeFrom`, generation continues after the last finished level
+   * of that series and the returned series keeps its id.
    */
   async generateExamSeries(
     seriesTopic: string,
     examContentDescription: string,
     files: File[],
     settings: SimulatorSettings,
-    examTime: number
+    examTime: number,
+    options: ExamGenerationOptions = {}
   ): Promise<ExamSeries> {
+    const { onProgress, signal, resumeFrom } = options;
 
 
     if (!examContentDescription.trim() && files.length === 0) {
@@ -368,7 +203,17 @@ DIFFICULTY PROGRESSION STRATEGY:
       console.log(`Settings:`, settings);
       console.log(`Files uploaded:`, files.length);
       
-      const exams: SimulatorExam[] = [];
+      const seriesId = `series_${Date.now()}`;
+      const createdAt = new Date();
+      const exams: SimulatorExam[] = [...(resumeFrom?.exams || [])];
+      const buildSeries = (): ExamSeries => ({
+        id: resumeFrom?.id || seriesId,
+        topic: seriesTopic,
+        description: examContentDescription || `Progressive exam series with ${settings.numberOfExams} levels of increasing difficulty`,
+        exams: [...exams],
+        totalExams: settings.numberOfExams,
+        createdAt: resumeFrom?.createdAt || createdAt
+      });
       
       // Process files once for all exams
       let contentParts = [];
@@ -398,105 +243,74 @@ DIFFICULTY PROGRESSION STRATEGY:
       }
       
       // Generate each exam in the series
-      for (let level = 1; level <= settings.numberOfExams; level++) {
+      for (let level = exams.length + 1; level <= settings.numberOfExams; level++) {
+        signal?.throwIfAborted();
         console.log(`Generating exam ${level}/${settings.numberOfExams}...`);
         
-        const prompt = this.createExamSeriesPrompt(examContentDescription, settings, files.length > 0, level);
-        //const prompt = this.createExamSeriesPromptShort(examContentDescription, settings, files.length > 0, level);
-        //let result;
-        // if (files.length > 0) {
-        //   // Add the prompt as the last content part
-        //   const examContentParts = [...contentParts, prompt];
-        //   result = await this.model.generateContent(examContentParts);
-        // } else {
-        //   result = await this.model.generateContent(prompt);
-        // }
-        //const response = await result.response;
-        //const text = response.text();
-        
-        //const text = await getGeminiResponse(prompt)
-        const text = await getOssResponse(prompt)
-
-        console.log(`Exam ${level} response received, length:`, text.length);
-        console.log(text)
-        // Clean and parse the response
-        const cleanedText = this.cleanJsonResponse(text);
-        console.log(cleanedText)
-        try {
-          const examData = JSON.parse(cleanedText);
-          console.log(`Successfully parsed exam ${level}:`, {
-            title: examData.title,
-            questionCount: examData.questions?.length,
-            totalPoints: examData.totalPoints
-          });
-          
-          const difficultyConfig = this.getDifficultyConfig(level);
-          
-          // Create the exam object
-          const exam: SimulatorExam = {
-            id: `exam_${Date.now()}_${level}`,
-            title: examData.title || `Level ${level}: ${difficultyConfig.label} - ${seriesTopic}`,
-            description: examData.description || `${difficultyConfig.description}`,
-            instructions: examData.instructions || `This is a Level ${level} exam. ${difficultyConfig.description}`,
-            questions: examData.questions.map((q: any, index: number) => ({
-              ...q,
-              id: q.id || `q${level}_${index + 1}`,
-              points: q.points || Math.round(100 / settings.questionsPerExam)
-            })),
-            totalPoints: examData.totalPoints || 100,
-            estimatedTime: examTime,
-            difficultyLevel: level,
-            difficultyLabel: difficultyConfig.label,
-            createdAt: new Date()
-          };
-          
-          exams.push(exam);
-          
-        } catch (parseError) {
-          console.error(`Failed to parse exam ${level} response:`, parseError);
-          
-          // Create fallback exam
-          const difficultyConfig = this.getDifficultyConfig(level);
-          const fallbackExam: SimulatorExam = {
-            id: `fallback_exam_${Date.now()}_${level}`,
-            title: `Level ${level}: ${difficultyConfig.label} - ${seriesTopic}`,
-            description: difficultyConfig.description,
-            instructions: `This is a Level ${level} practice exam.`,
-            questions: [{
-              id: `fallback_q${level}_1`,
-              question: `Sample Level ${level} question for ${seriesTopic}`,
-              type: 'multiple-choice',
-              options: ['Option A', 'Option B', 'Option C', 'Option D'],
-              correctAnswer: 0,
-              points: 100,
-              explanation: 'This is a fallback question due to parsing error.',
-              difficulty: 'Medium'
-            }],
-            totalPoints: 100,
-            estimatedTime: settings.timePerExam,
-            difficultyLevel: level,
-            difficultyLabel: difficultyConfig.label,
-            createdAt: new Date()
-          };
-          
-          exams.push(fallbackExam);
-        }
-        
-        // Add delay between requests to avoid rate limiting
-        if (level < settings.numberOfExams) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
+        const difficultyConfig = this.getDifficultyConfig(level);
+        const prompt = renderPrompt('examSimulator.exam', {
+          description: examContentDescription,
+          numberOfExams: settings.numberOfExams,
+          level,
+          label: difficultyConfig.label,
+          complexity: difficultyConfig.complexity,
+          cognitiveLevel: difficultyConfig.cognitiveLevel,
+          levelDescription: difficultyConfig.description,
+          hasUploadedFiles: files.length > 0
+        });
+        const streamedQuestions: SimulatorQuestion[] = [];
+        const reportProgress = () => onProgress?.({
+          level,
+          totalLevels: settings.numberOfExams,
+          questions: [...streamedQuestions],
+          series: buildSeries()
+        });
+        const parser = new IncrementalJsonArrayParser<unknown>((streamed, index) => {
+          const { value, errors } = validate(examQuestionSchema, streamed);
+          if (errors.length > 0) return;
+          streamedQuestions.push({ ...value, id: value.id || `q${level}_${index + 1}`, points: value.points && value.points > 0 ? value.points : 1 });
+          reportProgress();
+        }, 'questions');
+        let received = 0;
+
+        reportProgress();
+        const examData = await generateStructured('examGeneration', prompt.text, examSchema, {
+          signal,
+          onText: (partial) => {
+            parser.push(partial.slice(received));
+            received = partial.length;
+          }
+        });
+        console.log(`Generated exam ${level}:`, {
+          title: examData.title,
+          questionCount: examData.questions.length,
+          totalPoints: examData.totalPoints
+        });
+
+        // Create the exam object
+        const exam: SimulatorExam = {
+          id: `exam_${Date.now()}_${level}`,
+          title: examData.title || `Level ${level}: ${difficultyConfig.label} - ${seriesTopic}`,
+          description: examData.description || `${difficultyConfig.description}`,
+          instructions: examData.instructions || `This is a Level ${level} exam. ${difficultyConfig.description}`,
+          questions: examData.questions.map((q, index) => ({
+            ...q,
+            id: q.id || `q${level}_${index + 1}`,
+            points: q.points && q.points > 0 ? q.points : 1 // the scoring weight; same fallback as questionPoints
+          })),
+          totalPoints: examData.totalPoints || 100,
+          estimatedTime: examTime,
+          difficultyLevel: level,
+          difficultyLabel: difficultyConfig.label,
+          createdAt: new Date(),
+          promptVersion: formatPromptVersion(prompt)
+        };
+
+        exams.push(exam);
       }
       
       // Create the exam series
-      const examSeries: ExamSeries = {
-        id: `series_${Date.now()}`,
-        topic: seriesTopic,
-        description: examContentDescription || `Progressive exam series with ${settings.numberOfExams} levels of increasing difficulty`,
-        exams: exams,
-        totalExams: settings.numberOfExams,
-        createdAt: new Date()
-      };
+      const examSeries = buildSeries();
       
       console.log('Generated complete exam series:', {
         id: examSeries.id,
@@ -507,6 +321,7 @@ DIFFICULTY PROGRESSION STRATEGY:
       return examSeries;
       
     } catch (error) {
+      if (signal?.aborted) throw error;
       console.error('Error generating exam series:', error);
       
       if (error instanceof Error) {
@@ -517,6 +332,56 @@ DIFFICULTY PROGRESSION STRATEGY:
     }
   }
 
+  /**
+   * Turns a personal problem set into a one-level series that is taken like
+   * a generated exam. Each problem becomes a short-answer question with its
+   * solution as the answer and its steps as the explanation; the level
+   * follows the average difficulty of the problems.
+   */
+  createSeriesFromProblemSet(set: ProblemSet, examTime: number): ExamSeries {
+    if (set.problems.length === 0) {
+      throw new Error('This problem set has no problems yet.');
+    }
+
+    const levels = { Easy: 2, Medium: 4, Hard: 6 };
+    const level = Math.round(set.problems.reduce((sum, problem) => sum + levels[problem.difficulty], 0) / set.problems.length);
+    const difficultyConfig = this.getDifficultyConfig(level);
+    const points = Math.max(1, Math.floor(100 / set.problems.length));
+    const createdAt = new Date();
+
+    const exam: SimulatorExam = {
+      id: `exam_${Date.now()}_1`,
+      title: set.name,
+      description: `${set.problems.length} practice problems from your problem set`,
+      instructions: 'Answer each problem with its final result, including units where needed.',
+      questions: set.problems.map((problem, index) => ({
+        id: `q1_${index + 1}`,
+        question: problem.question,
+        type: 'short-answer',
+        correctAnswer: problem.solution,
+        points,
+        explanation: problem.steps
+          .map(step => [`${step.step}. ${step.description}`, step.reaction, step.equation.trim()].filter(Boolean).join(': '))
+          .join('\n'),
+        difficulty: problem.difficulty,
+      })),
+      totalPoints: points * set.problems.length,
+      estimatedTime: examTime,
+      difficultyLevel: level,
+      difficultyLabel: difficultyConfig.label,
+      createdAt
+    };
+
+    return {
+      id: `series_${Date.now()}`,
+      topic: set.name,
+      description: `Practice exam from the problem set "${set.name}"`,
+      exams: [exam],
+      totalExams: 1,
+      createdAt
+    };
+  }
+
   /**
    * Generate PDF content for an exam
    */
@@ -586,25 +451,78 @@ Answer Key:
   }
 
   /**
-   * Analyze user performance and generate improvement suggestions
+   * An answer as the student saw it: the option text for choices.
+   */
+  formatAnswer(question: SimulatorQuestion, answer: string | number | null | undefined): string {
+    if (answer === null || answer === undefined || answer === '') return '(no answer)';
+    if (typeof answer === 'number') {
+      if (question.type === 'true-false') return answer === 0 ? 'True' : 'False';
+      if (question.options?.[answer] !== undefined) return `${String.fromCharCode(65 + answer)}. ${question.options[answer]}`;
+    }
+    return String(answer);
+  }
+
+  /**
+   * Explains a question from a submitted exam in more depth than its stored
+   * explanation, starting from the student's own answer.
+   */
+  async explainQuestion(
+    question: SimulatorQuestion,
+    answer: AttemptAnswer | undefined,
+    language: string,
+    options: { signal?: AbortSignal; onText?: (text: string) => void } = {}
+  ): Promise<string> {
+    const result = !answer || answer.status === 'unanswered'
+      ? 'not answered'
+      : `${answer.status}, ${answer.earned} of ${answer.points} points`;
+    const prompt = renderPrompt('examSimulator.explain', {
+      question: question.question,
+      options: (question.options || []).map((option, index) => `${String.fromCharCode(65 + index)}. ${option}`).join('\n'),
+      correctAnswer: question.correctAnswer !== undefined ? this.formatAnswer(question, question.correctAnswer) : '(no answer key)',
+      explanation: question.explanation || '',
+      studentAnswer: this.formatAnswer(question, answer?.answer),
+      result,
+      language: getLanguageNameByCode(language),
+    }, { language });
+
+    const explanation = await streamText('tutor', prompt.text, { language, ...options });
+    return explanation.trim();
+  }
+
+  /**
+   * Analyze user performance and generate improvement suggestions. The latest
+   * attempt at each exam supplies the questions that were actually missed.
    */
-  async analyzeUserPerformance(examSeries: ExamSeries, completedExams: SimulatorExam[]): Promise<string> {
+  async analyzeUserPerformance(examSeries: ExamSeries, completedExams: SimulatorExam[], attempts: ExamAttempt[] = [], signal?: AbortSignal): Promise<string> {
     if (completedExams.length === 0) {
       return "No completed exams to analyze. Please complete at least one exam to receive personalized improvement suggestions.";
     }
 
     // Collect performance data
     const performanceData = completedExams.map(exam => {
+      const examAttempts = attempts.filter(attempt => attempt.examId === exam.id);
+      const latest = examAttempts[examAttempts.length - 1];
       const wrongAnswers: Array<{
         question: string;
-        userAnswer: string | number;
-        correctAnswer: string | number;
+        userAnswer: string;
+        correctAnswer: string;
         explanation: string;
         difficulty: string;
+        timeSpent: number;
       }> = [];
 
-      // Note: In a real implementation, we would need to store user answers
-      // For now, we'll analyze based on scores and provide general guidance
+      latest?.answers.forEach(answer => {
+        const question = exam.questions.find(q => q.id === answer.questionId);
+        if (!question || answer.status === 'correct' || answer.status === 'ungraded') return;
+        wrongAnswers.push({
+          question: question.question,
+          userAnswer: this.formatAnswer(question, answer.answer),
+          correctAnswer: question.correctAnswer !== undefined ? this.formatAnswer(question, question.correctAnswer) : '(see explanation)',
+          explanation: answer.feedback || question.explanation || '',
+          difficulty: question.difficulty,
+          timeSpent: answer.timeSpent
+        });
+      });
       
       return {
         examTitle: exam.title,
@@ -613,6 +531,7 @@ Answer Key:
         timeTaken: exam.timeTaken || 0,
         estimatedTime: exam.estimatedTime * 60,
         totalQuestions: exam.questions.length,
+        attemptScores: examAttempts.map(attempt => attempt.score),
         wrongAnswers: wrongAnswers
       };
     });
@@ -623,61 +542,34 @@ Answer Key:
     const lowestScore = Math.min(...completedExams.map(exam => exam.score || 0));
     const highestScore = Math.max(...completedExams.map(exam => exam.score || 0));
 
-    // Create analysis prompt
-    const prompt = `You are an expert educational analyst and learning coach. Analyze this student's exam performance and provide detailed, actionable improvement suggestions.
-
-EXAM SERIES: ${examSeries.topic}
-DESCRIPTION: ${examSeries.description}
-
-PERFORMANCE SUMMARY:
-- Completed Exams: ${completedExams.length}/${examSeries.totalExams}
-- Average Score: ${avgScore}%
-- Score Range: ${lowestScore}% - ${highestScore}%
-- Average Time: ${Math.floor(avgTime / 60)}:${(avgTime % 60).toString().padStart(2, '0')}
-
-DETAILED PERFORMANCE BY LEVEL:
-${performanceData.map(data => `
+    const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+    const prompt = renderPrompt('examSimulator.analysis', {
+      topic: examSeries.topic,
+      description: examSeries.description,
+      completedExams: completedExams.length,
+      totalExams: examSeries.totalExams,
+      averageScore: avgScore,
+      lowestScore,
+      highestScore,
+      averageTime: formatTime(avgTime),
+      levelDetails: performanceData.map(data => `
 Level ${data.difficultyLevel} (${data.examTitle}):
 - Score: ${data.score}%
-- Time: ${Math.floor(data.timeTaken / 60)}:${(data.timeTaken % 60).toString().padStart(2, '0')} / ${Math.floor(data.estimatedTime / 60)}:${(data.estimatedTime % 60).toString().padStart(2, '0')} allocated
+- Time: ${formatTime(data.timeTaken)} / ${formatTime(data.estimatedTime)} allocated
 - Questions: ${data.totalQuestions}
 - Time Efficiency: ${data.timeTaken > 0 ? Math.round((data.estimatedTime / data.timeTaken) * 100) : 0}%
-`).join('')}
-
-ANALYSIS REQUIREMENTS:
-1. **Performance Trends**: Analyze score progression across difficulty levels
-2. **Time Management**: Evaluate time efficiency and pacing
-3. **Difficulty Adaptation**: How well the student adapts to increasing difficulty
-4. **Strengths**: Identify areas of strong performance
-5. **Weaknesses**: Pinpoint specific areas needing improvement
-6. **Study Strategy**: Recommend specific study approaches
-7. **Next Steps**: Suggest which exams to retake or focus on
-
-Provide a comprehensive analysis in the following format:
-
-📊 PERFORMANCE ANALYSIS
-
-🎯 STRENGTHS
-[List specific strengths based on performance data]
-
-⚠️ AREAS FOR IMPROVEMENT
-[Identify specific weaknesses and patterns]
-
-📚 STUDY RECOMMENDATIONS
-[Provide actionable study strategies]
-
-🎯 NEXT STEPS
-[Suggest specific actions to improve performance]
-
-💡 PERSONALIZED TIPS
-[Give tailored advice based on their performance patterns]
-
-Make the analysis detailed, actionable, and encouraging. Focus on specific, practical advice the student can implement immediately.`;
+${data.attemptScores.length > 1 ? `- Attempts: ${data.attemptScores.length} (scores ${data.attemptScores.map(score => `${score}%`).join(' -> ')})\n` : ''}${data.wrongAnswers.length > 0 ? `- Missed in the latest attempt (${data.wrongAnswers.length}):
+${data.wrongAnswers.slice(0, MAX_MISSED_PER_LEVEL).map(wrong => `  * [${wrong.difficulty}, ${formatTime(wrong.timeSpent)}] ${wrong.question}
+    Student answered: ${wrong.userAnswer}
+    Correct answer: ${wrong.correctAnswer}${wrong.explanation ? `\n    Why: ${wrong.explanation}` : ''}`).join('\n')}
+` : ''}`).join('')
+    });
 
     try {
-      const analysis = await getGeminiResponse(prompt);
+      const analysis = await generateText('performanceAnalysis', prompt.text, { signal });
       return analysis;
     } catch (error) {
+      if (signal?.aborted) throw error;
       console.error('Error getting AI analysis:', error);
       return `❌ Unable to generate AI analysis at this time. Please try again later.
 
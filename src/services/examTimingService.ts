@@ -0,0 +1,109 @@
+import { questionPoints } from './gradingService';
+import type { SimulatorExam, SimulatorQuestion } from './examSimulatorService';
+
+// 'exam' is one limit for the whole exam; 'section' and 'question' split it by points
+export type TimeLimitScope = 'exam' | 'section' | 'question';
+
+export interface ExamTimingRules {
+  limitScope: TimeLimitScope;
+  warnAt: number[]; // minutes left on the exam clock at which a warning is shown
+  noBacktracking: boolean; // earlier questions cannot be opened again
+  allowPause: boolean; // off for strict conditions: the deadline is the start time plus the limit
+}
+
+// A stretch of questions with its own share of the time limit
+export interface TimedSection {
+  title: string;
+  start: number; // index of the first question
+  end: number; // index after the last question
+  timeLimit: number; // seconds
+  deadline: number; // seconds into the exam by which the section closes
+}
+
+// How an attempt used its time, kept with the attempt
+export interface ExamPacing {
+  rules: ExamTimingRules;
+  timeLimit: number; // seconds
+  sections: (TimedSection & { timeUsed: number })[];
+  warningsShown: number[]; // minutes from warnAt that were reached
+  autoSubmitted: boolean; // submitted by the clock rather than the student
+}
+
+const RULES_STORAGE_KEY = 'examTimingRules';
+
+export const DEFAULT_TIMING_RULES: ExamTimingRules = {
+  limitScope: 'exam',
+  warnAt: [5, 1],
+  noBacktracking: false,
+  allowPause: false
+};
+
+export const getTimingRules = (): ExamTimingRules => {
+  try {
+    return { ...DEFAULT_TIMING_RULES, ...JSON.parse(localStorage.getItem(RULES_STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_TIMING_RULES;
+  }
+};
+
+export const setTimingRules = (rules: ExamTimingRules) => {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+/**
+ * Reads warning thresholds typed as "10, 5, 1", largest first, ignoring
+ * anything that is not a positive number of minutes.
+ */
+export const parseWarnAt = (text: string): number[] =>
+  [...new Set(text.split(/[,\s]+/).map(Number).filter(minutes => Number.isFinite(minutes) && minutes > 0))]
+    .sort((a, b) => b - a);
+
+const TYPE_LABELS: Record<SimulatorQuestion['type'], string> = {
+  'multiple-choice': 'Multiple Choice',
+  'true-false': 'True or False',
+  'short-answer': 'Short Answer',
+  'essay': 'Essays',
+  'fill-blank': 'Fill in the Blank',
+  'matching': 'Matching'
+};
+
+/**
+ * Splits an exam into the stretches that are timed on their own: the whole
+ * exam, each run of questions of the same type, or each question. Every
+ * stretch gets a share of the time limit by points, and its deadline is
+ * cumulative, so time left over from one carries into the next.
+ */
+export const buildTimedSections = (exam: SimulatorExam, rules: ExamTimingRules): TimedSection[] => {
+  const totalTime = exam.estimatedTime * 60;
+  const count = exam.questions.length;
+  if (rules.limitScope === 'exam' || count === 0) {
+    return [{ title: exam.title, start: 0, end: count, timeLimit: totalTime, deadline: totalTime }];
+  }
+
+  const ranges: { title: string; start: number; end: number }[] = [];
+  exam.questions.forEach((question, index) => {
+    const last = ranges[ranges.length - 1];
+    if (rules.limitScope === 'section' && last && exam.questions[last.start].type === question.type) {
+      last.end = index + 1;
+    } else {
+      ranges.push({
+        title: rules.limitScope === 'question' ? `Question ${index + 1}` : TYPE_LABELS[question.type] || question.type,
+        start: index,
+        end: index + 1
+      });
+    }
+  });
+
+  const totalPoints = exam.questions.reduce((sum, question) => sum + questionPoints(question), 0);
+  let deadline = 0;
+  return ranges.map((range, index) => {
+    const points = exam.questions.slice(range.start, range.end).reduce((sum, question) => sum + questionPoints(question), 0);
+    // The last section takes what rounding left, so the deadlines add up to the exam's limit
+    const timeLimit = index === ranges.length - 1 ? totalTime - deadline : Math.round((totalTime * points) / totalPoints);
+    deadline += timeLimit;
+    return { ...range, timeLimit, deadline };
+  });
+};
+
+export const sectionIndexOf = (sections: TimedSection[], questionIndex: number): number =>
+  Math.max(0, sections.findIndex(section => questionIndex >= section.start && questionIndex < section.end));
@@ -0,0 +1,302 @@
+import { getLanguageNameByCode } from './languageService';
+import { generateStructured } from './structuredOutput';
+import { renderPrompt } from './promptRegistry';
+import { modelGradeSchema } from './outputSchemas';
+import type { SimulatorExam, SimulatorQuestion } from './examSimulatorService';
+
+export type ExamAnswer = number | string | null;
+
+export type GradeStatus = 'correct' | 'partial' | 'incorrect' | 'unanswered' | 'ungraded';
+
+export interface RubricCriterion {
+  criterion: string;
+  earned: number;
+  max: number;
+  comment?: string;
+}
+
+export interface QuestionGrade {
+  questionId: string;
+  status: GradeStatus;
+  earned: number;
+  points: number; // what the question is worth
+  method: 'choice' | 'match' | 'model';
+  feedback?: string;
+  rubric?: RubricCriterion[]; // only for answers graded by the model
+}
+
+export interface ExamGrade {
+  questions: QuestionGrade[]; // in question order
+  earnedPoints: number;
+  totalPoints: number; // of the graded questions only
+  score: number | null; // percentage of totalPoints; null when no answer could be graded
+  ungraded: number; // answers the model could not grade; left out of the score
+}
+
+// The model's grade of a written answer, before it is checked against the points
+export interface ModelGrade {
+  score: number;
+  feedback: string;
+  criteria?: RubricCriterion[];
+}
+
+export interface GradingOptions {
+  language: string;
+  signal?: AbortSignal;
+  onProgress?: (graded: number, total: number) => void;
+}
+
+// Numeric answers within this share of the expected value count as correct
+const RELATIVE_TOLERANCE = 0.005;
+
+const LATEX_REPLACEMENTS: [RegExp, string][] = [
+  [/\\frac\{([^{}]*)\}\{([^{}]*)\}/g, '$1/$2'],
+  [/\\(?:text|mathrm|mathbf)\{([^{}]*)\}/g, '$1'],
+  [/\\(?:cdot|times)/g, '*'],
+  [/\\%/g, '%'],
+  [/\\[,;!]/g, ' '],
+  [/[$]/g, ''],
+];
+
+const stripLatex = (text: string): string =>
+  LATEX_REPLACEMENTS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+
+/**
+ * Lower case, without accents, punctuation, LaTeX delimiters, a leading
+ * "x =" or article, so "The Mitochondria." matches "mitochondria".
+ */
+export const normalizeAnswer = (text: string): string =>
+  stripLatex(text)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/^\s*[a-z]\w*\s*=\s*/, '')
+    .replace(/[.,;:!?'"“”‘’()[\]{}]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/ ?([+\-*/^=<>]) ?/g, '$1')
+    .trim()
+    .replace(/^(?:the|a|an) /, '');
+
+const NUMBER_PATTERN = /^([-+]?(?:\d+(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?)(?:\s*\/\s*(\d+(?:\.\d+)?)(?![\d.]))?\s*(.*)$/i;
+
+// Symbols with an optional metric prefix, or spelled out; anything else after a number ("2x", "2 apples") is not a unit
+const UNIT_NAME = '(?:[kcmdµμnMG]?(?:mol|Pa|Hz|eV|cal|[mgsLlNJWVAΩKCT])|min|hr|h|atm|bar|°[CF]?|%'
+  + '|(?:kilo|centi|milli)?(?:meters?|metres?|grams?|liters?|litres?)|seconds?|minutes?|hours?|moles?|newtons?|joules?'
+  + '|watts?|volts?|amperes?|amps?|ohms?|hertz|pascals?|kelvins?|degrees?|percent|calories?|atmospheres?)';
+const UNIT_PATTERN = new RegExp(`^(?:${UNIT_NAME}[23]?)+(?:/(?:${UNIT_NAME}[23]?)+)*$`);
+
+const normalizeUnit = (unit: string): string =>
+  unit
+    .replace(/²/g, '2')
+    .replace(/³/g, '3')
+    .replace(/\bper\b/g, '/')
+    .replace(/[\s*·^{}]/g, '')
+    .replace(/\.$/, '');
+
+/**
+ * Reads "9.81 m/s^2", "-3/4", "1,200" or "6.02 × 10^23" as a value and a
+ * unit; null when the answer does not start with a number.
+ */
+const parseQuantity = (text: string): { value: number; unit: string; decimals: number } | null => {
+  const cleaned = stripLatex(text)
+    .trim()
+    .replace(/^[a-z]\w*\s*=\s*/i, '')
+    .replace(/[−–]/g, '-')
+    .replace(/(\d),(?=\d{3}(?!\d))/g, '$1')
+    .replace(/\s*[×x*]\s*10\s*\^\s*\{?([-+]?\d+)\}?/i, 'e$1');
+  const match = cleaned.match(NUMBER_PATTERN);
+  if (!match) return null;
+  const value = Number(match[1]) / (match[2] ? Number(match[2]) : 1);
+  const unit = normalizeUnit(match[3]);
+  // "2x + 3" is an expression, not a quantity
+  if (!Number.isFinite(value) || (unit && !UNIT_PATTERN.test(unit))) return null;
+  const decimals = match[2] ? 0 : (match[1].split(/e/i)[0].split('.')[1] || '').length;
+  return { value, unit, decimals };
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * What a question is worth. Questions without usable points count as 1 so
+ * they still carry weight.
+ */
+export const questionPoints = (question: SimulatorQuestion): number =>
+  Number.isFinite(question.points) && question.points > 0 ? question.points : 1;
+
+const grade = (question: SimulatorQuestion, status: GradeStatus, method: QuestionGrade['method'], feedback?: string): QuestionGrade => {
+  const points = questionPoints(question);
+  return { questionId: question.id, status, earned: status === 'correct' ? points : 0, points, method, feedback };
+};
+
+const isBlank = (answer: ExamAnswer): boolean =>
+  answer === null || answer === undefined || (typeof answer === 'string' && !answer.trim());
+
+/**
+ * The option index an answer or answer key stands for: the index itself, a
+ * letter ("B"), the option's text or, for true/false, "True"/"False".
+ */
+export const choiceIndex = (question: SimulatorQuestion, value: ExamAnswer | undefined): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  if (question.type === 'true-false') {
+    if (/^(?:true|t|a)$/i.test(text)) return 0;
+    if (/^(?:false|f|b)$/i.test(text)) return 1;
+  }
+  if (/^\d+$/.test(text)) return Number(text);
+  const letter = text.match(/^\(?([a-z])[.)]?$/i);
+  if (letter) return letter[1].toLowerCase().charCodeAt(0) - 97;
+  const index = (question.options || []).findIndex(option => normalizeAnswer(option) === normalizeAnswer(text));
+  return index >= 0 ? index : null;
+};
+
+const gradeChoice = (question: SimulatorQuestion, answer: ExamAnswer): QuestionGrade => {
+  const expected = choiceIndex(question, question.correctAnswer);
+  if (expected === null) return grade(question, 'ungraded', 'choice', 'This question has no answer key.');
+  return choiceIndex(question, answer) === expected ? grade(question, 'correct', 'choice') : grade(question, 'incorrect', 'choice');
+};
+
+const matchPart = (question: SimulatorQuestion, key: string, answer: string): QuestionGrade => {
+  const expectedValue = parseQuantity(key);
+  const givenValue = parseQuantity(answer);
+  if (expectedValue && givenValue) {
+    const tolerance = Math.max(
+      Math.abs(expectedValue.value) * RELATIVE_TOLERANCE,
+      expectedValue.decimals > 0 ? 0.5 * 10 ** -expectedValue.decimals : 0,
+      1e-9
+    );
+    if (Math.abs(givenValue.value - expectedValue.value) > tolerance) {
+      return grade(question, 'incorrect', 'match', `Expected ${key}.`);
+    }
+    if (givenValue.unit && expectedValue.unit !== givenValue.unit) {
+      return grade(question, 'incorrect', 'match', `The value is right but check the unit: the answer is ${key}.`);
+    }
+    if (expectedValue.unit && !givenValue.unit) {
+      return grade(question, 'correct', 'match', `Correct. Remember to give the unit: ${key}.`);
+    }
+    return grade(question, 'correct', 'match');
+  }
+
+  const expected = normalizeAnswer(key);
+  const given = normalizeAnswer(answer);
+  if (given === expected) return grade(question, 'correct', 'match');
+  // Typos are only forgiven in words; a changed digit or sign is a different answer
+  if (/^[\p{L} ]{5,}$/u.test(expected) && editDistance(given, expected) <= 1) {
+    return grade(question, 'correct', 'match', `Correct. Check the spelling: ${key}.`);
+  }
+  return grade(question, 'incorrect', 'match', `Expected ${key}.`);
+};
+
+// "x = 2 or x = -3", "salt and water", "3, 4": commas only count when a space follows, so "1,200" stays whole
+const splitParts = (text: string): string[] =>
+  text.split(/\s*(?:;|,\s|\bor\b|\band\b)\s*/i).map(part => part.trim()).filter(Boolean);
+
+/**
+ * Grades a short answer or filled blank against the answer key: numbers by
+ * value within a small tolerance (and by unit when the answer gives one),
+ * text after normalizing it, allowing one typo in longer words. Keys with
+ * several parts match answers with the same parts in any order.
+ */
+export const matchAnswer = (question: SimulatorQuestion, answer: string): QuestionGrade => {
+  const key = String(question.correctAnswer ?? '');
+  const whole = matchPart(question, key, answer);
+  if (whole.status === 'correct') return whole;
+
+  const expectedParts = splitParts(key);
+  const remaining = splitParts(answer);
+  if (expectedParts.length < 2 || remaining.length !== expectedParts.length) return whole;
+  for (const part of expectedParts) {
+    const index = remaining.findIndex(given => matchPart(question, part, given).status === 'correct');
+    if (index === -1) return whole;
+    remaining.splice(index, 1);
+  }
+  return grade(question, 'correct', 'match');
+};
+
+/**
+ * Grades a written answer with the model against a rubric it writes from the
+ * question and answer key, with partial credit and written feedback.
+ */
+export const gradeWithModel = async (question: SimulatorQuestion, answer: string, language: string, signal?: AbortSignal): Promise<QuestionGrade> => {
+  const points = questionPoints(question);
+  const prompt = renderPrompt('examSimulator.grade', {
+    question: question.question,
+    type: question.type,
+    points,
+    referenceAnswer: question.correctAnswer !== undefined ? String(question.correctAnswer) : '',
+    explanation: question.explanation || '',
+    answer,
+    language: getLanguageNameByCode(language),
+  }, { language });
+
+  const result = await generateStructured('grading', prompt.text, modelGradeSchema, { language, signal });
+  const earned = Math.min(points, Math.max(0, Math.round(result.score * 10) / 10));
+  return {
+    questionId: question.id,
+    status: earned >= points ? 'correct' : earned > 0 ? 'partial' : 'incorrect',
+    earned,
+    points,
+    method: 'model',
+    feedback: result.feedback,
+    rubric: result.criteria,
+  };
+};
+
+/**
+ * Grades one answer. Choices are compared by option, short answers and
+ * blanks are matched against the key, and essays (or answers without a key)
+ * are graded by the model.
+ */
+export const gradeQuestion = async (question: SimulatorQuestion, answer: ExamAnswer, options: GradingOptions): Promise<QuestionGrade> => {
+  if (isBlank(answer)) return grade(question, 'unanswered', 'match');
+  if (question.type === 'multiple-choice' || question.type === 'true-false') {
+    return gradeChoice(question, answer);
+  }
+
+  const text = String(answer);
+  const hasKey = question.correctAnswer !== undefined && String(question.correctAnswer).trim() !== '';
+  if (question.type !== 'essay' && hasKey) return matchAnswer(question, text);
+
+  try {
+    return await gradeWithModel(question, text, options.language, options.signal);
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.error(`Error grading question ${question.id}:`, error);
+    return grade(question, 'ungraded', 'model', 'This answer could not be graded automatically, so it is left out of the score.');
+  }
+};
+
+/**
+ * Grades a submitted exam. The score is the share of points earned, weighted
+ * by each question's points; answers that could not be graded are left out
+ * of both sides. When none could be graded there is no score at all, rather
+ * than a 0 the student did not earn.
+ */
+export const gradeExam = async (exam: SimulatorExam, answers: ExamAnswer[], options: GradingOptions): Promise<ExamGrade> => {
+  const questions: QuestionGrade[] = [];
+  for (const [index, question] of exam.questions.entries()) {
+    questions.push(await gradeQuestion(question, answers[index] ?? null, options));
+    options.onProgress?.(questions.length, exam.questions.length);
+  }
+
+  const graded = questions.filter(result => result.status !== 'ungraded');
+  const earnedPoints = graded.reduce((sum, result) => sum + result.earned, 0);
+  const totalPoints = graded.reduce((sum, result) => sum + result.points, 0);
+  return {
+    questions,
+    earnedPoints: Math.round(earnedPoints * 10) / 10,
+    totalPoints,
+    score: totalPoints > 0 ? Math.round((earnedPoints / totalPoints) * 100) : graded.length === questions.length ? 0 : null,
+    ungraded: questions.length - graded.length,
+  };
+};
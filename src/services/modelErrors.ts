@@ -0,0 +1,123 @@
+/**
+ * What went wrong with a model call, independent of the provider.
+ */
+export type ModelErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rateLimit'
+  | 'timeout'
+  | 'malformed'
+  | 'network'
+  | 'server'
+  | 'budget'
+  | 'unknown';
+
+export class ModelError extends Error {
+  readonly kind: ModelErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: ModelErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'ModelError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  /**
+   * Rate limits, timeouts, dropped connections and 5xx responses usually pass.
+   */
+  get isRetryable(): boolean {
+    return this.kind === 'rateLimit' || this.kind === 'server' || this.kind === 'network' || this.kind === 'timeout';
+  }
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date.
+ */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const QUOTA_PATTERN = /quota|billing|insufficient|credit|exceeded your current/i;
+
+/**
+ * Classifies an HTTP status (and the error text the provider sent with it).
+ */
+export const modelErrorFromStatus = (
+  status: number,
+  detail: string,
+  providerLabel: string,
+  retryAfterMs?: number
+): ModelError => {
+  const message = `${providerLabel} returned ${status}${detail ? `: ${detail}` : ''}`;
+
+  if (status === 401 || status === 403) {
+    return new ModelError('auth', message, { status });
+  }
+  if (status === 402 || (status === 429 && QUOTA_PATTERN.test(detail))) {
+    return new ModelError('quota', message, { status });
+  }
+  if (status === 429) {
+    return new ModelError('rateLimit', message, { status, retryAfterMs });
+  }
+  if (status === 408 || status === 504) {
+    return new ModelError('timeout', message, { status });
+  }
+  if (status >= 500) {
+    return new ModelError('server', message, { status, retryAfterMs });
+  }
+  return new ModelError('unknown', message, { status });
+};
+
+/**
+ * Turns a failed fetch response into a ModelError.
+ */
+export const modelErrorFromResponse = async (response: Response, providerLabel: string): Promise<ModelError> => {
+  let detail = '';
+  try {
+    const body = await response.text();
+    try {
+      const data = JSON.parse(body);
+      detail = data.error?.message || data.error || data.detail || body;
+    } catch {
+      detail = body;
+    }
+  } catch {
+    // The body is optional; the status is enough to classify the error
+  }
+
+  return modelErrorFromStatus(
+    response.status,
+    String(detail).slice(0, 300),
+    providerLabel,
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
+};
+
+const USER_MESSAGES: Record<ModelErrorKind, string> = {
+  auth: 'The AI provider rejected the API key. Check the key in your .env file or choose another provider in Settings.',
+  quota: 'The AI provider quota or budget has been used up. Try again later or choose another provider in Settings.',
+  rateLimit: 'The AI provider is receiving too many requests right now. Please wait a moment and try again.',
+  timeout: 'The AI provider took too long to respond. Please try again.',
+  malformed: 'The AI returned a response in an unexpected format. Please try again.',
+  network: 'Could not reach the AI provider. Check your internet connection or switch to offline mode.',
+  server: 'The AI provider is having problems right now. Please try again in a few minutes.',
+  budget: 'You have reached your daily AI budget. Raise or remove the limit under Settings → AI & Advanced → Usage & Costs, or try again tomorrow.',
+  unknown: 'Something went wrong while talking to the AI provider. Please try again.',
+};
+
+/**
+ * The message to show in an error panel for any error thrown by a model call.
+ */
+export const getUserErrorMessage = (error: unknown, fallback = USER_MESSAGES.unknown): string => {
+  if (error instanceof ModelError) {
+    return USER_MESSAGES[error.kind];
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+};
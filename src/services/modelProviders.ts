@@ -0,0 +1,673 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getLanguageNameByCode } from './languageService';
+import { ModelError, modelErrorFromResponse, modelErrorFromStatus, type ModelErrorKind } from './modelErrors';
+import { hashContent } from '../utils/hash';
+
+export interface ModelRequest {
+  prompt: string;
+  language?: string; // ISO 639-1 code, used by providers that take the language separately
+  signal?: AbortSignal; // aborts the underlying HTTP request
+}
+
+export interface ModelUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ModelResponse {
+  text: string;
+  model: string;
+  usage?: ModelUsage;
+}
+
+/**
+ * Receives each piece of text as it arrives from a streaming provider.
+ */
+export type StreamHandler = (delta: string) => void;
+
+/**
+ * A named backend that can turn a prompt into text.
+ * Providers that cannot read files or stream simply leave `extractText`
+ * or `stream` undefined.
+ */
+export interface LLMProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly isLocal?: boolean; // runs on this machine and works without internet
+  generate(request: ModelRequest): Promise<ModelResponse>;
+  stream?(request: ModelRequest, onDelta: StreamHandler): Promise<ModelResponse>;
+  extractText?(file: File, request?: Omit<ModelRequest, 'prompt'>): Promise<ModelResponse>;
+  isAvailable?(): Promise<boolean>;
+  getModelName?(purpose?: 'text' | 'vision'): string; // the model a request would use right now
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. https://api.groq.com/openai/v1
+  model: string;
+  apiKey?: string;
+  visionModel?: string; // used for OCR, defaults to `model`
+}
+
+export interface OllamaConfig {
+  baseUrl: string; // e.g. http://localhost:11434
+  model: string;
+  visionModel: string;
+}
+
+const OCR_PROMPT = "Extract all text from this image exactly as it appears. Do not add any commentary or explanation, only return the transcribed text.";
+
+export const fileToBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+/**
+ * Calls `onLine` for every complete line of a chunked response body.
+ * Used for both Server-Sent Events and newline-delimited JSON.
+ */
+const readLines = async (response: Response, onLine: (line: string) => void): Promise<void> => {
+  if (!response.body) {
+    throw new ModelError('malformed', 'The response did not include a readable body.');
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(line => line.trim() && onLine(line.trim()));
+  }
+  if (buffer.trim()) {
+    onLine(buffer.trim());
+  }
+};
+
+const parseChunk = (payload: string) => {
+  try {
+    return JSON.parse(payload);
+  } catch {
+    throw new ModelError('malformed', `Could not parse streamed chunk: ${payload.slice(0, 100)}`);
+  }
+};
+
+/**
+ * Any endpoint that speaks the OpenAI `/chat/completions` protocol
+ * (OpenAI, Groq, LM Studio, vLLM, llama.cpp server, ...).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly isLocal: boolean;
+  protected config: OpenAICompatibleConfig;
+
+  constructor(id: string, label: string, config: OpenAICompatibleConfig, isLocal = false) {
+    this.id = id;
+    this.label = label;
+    this.config = config;
+    this.isLocal = isLocal;
+  }
+
+  getConfig(): OpenAICompatibleConfig {
+    return { ...this.config };
+  }
+
+  setConfig(config: Partial<OpenAICompatibleConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getModelName(purpose: 'text' | 'vision' = 'text'): string {
+    return purpose === 'vision' ? this.config.visionModel || this.config.model : this.config.model;
+  }
+
+  /**
+   * Extra body fields for vendors that accept non-standard parameters.
+   */
+  protected extraBody(): Record<string, unknown> {
+    return {};
+  }
+
+  protected headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  async generate(request: ModelRequest): Promise<ModelResponse> {
+    const requestBody = {
+      messages: [
+        {
+          role: "user",
+          content: request.prompt
+        }
+      ],
+      model: this.config.model,
+      stream: false,
+      ...this.extraBody()
+    };
+
+    return this.complete(requestBody, request.signal);
+  }
+
+  async stream(request: ModelRequest, onDelta: StreamHandler): Promise<ModelResponse> {
+    const response = await fetch(`${this.baseUrl()}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      signal: request.signal,
+      body: JSON.stringify({
+        messages: [{ role: "user", content: request.prompt }],
+        model: this.config.model,
+        ...this.extraBody(),
+        stream: true,
+        stream_options: { include_usage: true }
+      }),
+    });
+    if (!response.ok) {
+      throw await modelErrorFromResponse(response, this.label);
+    }
+
+    let text = '';
+    let model = this.config.model;
+    let usage: ModelUsage | undefined;
+    await readLines(response, line => {
+      // Server-Sent Events: "data: {...}" per chunk, "data: [DONE]" at the end
+      if (!line.startsWith('data:')) return;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') return;
+
+      const chunk = parseChunk(payload);
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+      model = chunk.model || model;
+      const chunkUsage = chunk.usage || chunk.x_groq?.usage;
+      if (chunkUsage) {
+        usage = {
+          promptTokens: chunkUsage.prompt_tokens || 0,
+          completionTokens: chunkUsage.completion_tokens || 0
+        };
+      }
+    });
+
+    return { text, model, usage };
+  }
+
+  async extractText(file: File, request: Omit<ModelRequest, 'prompt'> = {}): Promise<ModelResponse> {
+    const base64Data = await fileToBase64(file);
+    const model = this.config.visionModel || this.config.model;
+    return this.complete({
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: OCR_PROMPT },
+            { type: "image_url", image_url: { url: `data:${file.type};base64,${base64Data}` } }
+          ]
+        }
+      ],
+      model,
+      stream: false
+    }, request.signal);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl()}/models`, { headers: this.headers() });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  protected baseUrl(): string {
+    return this.config.baseUrl.replace(/\/$/, '');
+  }
+
+  private async complete(requestBody: Record<string, unknown>, signal?: AbortSignal): Promise<ModelResponse> {
+    const response = await fetch(`${this.baseUrl()}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      signal,
+      body: JSON.stringify(requestBody),
+    });
+    if (!response.ok) {
+      throw await modelErrorFromResponse(response, this.label);
+    }
+    const data = await response.json();
+    if (!Array.isArray(data.choices) || data.choices.length === 0) {
+      throw new ModelError('malformed', `${this.label} returned a response without choices.`);
+    }
+    return {
+      text: data.choices[0].message?.content || '',
+      model: data.model || (requestBody.model as string),
+      usage: data.usage ? {
+        promptTokens: data.usage.prompt_tokens || 0,
+        completionTokens: data.usage.completion_tokens || 0
+      } : undefined
+    };
+  }
+}
+
+/**
+ * GPT-OSS-120B on Groq Cloud.
+ */
+export class GroqProvider extends OpenAICompatibleProvider {
+  constructor(apiKey?: string) {
+    super('groq', 'Groq (GPT-OSS-120B)', {
+      baseUrl: 'https://api.groq.com/openai/v1',
+      model: 'openai/gpt-oss-120b',
+      apiKey
+    });
+  }
+
+  protected extraBody(): Record<string, unknown> {
+    return {
+      temperature: 1,
+      max_completion_tokens: 65536,
+      top_p: 1,
+      reasoning_effort: "medium",
+      stop: null,
+      tools: []
+    };
+  }
+
+  async generate(request: ModelRequest): Promise<ModelResponse> {
+    if (!this.config.apiKey) {
+      console.error("VITE_GROQ_API_KEY is not set in environment variables.");
+      throw new ModelError('auth', "Groq API key is missing.");
+    }
+    return super.generate(request);
+  }
+
+  async stream(request: ModelRequest, onDelta: StreamHandler): Promise<ModelResponse> {
+    if (!this.config.apiKey) {
+      console.error("VITE_GROQ_API_KEY is not set in environment variables.");
+      throw new ModelError('auth', "Groq API key is missing.");
+    }
+    return super.stream(request, onDelta);
+  }
+}
+
+/**
+ * Google Gemini, also used for OCR of uploaded images.
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini';
+  readonly label = 'Google Gemini';
+  private genAI: GoogleGenerativeAI;
+  private model: string;
+
+  constructor(apiKey: string, model = "gemini-2.0-flash") {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.model = model;
+  }
+
+  getModelName(): string {
+    return this.model;
+  }
+
+  /**
+   * The SDK throws its own errors; classify the ones that carry an HTTP status.
+   */
+  private toModelError(error: unknown, signal?: AbortSignal): unknown {
+    if (signal?.aborted || error instanceof ModelError) return error;
+    const status = (error as { status?: number }).status;
+    if (typeof status === 'number') {
+      return modelErrorFromStatus(status, error instanceof Error ? error.message : '', this.label);
+    }
+    return error;
+  }
+
+  async generate(request: ModelRequest): Promise<ModelResponse> {
+    const model = this.genAI.getGenerativeModel({ model: this.model });
+    const result = await model.generateContent(request.prompt, { signal: request.signal })
+      .catch(error => { throw this.toModelError(error, request.signal); });
+    const response = result.response;
+    return {
+      text: response.text(),
+      model: this.model,
+      usage: response.usageMetadata ? {
+        promptTokens: response.usageMetadata.promptTokenCount,
+        completionTokens: response.usageMetadata.candidatesTokenCount
+      } : undefined
+    };
+  }
+
+  async stream(request: ModelRequest, onDelta: StreamHandler): Promise<ModelResponse> {
+    const model = this.genAI.getGenerativeModel({ model: this.model });
+    const result = await model.generateContentStream(request.prompt, { signal: request.signal })
+      .catch(error => { throw this.toModelError(error, request.signal); });
+
+    let text = '';
+    try {
+      for await (const chunk of result.stream) {
+        const delta = chunk.text();
+        text += delta;
+        onDelta(delta);
+      }
+    } catch (error) {
+      throw this.toModelError(error, request.signal);
+    }
+    const response = await result.response;
+    return {
+      text,
+      model: this.model,
+      usage: response.usageMetadata ? {
+        promptTokens: response.usageMetadata.promptTokenCount,
+        completionTokens: response.usageMetadata.candidatesTokenCount
+      } : undefined
+    };
+  }
+
+  async extractText(file: File, request: Omit<ModelRequest, 'prompt'> = {}): Promise<ModelResponse> {
+    const model = this.genAI.getGenerativeModel({ model: this.model });
+    try {
+      const base64Data = await fileToBase64(file);
+      const imagePart = {
+        inlineData: {
+          mimeType: file.type,
+          data: base64Data,
+        },
+      };
+
+      const result = await model.generateContent([OCR_PROMPT, imagePart], { signal: request.signal });
+      const response = result.response;
+      return {
+        text: response.text(),
+        model: this.model,
+        usage: response.usageMetadata ? {
+          promptTokens: response.usageMetadata.promptTokenCount,
+          completionTokens: response.usageMetadata.candidatesTokenCount
+        } : undefined
+      };
+    } catch (err) {
+      if (request.signal?.aborted) throw err;
+      console.error("Error in Gemini OCR Service:", err);
+      const modelError = this.toModelError(err);
+      if (modelError instanceof ModelError) throw modelError;
+      throw new Error("Failed to extract text from the image.");
+    }
+  }
+}
+
+/**
+ * The local FastAPI backend, which forwards prompts to Ollama.
+ */
+export class BackendProvider implements LLMProvider {
+  readonly id = 'backend';
+  readonly label = 'Local backend (FastAPI + Ollama)';
+  private baseUrl: string;
+
+  constructor(baseUrl = 'http://127.0.0.1:8000') {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  getModelName(): string {
+    return 'backend';
+  }
+
+  async generate(request: ModelRequest): Promise<ModelResponse> {
+    const formData = new FormData();
+    formData.append('prompt', request.prompt);
+    formData.append('language', getLanguageNameByCode(request.language || 'en'));
+
+    // Make the POST request to the FastAPI endpoint
+    const response = await fetch(`${this.baseUrl}/question-text/`, {
+      method: 'POST',
+      body: formData,
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw await modelErrorFromResponse(response, this.label);
+    }
+    const data = await response.json();
+    return { text: data.solution, model: 'backend' };
+  }
+}
+
+/**
+ * A model served by a local Ollama instance through its native `/api/chat` endpoint.
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly id = 'ollama';
+  readonly label = 'Ollama (local)';
+  readonly isLocal = true;
+  private config: OllamaConfig;
+
+  constructor(config: OllamaConfig) {
+    this.config = config;
+  }
+
+  getConfig(): OllamaConfig {
+    return { ...this.config };
+  }
+
+  setConfig(config: Partial<OllamaConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getModelName(purpose: 'text' | 'vision' = 'text'): string {
+    return purpose === 'vision' ? this.config.visionModel : this.config.model;
+  }
+
+  async generate(request: ModelRequest): Promise<ModelResponse> {
+    return this.chat(this.config.model, { role: 'user', content: request.prompt }, request.signal);
+  }
+
+  async stream(request: ModelRequest, onDelta: StreamHandler): Promise<ModelResponse> {
+    const response = await fetch(`${this.baseUrl()}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal: request.signal,
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        stream: true
+      }),
+    });
+    if (!response.ok) {
+      throw await modelErrorFromResponse(response, this.label);
+    }
+
+    let text = '';
+    let usage: ModelUsage | undefined;
+    // Ollama streams one JSON object per line; the last one has `done: true` and the token counts
+    await readLines(response, line => {
+      const chunk = parseChunk(line);
+      if (chunk.error) {
+        throw new ModelError('server', `${this.label}: ${chunk.error}`);
+      }
+      const delta = chunk.message?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+      if (chunk.done) {
+        usage = {
+          promptTokens: chunk.prompt_eval_count || 0,
+          completionTokens: chunk.eval_count || 0
+        };
+      }
+    });
+
+    return { text, model: this.config.model, usage };
+  }
+
+  async extractText(file: File, request: Omit<ModelRequest, 'prompt'> = {}): Promise<ModelResponse> {
+    const base64Data = await fileToBase64(file);
+    return this.chat(this.config.visionModel, { role: 'user', content: OCR_PROMPT, images: [base64Data] }, request.signal);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl()}/api/tags`);
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  private baseUrl(): string {
+    return this.config.baseUrl.replace(/\/$/, '');
+  }
+
+  private async chat(model: string, message: { role: string; content: string; images?: string[] }, signal?: AbortSignal): Promise<ModelResponse> {
+    const response = await fetch(`${this.baseUrl()}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal,
+      body: JSON.stringify({ model, messages: [message], stream: false }),
+    });
+
+    if (!response.ok) {
+      throw await modelErrorFromResponse(response, this.label);
+    }
+    const data = await response.json();
+    return {
+      text: data.message?.content || '',
+      model: data.model || model,
+      usage: {
+        promptTokens: data.prompt_eval_count || 0,
+        completionTokens: data.eval_count || 0
+      }
+    };
+  }
+}
+
+/**
+ * A recorded answer for the mock provider. Text fixtures answer `generate`
+ * and `stream`; vision fixtures answer `extractText` and match against the
+ * file instead of the prompt. The first fixture that matches wins.
+ */
+export interface MockFixture {
+  name: string;
+  purpose?: 'text' | 'vision'; // defaults to 'text'
+  promptHash?: string; // SHA-256 of the exact prompt, or of the file's bytes for vision fixtures
+  includes?: string[]; // every string must appear in the prompt (or the file name)
+  text?: string;
+  error?: { kind: ModelErrorKind; message: string; status?: number; retryAfterMs?: number };
+  times?: number; // answer at most this many times per prompt, then let later fixtures match
+  delayMs?: number; // pause between streamed chunks, or before the whole answer
+}
+
+const MOCK_CHUNK_SIZE = 40;
+const MOCK_DEFAULT_DELAY_MS = 10;
+
+const mockAbortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+const mockDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(mockAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(mockAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Answers from recorded fixtures instead of a model, so the app can run
+ * offline and deterministically. Prompts without a fixture fail with their
+ * hash, which is what a new fixture's `promptHash` should be set to.
+ */
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock';
+  readonly label = 'Mock (recorded fixtures)';
+  readonly isLocal = true;
+  private fixtures: MockFixture[];
+  private uses = new Map<string, number>();
+
+  constructor(fixtures: MockFixture[] = []) {
+    this.fixtures = [...fixtures];
+  }
+
+  getModelName(): string {
+    return 'mock';
+  }
+
+  /**
+   * Adds fixtures ahead of the existing ones, so they take precedence.
+   */
+  addFixtures(fixtures: MockFixture[]): void {
+    this.fixtures = [...fixtures, ...this.fixtures];
+  }
+
+  reset(fixtures?: MockFixture[]): void {
+    if (fixtures) this.fixtures = [...fixtures];
+    this.uses.clear();
+  }
+
+  async generate(request: ModelRequest): Promise<ModelResponse> {
+    const { fixture, hash } = this.match('text', request.prompt, await hashContent(request.prompt));
+    await mockDelay(fixture.delayMs ?? MOCK_DEFAULT_DELAY_MS, request.signal);
+    return this.answer(fixture, hash, request.prompt);
+  }
+
+  async stream(request: ModelRequest, onDelta: StreamHandler): Promise<ModelResponse> {
+    const { fixture, hash } = this.match('text', request.prompt, await hashContent(request.prompt));
+    const response = this.answer(fixture, hash, request.prompt);
+    for (let offset = 0; offset < response.text.length; offset += MOCK_CHUNK_SIZE) {
+      await mockDelay(fixture.delayMs ?? MOCK_DEFAULT_DELAY_MS, request.signal);
+      onDelta(response.text.slice(offset, offset + MOCK_CHUNK_SIZE));
+    }
+    return response;
+  }
+
+  async extractText(file: File, request: Omit<ModelRequest, 'prompt'> = {}): Promise<ModelResponse> {
+    const { fixture, hash } = this.match('vision', file.name, await hashContent(await file.arrayBuffer()));
+    await mockDelay(fixture.delayMs ?? MOCK_DEFAULT_DELAY_MS, request.signal);
+    return this.answer(fixture, hash, OCR_PROMPT);
+  }
+
+  private match(purpose: 'text' | 'vision', subject: string, hash: string): { fixture: MockFixture; hash: string } {
+    const fixture = this.fixtures.find(candidate => {
+      if ((candidate.purpose || 'text') !== purpose) return false;
+      if (candidate.promptHash && candidate.promptHash !== hash) return false;
+      if (candidate.includes && !candidate.includes.every(part => subject.includes(part))) return false;
+      return candidate.times === undefined || (this.uses.get(`${candidate.name}:${hash}`) || 0) < candidate.times;
+    });
+
+    if (!fixture) {
+      console.warn(`${this.label}: no ${purpose} fixture for ${hash}:\n${subject.slice(0, 200)}`);
+      throw new ModelError('unknown', `${this.label} has no fixture for this ${purpose === 'vision' ? 'file' : 'prompt'} (${hash}).`);
+    }
+    const key = `${fixture.name}:${hash}`;
+    this.uses.set(key, (this.uses.get(key) || 0) + 1);
+    return { fixture, hash };
+  }
+
+  private answer(fixture: MockFixture, hash: string, prompt: string): ModelResponse {
+    console.log(`${this.label}: answering ${hash.slice(0, 12)} with "${fixture.name}"`);
+    if (fixture.error) {
+      const { kind, message, status, retryAfterMs } = fixture.error;
+      throw new ModelError(kind, `${this.label}: ${message}`, { status, retryAfterMs });
+    }
+    const text = fixture.text || '';
+    return {
+      text,
+      model: 'mock',
+      usage: { promptTokens: Math.ceil(prompt.length / 4), completionTokens: Math.ceil(text.length / 4) },
+    };
+  }
+}
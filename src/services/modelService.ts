@@ -1,174 +1,339 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { getLanguageNameByCode } from './languageService';
+import {
+  BackendProvider,
+  GeminiProvider,
+  GroqProvider,
+  MockProvider,
+  OllamaProvider,
+  OpenAICompatibleProvider,
+  type LLMProvider,
+  type ModelResponse,
+} from './modelProviders';
+import { executeRequest, type ExecuteOptions } from './requestExecutor';
+import { assertWithinBudget, recordUsage } from './usageService';
+import { mockFixtures } from '../fixtures/mockResponses';
 
-const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
-const backendUrl = 'http://127.0.0.1:8000/question/';
-const backendUrlText = 'http://127.0.0.1:8000/question-text/';
+/**
+ * Every place in the app that calls a model. Each one can be routed
+ * to a different provider from Settings.
+ */
+export type ModelFeature =
+  | 'ocr'
+  | 'solver'
+  | 'tutor'
+  | 'learningPath'
+  | 'learningMaterial'
+  | 'quiz'
+  | 'examGeneration'
+  | 'grading'
+  | 'performanceAnalysis';
 
-const fileToBase64 = (file) => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve((reader.result).split(',')[1]);
-    reader.onerror = (error) => reject(error);
-  });
+export type ModelRouting = Record<ModelFeature, string>;
+
+export interface GenerateOptions {
+  language?: string;
+  signal?: AbortSignal; // cancels the request when aborted
+}
+
+export interface StreamOptions extends GenerateOptions {
+  onText?: (text: string) => void; // called with the full text received so far
+}
+
+export const MODEL_FEATURES: { id: ModelFeature; label: string }[] = [
+  { id: 'ocr', label: 'Text extraction (OCR)' },
+  { id: 'solver', label: 'Solver' },
+  { id: 'tutor', label: 'Tutor chat' },
+  { id: 'learningPath', label: 'Learning path' },
+  { id: 'learningMaterial', label: 'Learning material' },
+  { id: 'quiz', label: 'Quiz' },
+  { id: 'examGeneration', label: 'Exam generation' },
+  { id: 'grading', label: 'Answer grading' },
+  { id: 'performanceAnalysis', label: 'Performance analysis' },
+];
+
+const DEFAULT_ROUTING: ModelRouting = {
+  ocr: 'gemini',
+  solver: 'groq',
+  tutor: 'groq',
+  learningPath: 'groq',
+  learningMaterial: 'gemini',
+  quiz: 'groq',
+  examGeneration: 'groq',
+  grading: 'groq',
+  performanceAnalysis: 'gemini',
 };
 
-export const getGeminiResponseFile = async (file) => {
-  const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-  const prompt = "Extract all text from this image exactly as it appears. Do not add any commentary or explanation, only return the transcribed text.";
+// Streams can legitimately run for many minutes on long exams
+const STREAM_TIMEOUT_MS = 10 * 60 * 1000;
 
+const ROUTING_STORAGE_KEY = 'modelRouting';
+const OPENAI_CONFIG_STORAGE_KEY = 'openaiCompatibleConfig';
+const LOCAL_PROVIDER_STORAGE_KEY = 'localProvider';
+const LOCAL_CONFIG_STORAGE_PREFIX = 'localProviderConfig:';
+const MOCK_MODE_STORAGE_KEY = 'mockProvider';
+
+// A corrupt or hand-edited value falls back to the defaults instead of breaking the import
+const readStoredObject = (key: string): Record<string, unknown> => {
   try {
-    const base64Data = await fileToBase64(file);
-    const imagePart = {
-      inlineData: {
-        mimeType: file.type,
-        data: base64Data,
-      },
-    };
-
-    const result = await model.generateContent([prompt, imagePart]);
-    const response = await result.response;
-    const text = response.text();
-    return text;
-
-  } catch (err) {
-    console.error("Error in Gemini OCR Service:", err);
-    throw new Error("Failed to extract text from the image.");
+    const value = JSON.parse(localStorage.getItem(key) || '{}');
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  } catch {
+    return {};
   }
 };
 
-export const getGeminiResponse = async (prompt:string) => {
-  const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+const loadLocalConfig = (providerId: string) => readStoredObject(LOCAL_CONFIG_STORAGE_PREFIX + providerId);
 
-  try {
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-    return text;
-
-  } catch (err) {
-    console.error("Error in Gemini OCR Service:", err);
-    throw new Error("Failed to extract text from the image.");
+const providers = new Map<string, LLMProvider>();
+
+export const registerProvider = (provider: LLMProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getProvider = (providerId: string): LLMProvider => {
+  const provider = providers.get(providerId);
+  if (!provider) {
+    throw new Error(`Unknown model provider "${providerId}".`);
   }
+  return provider;
+};
+
+export const listProviders = (): LLMProvider[] => Array.from(providers.values());
+
+registerProvider(new GroqProvider(import.meta.env.VITE_GROQ_API_KEY));
+registerProvider(new GeminiProvider(import.meta.env.VITE_GEMINI_API_KEY));
+registerProvider(new BackendProvider(import.meta.env.VITE_BACKEND_URL));
+
+const openAICompatible = new OpenAICompatibleProvider('openai-compatible', 'OpenAI-compatible endpoint', {
+  baseUrl: import.meta.env.VITE_OPENAI_BASE_URL || 'https://api.openai.com/v1',
+  model: import.meta.env.VITE_OPENAI_MODEL || 'gpt-4o-mini',
+  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
+  ...readStoredObject(OPENAI_CONFIG_STORAGE_KEY),
+});
+registerProvider(openAICompatible);
+
+export const getOpenAICompatibleProvider = (): OpenAICompatibleProvider => openAICompatible;
+
+export const saveOpenAICompatibleConfig = (config: Parameters<OpenAICompatibleProvider['setConfig']>[0]) => {
+  openAICompatible.setConfig(config);
+  localStorage.setItem(OPENAI_CONFIG_STORAGE_KEY, JSON.stringify(openAICompatible.getConfig()));
+};
+
+const ollama = new OllamaProvider({
+  baseUrl: import.meta.env.VITE_OLLAMA_URL || 'http://localhost:11434',
+  model: import.meta.env.VITE_OLLAMA_MODEL || 'gemma3n:e2b',
+  visionModel: import.meta.env.VITE_OLLAMA_VISION_MODEL || 'llava',
+  ...loadLocalConfig('ollama'),
+});
+registerProvider(ollama);
+
+const localOpenAI = new OpenAICompatibleProvider('local-openai', 'Local OpenAI-compatible server', {
+  baseUrl: import.meta.env.VITE_LOCAL_OPENAI_URL || 'http://localhost:1234/v1',
+  model: import.meta.env.VITE_LOCAL_OPENAI_MODEL || 'local-model',
+  ...loadLocalConfig('local-openai'),
+}, true);
+registerProvider(localOpenAI);
+
+const localProviders: Record<string, OllamaProvider | OpenAICompatibleProvider> = {
+  [ollama.id]: ollama,
+  [localOpenAI.id]: localOpenAI,
+};
+
+const mock = new MockProvider(mockFixtures);
+registerProvider(mock);
+
+export const getMockProvider = (): MockProvider => mock;
+
+export type LocalProviderConfig = Parameters<OllamaProvider['setConfig']>[0];
+
+// When set, every feature (OCR included) is served by the local provider
+// regardless of the routing table.
+let offlineMode = false;
+
+export const isOfflineMode = () => offlineMode;
+
+export const setOfflineMode = (enabled: boolean) => {
+  offlineMode = enabled;
+};
+
+export const listLocalProviders = (): (OllamaProvider | OpenAICompatibleProvider)[] => Object.values(localProviders);
+
+export const getLocalProvider = (): OllamaProvider | OpenAICompatibleProvider => {
+  return localProviders[localStorage.getItem(LOCAL_PROVIDER_STORAGE_KEY) || ''] || ollama;
 };
 
-export const getOssResponse = async (prompt: string) => {
-  const apiKey = import.meta.env.VITE_GROQ_API_KEY;
-  if (!apiKey) {
-    console.error("VITE_GROQ_API_KEY is not set in environment variables.");
-    throw new Error("Groq API key is missing.");
+export const setLocalProvider = (providerId: string) => {
+  if (!localProviders[providerId]) {
+    throw new Error(`"${providerId}" is not a local model provider.`);
   }
+  localStorage.setItem(LOCAL_PROVIDER_STORAGE_KEY, providerId);
+};
 
-  const apiUrl = "https://api.groq.com/openai/v1/chat/completions";
-
-  const requestBody = {
-    messages: [
-      {
-        role: "user",
-        content: prompt
-      }
-    ],
-    model: "openai/gpt-oss-120b",
-    temperature: 1,
-    max_completion_tokens: 65536,
-    top_p: 1,
-    stream: false,
-    reasoning_effort: "medium",
-    stop: null,
-    tools: []
-  };
+export const saveLocalProviderConfig = (config: LocalProviderConfig) => {
+  const provider = getLocalProvider();
+  provider.setConfig(config);
+  localStorage.setItem(LOCAL_CONFIG_STORAGE_PREFIX + provider.id, JSON.stringify(provider.getConfig()));
+};
 
-  try {
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify(requestBody),
-    });
-    const data = await response.json();
-    const fullContent = data.choices[0]?.message?.content || '';
-    return fullContent;
-  } catch (error) {
-    console.error("Error calling Groq API:", error);
-    throw error; // Re-throw the error to be handled by the calling function
+/**
+ * Whether the local provider's server is up and answering.
+ */
+export const checkLocalProvider = async (): Promise<boolean> => {
+  const provider = getLocalProvider();
+  return provider.isAvailable();
+};
+
+/**
+ * The saved routing over the defaults. Features routed to a provider that
+ * no longer exists go back to their default provider.
+ */
+export const getModelRouting = (): ModelRouting => {
+  const routing = { ...DEFAULT_ROUTING };
+  for (const [feature, providerId] of Object.entries(readStoredObject(ROUTING_STORAGE_KEY))) {
+    if (feature in DEFAULT_ROUTING && typeof providerId === 'string' && providers.has(providerId)) {
+      routing[feature as ModelFeature] = providerId;
+    }
   }
+  return routing;
 };
 
+export const setFeatureProvider = (feature: ModelFeature, providerId: string) => {
+  getProvider(providerId); // throws on unknown ids
+  const routing = { ...getModelRouting(), [feature]: providerId };
+  localStorage.setItem(ROUTING_STORAGE_KEY, JSON.stringify(routing));
+};
 
-export const getBackendLLMText = async (prompt:string,language:string) => {
+export const resetModelRouting = () => {
+  localStorage.removeItem(ROUTING_STORAGE_KEY);
+};
 
-        const formData = new FormData();
-        formData.append('prompt', prompt);
-        formData.append('language', getLanguageNameByCode(language));
+/**
+ * Whether every feature is answered from recorded fixtures. VITE_MOCK_LLM=true
+ * forces it on, e.g. for demos and integration tests.
+ */
+export const isMockMode = () =>
+  import.meta.env.VITE_MOCK_LLM === 'true' || localStorage.getItem(MOCK_MODE_STORAGE_KEY) === 'true';
 
-        // Make the POST request to the FastAPI endpoint
-        const response = await fetch(backendUrlText, {
-          method: 'POST',
-          body: formData,
-        });
-        console.log(response)
+export const isMockModeForced = () => import.meta.env.VITE_MOCK_LLM === 'true';
 
-        if (!response.ok) {
-          console.log("Hello")
-          const errorData = await response.json();
-          throw new Error(errorData.detail || `HTTP error! Status: ${response.status}`);
-        }
-        const data = await response.json();
-        return data.solution
-}
+export const setMockMode = (enabled: boolean) => {
+  localStorage.setItem(MOCK_MODE_STORAGE_KEY, String(enabled));
+};
+
+export const getProviderForFeature = (feature: ModelFeature): LLMProvider => {
+  if (isMockMode()) {
+    return mock;
+  }
+  if (offlineMode) {
+    return getLocalProvider();
+  }
+  return getProvider(getModelRouting()[feature]);
+};
 
-export const getBackendLLMFile = async (files: File[],language:string) => {
-    for (const file of files) {
-
-        // Create a FormData object to send the file and prompt
-        const formData = new FormData();
-        formData.append('file', file);
-        formData.append('language', getLanguageNameByCode(language));
-
-        // Make the POST request to the FastAPI endpoint
-        const response = await fetch(backendUrl, {
-          method: 'POST',
-          body: formData,
-        });
-        const data = await response.json();
-        return data.solution
+/**
+ * Runs one model call through the executor, checking the daily budget first
+ * and recording tokens, latency and cost once it settles.
+ */
+const trackedRequest = async (
+  feature: ModelFeature,
+  provider: LLMProvider,
+  prompt: string | undefined,
+  task: (signal: AbortSignal) => Promise<ModelResponse>,
+  options: ExecuteOptions
+): Promise<ModelResponse> => {
+  await assertWithinBudget(provider);
+  const startedAt = performance.now();
+  try {
+    const response = await executeRequest(provider.id, task, options);
+    void recordUsage({ feature, provider, prompt, response, latencyMs: performance.now() - startedAt });
+    return response;
+  } catch (error) {
+    if (!options.signal?.aborted) {
+      void recordUsage({ feature, provider, prompt, latencyMs: performance.now() - startedAt, error });
     }
+    throw error;
+  }
+};
 
-}
+/**
+ * Sends a prompt to whichever provider is configured for the feature.
+ */
+export const generateResponse = async (feature: ModelFeature, prompt: string, options: GenerateOptions = {}): Promise<ModelResponse> => {
+  const provider = getProviderForFeature(feature);
+  try {
+    return await trackedRequest(
+      feature,
+      provider,
+      prompt,
+      (signal) => provider.generate({ prompt, language: options.language, signal }),
+      { signal: options.signal }
+    );
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.error(`Error calling ${provider.label} for ${feature}:`, error);
+    throw error; // Re-throw the error to be handled by the calling function
+  }
+};
+
+export const generateText = async (feature: ModelFeature, prompt: string, options: GenerateOptions = {}): Promise<string> => {
+  const response = await generateResponse(feature, prompt, options);
+  return response.text;
+};
 
-export const cleanAndParseJson = (rawResponseText: string): any => {
+/**
+ * Like `generateText`, but reports partial output through `onText` while the
+ * model is still writing. Providers without streaming report once at the end.
+ */
+export const streamText = async (feature: ModelFeature, prompt: string, options: StreamOptions = {}): Promise<string> => {
+  const provider = getProviderForFeature(feature);
   try {
-    // Find the start of the JSON content, which could be an array '[' or an object '{'
-    const jsonStartIndex = rawResponseText.indexOf('[');
-    const objectStartIndex = rawResponseText.indexOf('{');
-
-    let startIndex = -1;
-
-    if (jsonStartIndex > -1 && objectStartIndex > -1) {
-      startIndex = Math.min(jsonStartIndex, objectStartIndex);
-    } else if (jsonStartIndex > -1) {
-      startIndex = jsonStartIndex;
-    } else {
-      startIndex = objectStartIndex;
+    if (!provider.stream) {
+      const response = await trackedRequest(
+        feature,
+        provider,
+        prompt,
+        (signal) => provider.generate({ prompt, language: options.language, signal }),
+        { signal: options.signal }
+      );
+      options.onText?.(response.text);
+      return response.text;
     }
 
-    if (startIndex === -1) {
-      throw new Error("No JSON array or object found in the response string.");
-    }
-    
-    // Extract the JSON string from the starting character to the end
-    const jsonString = rawResponseText.substring(startIndex);
-    console.log("Test 1")
-    console.log(jsonString)
-    // Parse the extracted string into a JSON object
-    return jsonString;
+    const stream = provider.stream.bind(provider);
+    let text = '';
+    const response = await trackedRequest(
+      feature,
+      provider,
+      prompt,
+      (signal) => stream({ prompt, language: options.language, signal }, (delta) => {
+        text += delta;
+        options.onText?.(text);
+      }),
+      // Once text has reached the caller a retry would repeat it
+      { signal: options.signal, timeoutMs: STREAM_TIMEOUT_MS, canRetry: () => text.length === 0 }
+    );
+    return response.text;
   } catch (error) {
-    console.error("Failed to parse JSON from response:", error);
-    console.error("Original string that failed parsing:", rawResponseText);
-    throw new Error("Invalid JSON format in the AI response.");
+    if (options.signal?.aborted) throw error;
+    console.error(`Error streaming from ${provider.label} for ${feature}:`, error);
+    throw error;
   }
 };
 
+/**
+ * Transcribes an uploaded image or document with the OCR provider.
+ */
+export const extractTextFromFile = async (file: File, options: GenerateOptions = {}): Promise<string> => {
+  const provider = getProviderForFeature('ocr');
+  if (!provider.extractText) {
+    throw new Error(`${provider.label} cannot read files. Choose another provider for text extraction in Settings.`);
+  }
+  const extractText = provider.extractText.bind(provider);
+  const response = await trackedRequest(
+    'ocr',
+    provider,
+    undefined,
+    (signal) => extractText(file, { language: options.language, signal }),
+    { signal: options.signal }
+  );
+  return response.text;
+};
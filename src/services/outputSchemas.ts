@@ -0,0 +1,163 @@
+import { array, number, object, oneOf, optional, refine, string, union, type Validator } from '../utils/schema';
+import type { MathProblem } from './SolverService';
+import type { LearningMaterial, LearningPath, QuizQuestion } from './learningRoadService';
+import type { SimulatorQuestion } from './examSimulatorService';
+import type { ModelGrade } from './gradingService';
+
+// Ids are assigned by the services after validation, so the model's are ignored
+
+export type GeneratedMathProblem = Omit<MathProblem, 'id' | 'subject' | 'verification'>;
+export type GeneratedLearningPath = Omit<LearningPath, 'id' | 'promptVersion'>;
+export type GeneratedLearningMaterial = Omit<LearningMaterial, 'id'>;
+export type GeneratedQuizQuestion = Omit<QuizQuestion, 'id'>;
+export type GeneratedExamQuestion = Omit<SimulatorQuestion, 'id' | 'points'> & { id?: string; points?: number };
+
+export interface GeneratedExam {
+  title: string;
+  description: string;
+  instructions: string;
+  questions: GeneratedExamQuestion[];
+  totalPoints?: number;
+}
+
+const stringList = array(string());
+
+const solvedProblemShape = {
+  question: string(),
+  solution: string(),
+  difficulty: oneOf(['Easy', 'Medium', 'Hard'] as const),
+  topic: string(),
+};
+
+const solutionStepShape = {
+  step: number({ integer: true, min: 1 }),
+  description: string(),
+  equation: string({ allowEmpty: true }),
+  explanation: string(),
+};
+
+export const mathProblemSchema: Validator<GeneratedMathProblem> = object({
+  ...solvedProblemShape,
+  steps: array(object(solutionStepShape), { min: 1 }),
+});
+
+const physicsQuantity = object({
+  symbol: string(),
+  value: optional(string()),
+  unit: string({ allowEmpty: true }), // dimensionless quantities have none
+  description: optional(string()),
+});
+
+export const physicsProblemSchema: Validator<GeneratedMathProblem> = object({
+  ...solvedProblemShape,
+  given: array(physicsQuantity),
+  find: array(physicsQuantity, { min: 1 }),
+  steps: array(object({ ...solutionStepShape, unit: optional(string({ allowEmpty: true })) }), { min: 1 }),
+});
+
+const REACTION_ARROW = /->|→|⇌|<=>|=/;
+
+export const chemistryProblemSchema: Validator<GeneratedMathProblem> = object({
+  ...solvedProblemShape,
+  steps: array(refine(object({ ...solutionStepShape, reaction: optional(string({ allowEmpty: true })) }), (step, path, errors) => {
+    if (step.reaction && !REACTION_ARROW.test(step.reaction)) {
+      errors.push(`${path}.reaction: "${step.reaction}" is not a chemical equation (no reaction arrow)`);
+    }
+  }), { min: 1 }),
+});
+
+export const biologyProblemSchema: Validator<GeneratedMathProblem> = object({
+  ...solvedProblemShape,
+  steps: array(object({
+    ...solutionStepShape,
+    terms: optional(array(object({ term: string(), definition: string() }))),
+    diagram: optional(string({ allowEmpty: true })),
+  }), { min: 1 }),
+});
+
+export const learningStepSchema = object({
+  step: optional(number({ integer: true, min: 1 })),
+  title: string(),
+  description: string(),
+  estimatedTime: string(),
+  difficulty: oneOf(['Beginner', 'Intermediate', 'Advanced'] as const),
+  prerequisites: optional(stringList),
+  keyTopics: array(string(), { min: 1 }),
+  practiceExercises: stringList,
+});
+
+export const learningPathSchema: Validator<GeneratedLearningPath> = refine(object({
+  topic: string(),
+  totalEstimatedTime: string(),
+  difficulty: oneOf(['Beginner', 'Intermediate', 'Advanced', 'Mixed'] as const),
+  description: string(),
+  steps: array(learningStepSchema, { min: 1 }),
+}), (path) => {
+  // The services number the steps themselves
+  path.steps.forEach((step, index) => { step.step = index + 1; });
+}) as Validator<GeneratedLearningPath>;
+
+export const learningMaterialSchema: Validator<GeneratedLearningMaterial> = object({
+  stepTitle: string(),
+  topic: string(),
+  introduction: string(),
+  sections: array(object({
+    title: string(),
+    content: string(),
+    examples: optional(stringList),
+    keyPoints: optional(stringList),
+  }), { min: 1 }),
+  summary: string(),
+  nextSteps: stringList,
+  estimatedReadTime: string(),
+});
+
+export const quizQuestionsSchema: Validator<GeneratedQuizQuestion[]> = array(refine(object({
+  question: string(),
+  options: array(string(), { min: 2 }),
+  correctAnswer: number({ integer: true, min: 0 }),
+  explanation: string(),
+  difficulty: oneOf(['Easy', 'Medium', 'Hard'] as const),
+}), (question, path, errors) => {
+  if (question.correctAnswer >= question.options.length) {
+    errors.push(`${path}.correctAnswer: ${question.correctAnswer} is not an index into options (0-${question.options.length - 1})`);
+  }
+}), { min: 1 });
+
+export const examQuestionSchema: Validator<GeneratedExamQuestion> = refine(object({
+  id: optional(string()),
+  question: string(),
+  type: oneOf(['multiple-choice', 'true-false', 'short-answer', 'essay', 'fill-blank', 'matching'] as const),
+  options: optional(stringList),
+  correctAnswer: optional(union(number({ integer: true, min: 0 }), string(), 'an option index or answer text')),
+  points: optional(number({ min: 0 })),
+  explanation: optional(string({ allowEmpty: true })),
+  difficulty: oneOf(['Easy', 'Medium', 'Hard', 'Very Hard', 'Expert'] as const),
+}), (question, path, errors) => {
+  if (question.type !== 'multiple-choice') return;
+  const options = question.options || [];
+  if (options.length < 2) {
+    errors.push(`${path}.options: multiple-choice questions need at least 2 options`);
+  } else if (typeof question.correctAnswer !== 'number' || question.correctAnswer >= options.length) {
+    errors.push(`${path}.correctAnswer: must be the index (0-${options.length - 1}) of the correct option`);
+  }
+});
+
+export const examSchema: Validator<GeneratedExam> = object({
+  title: string(),
+  description: string(),
+  instructions: string(),
+  questions: array(examQuestionSchema, { min: 1 }),
+  totalPoints: optional(number({ min: 0 })),
+});
+
+export const modelGradeSchema: Validator<ModelGrade> = object({
+  score: number({ min: 0 }),
+  feedback: string(),
+  criteria: optional(array(object({
+    criterion: string(),
+    earned: number({ min: 0 }),
+    max: number({ min: 0 }),
+    comment: optional(string({ allowEmpty: true })),
+  }))),
+});
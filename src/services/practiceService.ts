@@ -0,0 +1,95 @@
+import type { MathProblem, MathStep, PracticeProgress, StepPractice } from './SolverService';
+import { checkAnswer, checkAttempt, type StepVerification } from './stepVerification';
+
+export interface Hint {
+  label: string;
+  text: string;
+  formula?: boolean; // the step's own equation or reaction, which gives the step away
+}
+
+const emptyStep = (): StepPractice => ({ hints: 0, attempts: 0, solved: false });
+
+/**
+ * Hints for a step from least to most revealing: what to do, why, and
+ * finally the step's own equation or reaction. Built from the solution, so
+ * asking for one costs no model call.
+ */
+export const getHints = (step: MathStep): Hint[] => {
+  const hints: Hint[] = [];
+  if (step.description.trim()) hints.push({ label: 'What to do', text: step.description });
+  if (step.explanation.trim()) hints.push({ label: 'Why it works', text: step.explanation });
+  if (step.reaction?.trim()) hints.push({ label: 'The reaction', text: step.reaction, formula: true });
+  if (step.equation.trim()) hints.push({ label: 'This step', text: step.equation, formula: true });
+  return hints;
+};
+
+export const getPractice = (problem: MathProblem): PracticeProgress => ({
+  ...problem.practice,
+  hintsUsed: problem.practice?.hintsUsed || 0,
+  revealed: problem.practice?.revealed || false,
+  steps: problem.steps.map((_, index) => problem.practice?.steps[index] || emptyStep()),
+});
+
+const updateStep = (problem: MathProblem, stepIndex: number, update: (step: StepPractice) => StepPractice, hintsUsed = 0): MathProblem => {
+  const practice = getPractice(problem);
+  return {
+    ...problem,
+    practice: {
+      ...practice,
+      hintsUsed: practice.hintsUsed + hintsUsed,
+      steps: practice.steps.map((step, index) => (index === stepIndex ? update(step) : step)),
+    },
+  };
+};
+
+/**
+ * A copy of the problem with the next hint of the step shown, or the problem
+ * itself when every hint is already showing.
+ */
+export const showNextHint = (problem: MathProblem, stepIndex: number): MathProblem => {
+  const shown = getPractice(problem).steps[stepIndex]?.hints || 0;
+  if (shown >= getHints(problem.steps[stepIndex]).length) return problem;
+  return updateStep(problem, stepIndex, step => ({ ...step, hints: step.hints + 1 }), 1);
+};
+
+/**
+ * Checks the student's answer for a step and records the attempt.
+ */
+export const submitAttempt = (problem: MathProblem, stepIndex: number, attempt: string): { problem: MathProblem; result: StepVerification } => {
+  const result = checkAttempt(problem, stepIndex, attempt);
+  if (result.status === 'unverified') {
+    return { problem, result };
+  }
+  const updated = updateStep(problem, stepIndex, step => ({
+    ...step,
+    attempts: step.attempts + 1,
+    solved: step.solved || result.status === 'verified',
+  }));
+  return { problem: updated, result };
+};
+
+/**
+ * Checks the student's final answer and records the attempt. Unlike step
+ * attempts, answers that cannot be checked count too, since they unlock the
+ * answer of a practice problem.
+ */
+export const submitAnswer = (problem: MathProblem, attempt: string): { problem: MathProblem; result: StepVerification } => {
+  const result = checkAnswer(problem, attempt);
+  const practice = getPractice(problem);
+  return {
+    problem: {
+      ...problem,
+      practice: {
+        ...practice,
+        answerAttempts: (practice.answerAttempts || 0) + 1,
+        answerCorrect: practice.answerCorrect || result.status === 'verified',
+      },
+    },
+    result,
+  };
+};
+
+export const revealSolution = (problem: MathProblem): MathProblem => ({
+  ...problem,
+  practice: { ...getPractice(problem), revealed: true },
+});
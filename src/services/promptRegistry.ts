@@ -0,0 +1,178 @@
+import { solverPrompts } from '../prompts/solverPrompts';
+import { examSimulatorPrompts } from '../prompts/examSimulatorPrompts';
+import { learningRoadPrompts } from '../prompts/learningRoadPrompts';
+
+export type PromptId =
+  | 'solver.solve'
+  | 'solver.physics'
+  | 'solver.chemistry'
+  | 'solver.biology'
+  | 'solver.tutor'
+  | 'solver.variants'
+  | 'examSimulator.exam'
+  | 'examSimulator.analysis'
+  | 'examSimulator.grade'
+  | 'examSimulator.explain'
+  | 'learningRoad.path'
+  | 'learningRoad.material'
+  | 'learningRoad.quiz';
+
+export type PromptVariables = Record<string, string | number | boolean>;
+
+/**
+ * A prompt template. Placeholders are written `{{name}}`; a section wrapped in
+ * `{{#if name}}...{{else}}...{{/if}}` is kept only when `name` is truthy.
+ * Every placeholder must be listed in `variables`.
+ */
+export interface PromptTemplate {
+  id: PromptId;
+  version: number;
+  description?: string;
+  variables: readonly string[];
+  template: string;
+  localized?: Partial<Record<string, string>>; // language code -> template used instead of `template`
+  weight?: number; // share of users assigned this version in an A/B test; 0 or missing opts out
+}
+
+export interface RenderedPrompt {
+  id: PromptId;
+  version: number;
+  language?: string; // set when a localized override was used
+  text: string;
+}
+
+const OVERRIDES_STORAGE_KEY = 'promptVersions';
+const ASSIGNMENTS_STORAGE_KEY = 'promptAssignments';
+
+const templates = new Map<PromptId, PromptTemplate[]>();
+
+/**
+ * Registers a template version. Re-registering the same id and version replaces it.
+ */
+export const registerPromptTemplate = (template: PromptTemplate) => {
+  const versions = (templates.get(template.id) || []).filter(existing => existing.version !== template.version);
+  versions.push(template);
+  versions.sort((a, b) => a.version - b.version);
+  templates.set(template.id, versions);
+};
+
+[...solverPrompts, ...examSimulatorPrompts, ...learningRoadPrompts].forEach(registerPromptTemplate);
+
+export const listPromptTemplates = (): PromptTemplate[] => Array.from(templates.values()).flat();
+
+export const getPromptVersions = (id: PromptId): number[] => (templates.get(id) || []).map(template => template.version);
+
+const readVersions = (key: string): Partial<Record<PromptId, number>> => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeVersions = (key: string, versions: Partial<Record<PromptId, number>>) => {
+  localStorage.setItem(key, JSON.stringify(versions));
+};
+
+/**
+ * Pins a prompt to one version, or clears the pin with `null`.
+ */
+export const setPromptVersion = (id: PromptId, version: number | null) => {
+  const overrides = readVersions(OVERRIDES_STORAGE_KEY);
+  if (version === null) {
+    delete overrides[id];
+  } else {
+    getTemplate(id, version); // throws for unknown versions
+    overrides[id] = version;
+  }
+  writeVersions(OVERRIDES_STORAGE_KEY, overrides);
+};
+
+/**
+ * The version used for new requests: a pinned version if there is one,
+ * otherwise a weighted pick among A/B versions that sticks to this browser,
+ * otherwise the newest version.
+ */
+export const getActivePromptVersion = (id: PromptId): number => {
+  const versions = templates.get(id);
+  if (!versions?.length) {
+    throw new Error(`No prompt template registered for "${id}".`);
+  }
+
+  const pinned = readVersions(OVERRIDES_STORAGE_KEY)[id];
+  if (pinned !== undefined && versions.some(template => template.version === pinned)) {
+    return pinned;
+  }
+
+  const candidates = versions.filter(template => (template.weight || 0) > 0);
+  if (candidates.length === 0) {
+    return versions[versions.length - 1].version;
+  }
+
+  const assignments = readVersions(ASSIGNMENTS_STORAGE_KEY);
+  const assigned = assignments[id];
+  if (assigned !== undefined && candidates.some(template => template.version === assigned)) {
+    return assigned;
+  }
+
+  const total = candidates.reduce((sum, template) => sum + (template.weight || 0), 0);
+  let roll = Math.random() * total;
+  const picked = candidates.find(template => (roll -= template.weight || 0) < 0) || candidates[candidates.length - 1];
+  assignments[id] = picked.version;
+  writeVersions(ASSIGNMENTS_STORAGE_KEY, assignments);
+  return picked.version;
+};
+
+const getTemplate = (id: PromptId, version: number): PromptTemplate => {
+  const template = templates.get(id)?.find(candidate => candidate.version === version);
+  if (!template) {
+    throw new Error(`Prompt "${id}" has no version ${version}.`);
+  }
+  return template;
+};
+
+const fillTemplate = (source: string, variables: PromptVariables, label: string): string => {
+  const withSections = source.replace(
+    /\{\{#if (\w+)\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g,
+    (_, name: string, whenTrue: string, whenFalse = '') => (variables[name] ? whenTrue : whenFalse)
+  );
+  return withSections.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Prompt ${label} uses "{{${name}}}" but no value was given for it.`);
+    }
+    return String(variables[name]);
+  });
+};
+
+/**
+ * Fills in the active (or the given) version of a prompt, preferring the
+ * override for `language` when the template has one.
+ */
+export const renderPrompt = (
+  id: PromptId,
+  variables: PromptVariables,
+  options: { language?: string; version?: number } = {}
+): RenderedPrompt => {
+  const version = options.version ?? getActivePromptVersion(id);
+  const template = getTemplate(id, version);
+  const label = `${id}@${version}`;
+
+  const missing = template.variables.filter(name => !(name in variables));
+  if (missing.length > 0) {
+    throw new Error(`Prompt ${label} is missing variables: ${missing.join(', ')}.`);
+  }
+
+  const localized = options.language ? template.localized?.[options.language] : undefined;
+  return {
+    id,
+    version,
+    language: localized ? options.language : undefined,
+    text: fillTemplate(localized || template.template, variables, label),
+  };
+};
+
+/**
+ * The compact form stored with generated content, e.g. "learningRoad.path@1".
+ */
+export const formatPromptVersion = (prompt: RenderedPrompt): string =>
+  `${prompt.id}@${prompt.version}${prompt.language ? `:${prompt.language}` : ''}`;
@@ -0,0 +1,165 @@
+import { ModelError } from './modelErrors';
+
+export interface ExecuteOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxRetries?: number;
+  canRetry?: () => boolean; // e.g. false once a stream has delivered text
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+const DEFAULT_CONCURRENCY = 2;
+
+// Local servers run one generation at a time; hosted APIs take a few in parallel
+const concurrencyLimits: Record<string, number> = {
+  groq: 2,
+  gemini: 4,
+  'openai-compatible': 4,
+  backend: 1,
+  ollama: 1,
+  'local-openai': 1,
+};
+
+interface ProviderQueue {
+  active: number;
+  waiting: (() => void)[];
+}
+
+const queues = new Map<string, ProviderQueue>();
+
+export const setConcurrencyLimit = (providerId: string, limit: number) => {
+  concurrencyLimits[providerId] = Math.max(1, limit);
+};
+
+const getQueue = (providerId: string): ProviderQueue => {
+  let queue = queues.get(providerId);
+  if (!queue) {
+    queue = { active: 0, waiting: [] };
+    queues.set(providerId, queue);
+  }
+  return queue;
+};
+
+const acquire = async (providerId: string): Promise<void> => {
+  const queue = getQueue(providerId);
+  if (queue.active < (concurrencyLimits[providerId] ?? DEFAULT_CONCURRENCY)) {
+    queue.active++;
+    return;
+  }
+  // The slot is handed over directly by release(), so `active` stays the same
+  await new Promise<void>(resolve => queue.waiting.push(resolve));
+};
+
+const release = (providerId: string) => {
+  const queue = getQueue(providerId);
+  const next = queue.waiting.shift();
+  if (next) {
+    next();
+  } else {
+    queue.active--;
+  }
+};
+
+const abortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(abortError());
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Exponential backoff with jitter, unless the provider told us how long to wait.
+ */
+const retryDelay = (attempt: number, error: ModelError): number => {
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, MAX_DELAY_MS);
+  }
+  const exponential = BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(exponential + Math.random() * BASE_DELAY_MS, MAX_DELAY_MS);
+};
+
+/**
+ * Runs one attempt with its own timeout, linked to the caller's signal.
+ */
+const attempt = async <T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    // The caller may have cancelled while this request waited for a slot
+    signal?.throwIfAborted();
+    return await task(controller.signal);
+  } catch (error) {
+    if (timedOut) {
+      throw new ModelError('timeout', `No response after ${Math.round(timeoutMs / 1000)} seconds.`);
+    }
+    if (signal?.aborted || error instanceof ModelError) {
+      throw error;
+    }
+    // fetch rejects with a TypeError when the connection itself fails
+    if (error instanceof TypeError) {
+      throw new ModelError('network', error.message);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Shared wrapper for every model call: waits for a free slot on the provider,
+ * applies a timeout and retries transient failures with backoff.
+ */
+export const executeRequest = async <T>(
+  providerId: string,
+  task: (signal: AbortSignal) => Promise<T>,
+  options: ExecuteOptions = {}
+): Promise<T> => {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, maxRetries = DEFAULT_MAX_RETRIES, canRetry } = options;
+
+  for (let retry = 0; ; retry++) {
+    signal?.throwIfAborted();
+    await acquire(providerId);
+    let failure: unknown;
+    try {
+      return await attempt(task, timeoutMs, signal);
+    } catch (error) {
+      failure = error;
+    } finally {
+      release(providerId);
+    }
+
+    if (!(failure instanceof ModelError) || !failure.isRetryable || signal?.aborted) {
+      throw failure;
+    }
+    if (retry >= maxRetries || (canRetry && !canRetry())) {
+      throw failure;
+    }
+    const delay = retryDelay(retry, failure);
+    console.warn(`${providerId} request failed (${failure.kind}), retrying in ${Math.round(delay)} ms...`);
+    await sleep(delay, signal);
+  }
+};
@@ -0,0 +1,103 @@
+import { databaseService } from './databaseService';
+import { getProviderForFeature, isOfflineMode, type ModelFeature } from './modelService';
+import { hashContent } from '../utils/hash';
+
+export interface CacheRequest {
+  promptVersion?: string;
+  inputs: unknown; // everything besides the prompt that shapes the answer
+  language?: string;
+}
+
+export interface CacheOptions {
+  regenerate?: boolean; // skip the lookup and replace the cached answer
+  ttlMs?: number;
+}
+
+const ENABLED_STORAGE_KEY = 'responseCacheEnabled';
+const TTL_STORAGE_KEY = 'responseCacheTtlDays';
+const DEFAULT_TTL_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isResponseCacheEnabled = () => localStorage.getItem(ENABLED_STORAGE_KEY) !== 'false';
+
+export const setResponseCacheEnabled = (enabled: boolean) => {
+  localStorage.setItem(ENABLED_STORAGE_KEY, String(enabled));
+};
+
+export const getResponseCacheTtlDays = (): number => {
+  const days = Number(localStorage.getItem(TTL_STORAGE_KEY));
+  return days > 0 ? days : DEFAULT_TTL_DAYS;
+};
+
+export const setResponseCacheTtlDays = (days: number) => {
+  localStorage.setItem(TTL_STORAGE_KEY, String(days));
+};
+
+/**
+ * JSON with object keys sorted, so equal inputs always hash the same.
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Returns the cached answer to an identical request, or runs `produce` and
+ * stores its result. Offline, an answer from another provider is accepted
+ * when the configured local one has none.
+ */
+export const withResponseCache = async <T>(
+  feature: ModelFeature,
+  request: CacheRequest,
+  produce: () => Promise<T>,
+  options: CacheOptions = {}
+): Promise<T> => {
+  if (!isResponseCacheEnabled()) {
+    return produce();
+  }
+
+  const provider = getProviderForFeature(feature);
+  const model = provider.getModelName?.(feature === 'ocr' ? 'vision' : 'text') || 'default';
+  const inputKey = await hashContent(stableStringify({ feature, ...request }));
+  const key = await hashContent(stableStringify({ inputKey, providerId: provider.id, model }));
+
+  if (options.regenerate) {
+    await databaseService.deleteCachedResponses(inputKey);
+  } else {
+    const cached = await databaseService.getCachedResponse(key)
+      || (isOfflineMode() ? await databaseService.findCachedResponseByInput(inputKey) : null);
+    if (cached) {
+      console.log(`Using cached ${feature} response from ${cached.createdAt}`);
+      return JSON.parse(cached.value) as T;
+    }
+  }
+
+  const value = await produce();
+  const now = Date.now();
+  try {
+    await databaseService.saveCachedResponse({
+      key,
+      inputKey,
+      feature,
+      providerId: provider.id,
+      model,
+      promptVersion: request.promptVersion,
+      language: request.language,
+      value: JSON.stringify(value),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + (options.ttlMs ?? getResponseCacheTtlDays() * DAY_MS)).toISOString(),
+    });
+  } catch {
+    // A full or unavailable IndexedDB only costs us the cache
+  }
+  return value;
+};
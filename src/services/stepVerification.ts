@@ -0,0 +1,646 @@
+import { all, create, type EvalFunction, type MathNode, type Unit } from 'mathjs';
+import type { MathProblem, MathStep, PhysicsQuantity } from './SolverService';
+
+export type VerificationStatus = 'verified' | 'failed' | 'unverified' | 'skipped';
+
+export interface StepVerification {
+  status: VerificationStatus;
+  reason: string;
+}
+
+// `steps` lines up with `MathProblem.steps`
+export interface ProblemVerification {
+  answer: StepVerification;
+  steps: StepVerification[];
+}
+
+type Value = number | Unit;
+type Scope = Record<string, Value>;
+
+// One side of a relation. Literal sides such as "10 N / 2.0 kg" are read
+// with unit names only, so the "m" in "5 m/s" is metres even when m is a mass.
+interface Side {
+  text: string;
+  node: MathNode;
+  code: EvalFunction;
+  literal: boolean;
+}
+
+interface Relation {
+  left: Side;
+  right: Side;
+  tolerance: number;
+}
+
+interface SymbolContext {
+  scope: Scope; // known quantities, e.g. physics "given" values
+  allowUnits: boolean;
+  quantities: Set<string>; // symbols the problem defines, never read as units
+}
+
+const math = create(all);
+
+const CONSTANTS = new Set(['pi', 'e', 'i', 'E', 'PI', 'Infinity', 'NaN']);
+// Spread over both signs and away from integers, so coincidences are unlikely
+const SAMPLE_POINTS = [0.7391, -1.3127, 2.4563, -3.8719, 5.1137, 0.2819];
+const ROOT_SEARCH_RANGE = 100;
+const ROOT_SEARCH_STEPS = 4000;
+
+const verified = (reason: string): StepVerification => ({ status: 'verified', reason });
+const failed = (reason: string): StepVerification => ({ status: 'failed', reason });
+const unverified = (reason: string): StepVerification => ({ status: 'unverified', reason });
+const skipped = (reason: string): StepVerification => ({ status: 'skipped', reason });
+
+/**
+ * Rewrites what models commonly write (unicode operators, simple LaTeX)
+ * into syntax the parser understands.
+ */
+const normalizeMath = (text: string): string =>
+  text
+    .replace(/\$/g, '')
+    .replace(/\\left|\\right/g, '')
+    .replace(/\\(?:text|mathrm|operatorname)\{([^{}]*)\}/g, ' $1')
+    .replace(/\\[,;:!]|\\quad|\\qquad/g, ' ')
+    .replace(/\\[dt]frac/g, '\\frac')
+    .replace(/\\(sin|cos|tan|ln|log|exp)\b/g, '$1')
+    .replace(/\\frac\{([^{}]*)\}\{([^{}]*)\}/g, '($1)/($2)')
+    .replace(/\\sqrt\{([^{}]*)\}/g, 'sqrt($1)')
+    .replace(/\\(cdot|times)/g, '*')
+    .replace(/\\div/g, '/')
+    .replace(/\\pi/g, 'pi')
+    .replace(/\\approx/g, '≈')
+    .replace(/[{}]/g, match => (match === '{' ? '(' : ')'))
+    .replace(/[×·∙⋅]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/[−–]/g, '-')
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/√/g, 'sqrt')
+    .replace(/π/g, 'pi')
+    .replace(/[✓✔]/g, '')
+    .replace(/[.\s]+$/, '')
+    .trim();
+
+// "4.0 g / 2.0 g/mol" means (4.0 g) / (2.0 g/mol), not ((4.0 g) / 2.0 g) / mol
+const groupQuantities = (text: string): string =>
+  text.replace(/(\d+(?:\.\d+)?(?:e[-+]?\d+)?)\s*([A-Za-zµΩ°]+(?:\^-?\d+)?(?:\s*[/*]\s*[A-Za-zµΩ°]+(?:\^-?\d+)?)*)(?![\w(])/g, '($1 $2)');
+
+// Splits on commas and semicolons outside parentheses
+const splitStatements = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+    if ((char === ',' || char === ';') && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+const splitSides = (statement: string): string[] => statement.split(/≈|(?<![<>!=])=(?!=)/).map(side => side.trim());
+
+// Rounded results such as 3.33 for 10/3 are accepted within half a unit of their last digit
+const roundingTolerance = (text: string): number => {
+  const decimals = Array.from(text.matchAll(/\d+\.(\d+)/g), match => match[1].length);
+  return decimals.length > 0 ? 0.5 * 10 ** -Math.min(...decimals) : 0;
+};
+
+const parse = (text: string): MathNode | null => {
+  try {
+    return math.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Symbols that still need a value: not bound in `scope`, not constants and,
+ * when units are allowed, not unit names like "kg".
+ */
+const freeSymbols = (context: SymbolContext, ...nodes: MathNode[]): string[] => {
+  const names = new Set<string>();
+  for (const node of nodes) {
+    node.traverse((child, path, parent) => {
+      if (child.type !== 'SymbolNode' || (parent?.type === 'FunctionNode' && path === 'fn')) return;
+      const name = (child as MathNode & { name: string }).name;
+      if (name in context.scope || CONSTANTS.has(name)) return;
+      if (context.allowUnits && !context.quantities.has(name) && math.Unit.isValuelessUnit(name)) return;
+      names.add(name);
+    });
+  }
+  return Array.from(names);
+};
+
+const parseSide = (text: string, context: SymbolContext): Side | null => {
+  const node = parse(context.allowUnits ? groupQuantities(text) : text);
+  if (!node) return null;
+  const literal = context.allowUnits
+    && /\d\s*[A-Za-zµΩ°]/.test(text)
+    && freeSymbols({ scope: {}, allowUnits: true, quantities: new Set() }, node).length === 0;
+  return { text, node, code: node.compile(), literal };
+};
+
+const sideSymbols = (context: SymbolContext, ...sides: Side[]): string[] =>
+  freeSymbols(context, ...sides.filter(side => !side.literal).map(side => side.node));
+
+const evaluate = (side: Side, scope: Scope): Value | null => {
+  try {
+    const result = side.code.evaluate(side.literal ? {} : { ...scope });
+    if (math.isUnit(result)) return result as Unit;
+    const value = typeof result === 'number' ? result : math.isFraction(result) || math.isBigNumber(result) ? Number(result) : NaN;
+    return Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Every relation in an equation string, e.g. "a = b = c" gives a = b and b = c.
+ * Returns null when any part cannot be parsed or is an inequality.
+ */
+const parseRelations = (equation: string, context: SymbolContext): Relation[] | null => {
+  const relations: Relation[] = [];
+  for (const statement of splitStatements(equation)) {
+    if (/[<>≤≥≠]|!=/.test(statement)) return null;
+    const approximate = statement.includes('≈');
+    const texts = splitSides(statement);
+    if (texts.length < 2 || texts.some(text => !text)) return null;
+
+    const sides = texts.map(text => parseSide(text, context));
+    if (sides.some(side => side === null)) return null;
+    for (let index = 0; index + 1 < sides.length; index++) {
+      const tolerance = Math.max(roundingTolerance(texts[index]), roundingTolerance(texts[index + 1]));
+      relations.push({
+        left: sides[index] as Side,
+        right: sides[index + 1] as Side,
+        tolerance: approximate ? Math.max(tolerance, 0.01) : tolerance,
+      });
+    }
+  }
+  return relations.length > 0 ? relations : null;
+};
+
+/**
+ * Whether two values are equal; null when they cannot be compared,
+ * e.g. a number against a quantity with a unit.
+ */
+const valuesEqual = (a: Value, b: Value, tolerance: number): boolean | null => {
+  const aIsUnit = typeof a !== 'number';
+  const bIsUnit = typeof b !== 'number';
+  if (aIsUnit !== bIsUnit) return null;
+  if (aIsUnit && bIsUnit && !(a as Unit).equalBase(b as Unit)) return false;
+
+  const x = aIsUnit ? ((a as Unit).value ?? NaN) : (a as number);
+  const y = bIsUnit ? ((b as Unit).value ?? NaN) : (b as number);
+  // Rounding tolerances apply to the written value, not to the SI value it was converted to
+  const scale = aIsUnit ? Math.abs(x / ((a as Unit).toNumber() || 1)) : 1;
+  return Math.abs(x - y) <= Math.max(tolerance * scale, 1e-9 * Math.max(1, Math.abs(x), Math.abs(y)));
+};
+
+const holds = (relation: Relation, scope: Scope, tolerance = relation.tolerance): boolean | null => {
+  const left = evaluate(relation.left, scope);
+  const right = evaluate(relation.right, scope);
+  return left !== null && right !== null ? valuesEqual(left, right, tolerance) : null;
+};
+
+const difference = (relation: Relation, scope: Scope): number | null => {
+  const left = evaluate(relation.left, scope);
+  const right = evaluate(relation.right, scope);
+  if (typeof left !== 'number' || typeof right !== 'number') return null;
+  return left - right;
+};
+
+const sampleScope = (variables: string[], sample: number, base: Scope): Scope =>
+  Object.fromEntries([
+    ...Object.entries(base),
+    ...variables.map((name, index) => [name, SAMPLE_POINTS[(sample + index) % SAMPLE_POINTS.length] * (index + 1)]),
+  ]);
+
+// True when both sides agree wherever they are defined, i.e. the relation is a rewrite
+const isIdentity = (relation: Relation, variables: string[], scope: Scope): boolean => {
+  let checked = 0;
+  for (let sample = 0; sample < SAMPLE_POINTS.length; sample++) {
+    const value = difference(relation, sampleScope(variables, sample, scope));
+    if (value === null) continue;
+    if (Math.abs(value) > 1e-7) return false;
+    checked++;
+  }
+  return checked >= 3;
+};
+
+/**
+ * Real roots of a one-variable relation in [-100, 100], found by scanning for
+ * sign changes and bisecting. Poles are discarded.
+ */
+const findRoots = (relation: Relation, variable: string, scope: Scope): number[] => {
+  const f = (x: number) => difference(relation, { ...scope, [variable]: x });
+  const roots: number[] = [];
+  const addRoot = (root: number) => {
+    if (!roots.some(existing => Math.abs(existing - root) < 1e-6)) roots.push(root);
+  };
+
+  let previousX = -ROOT_SEARCH_RANGE;
+  let previous = f(previousX);
+  for (let step = 1; step <= ROOT_SEARCH_STEPS; step++) {
+    const x = -ROOT_SEARCH_RANGE + (2 * ROOT_SEARCH_RANGE * step) / ROOT_SEARCH_STEPS;
+    const value = f(x);
+    if (value !== null && Math.abs(value) < 1e-12) {
+      addRoot(x);
+    } else if (value !== null && previous !== null && Math.sign(value) !== Math.sign(previous) && Math.abs(previous) >= 1e-12) {
+      let low = previousX;
+      let high = x;
+      for (let iteration = 0; iteration < 60; iteration++) {
+        const middle = (low + high) / 2;
+        const atMiddle = f(middle);
+        if (atMiddle === null) break;
+        if (Math.sign(atMiddle) === Math.sign(f(low) ?? atMiddle)) low = middle; else high = middle;
+      }
+      const root = (low + high) / 2;
+      const residual = f(root);
+      if (residual !== null && Math.abs(residual) < 1e-6 * Math.max(1, Math.abs(previous), Math.abs(value))) addRoot(root);
+    }
+    previousX = x;
+    previous = value;
+  }
+  return roots;
+};
+
+const containsRoot = (roots: number[], root: number) =>
+  roots.some(other => Math.abs(root - other) < 1e-4 * Math.max(1, Math.abs(root)));
+
+/**
+ * Pulls the equation (or expression) out of a question such as
+ * "Solve for x: 2x + 6 = 14" by trimming the words around it.
+ */
+const extractQuestionMath = (question: string): string | null => {
+  const candidates = normalizeMath(question)
+    .split(/[:;?\n]|,\s/)
+    .map(part => part.replace(/^(\s*[A-Za-z]{2,}\b(?!\s*\())+/, '').replace(/(\b[A-Za-z]{2,}\b\s*)+$/, '').trim())
+    .map(part => part.replace(/^(?:(?:solve|for|find|evaluate|simplify|compute|calculate|the|value|of|if|and|what|is)\s+)+/i, '').replace(/\s+(?:and|for)\s+.*$/i, '').trim())
+    .filter(part => /[\d)]/.test(part) && parse(splitSides(part)[0]) !== null);
+  return candidates.find(part => part.includes('=')) || candidates.find(part => /[+\-*/^]/.test(part)) || null;
+};
+
+// "x = 4, y = 2" or "x = -2 or x = 3" become one scope per alternative
+const parseAnswer = (solution: string, context: SymbolContext): Scope[] => {
+  const alternatives = normalizeMath(solution).split(/\s+or\s+/i);
+  const answers: Scope[] = [];
+  for (const alternative of alternatives) {
+    const answer: Scope = {};
+    for (const statement of splitStatements(alternative.replace(/\s+and\s+/gi, ', '))) {
+      const [name, text] = splitSides(statement);
+      const side = text !== undefined ? parseSide(text, context) : null;
+      if (!name || !/^[A-Za-z]\w*$/.test(name) || !side || sideSymbols(context, side).length > 0) continue;
+      const value = evaluate(side, context.scope);
+      if (value !== null) answer[name] = value;
+    }
+    if (Object.keys(answer).length > 0) answers.push(answer);
+  }
+  return answers;
+};
+
+const parseQuantities = (quantities: PhysicsQuantity[] | undefined): Scope => {
+  const scope: Scope = {};
+  const unitsOnly: SymbolContext = { scope, allowUnits: true, quantities: new Set() };
+  for (const quantity of quantities || []) {
+    if (!quantity.value || !/^[A-Za-z]\w*$/.test(quantity.symbol)) continue;
+    const side = parseSide(normalizeMath(`${quantity.value} ${quantity.unit}`), unitsOnly) || parseSide(normalizeMath(quantity.value), unitsOnly);
+    const value = side ? evaluate(side, {}) : null;
+    if (value !== null) scope[quantity.symbol] = value;
+  }
+  return scope;
+};
+
+const ELEMENT_PATTERN = /([A-Z][a-z]?)(\d*)|(\()|(\))(\d*)/g;
+
+// Atom counts of one species such as "Ca(OH)2"; null for charged or unreadable species
+const countAtoms = (formula: string): Map<string, number> | null => {
+  if (/[\^+-]|\be\b/.test(formula) || !/^[A-Za-z0-9()]+$/.test(formula)) return null;
+  const stack: Map<string, number>[] = [new Map()];
+  for (const [, element, count, open, close, groupCount] of formula.matchAll(ELEMENT_PATTERN)) {
+    if (element) {
+      const top = stack[stack.length - 1];
+      top.set(element, (top.get(element) || 0) + Number(count || 1));
+    } else if (open) {
+      stack.push(new Map());
+    } else if (close) {
+      const group = stack.pop();
+      if (!group || stack.length === 0) return null;
+      const top = stack[stack.length - 1];
+      group.forEach((atoms, name) => top.set(name, (top.get(name) || 0) + atoms * Number(groupCount || 1)));
+    }
+  }
+  return stack.length === 1 ? stack[0] : null;
+};
+
+const countSide = (side: string): Map<string, number> | null => {
+  const totals = new Map<string, number>();
+  for (const term of side.split(/\s+\+\s+/)) {
+    const match = term.trim().replace(/\((s|l|g|aq)\)$/i, '').match(/^(\d*)\s*(.+)$/);
+    const atoms = match ? countAtoms(match[2]) : null;
+    if (!match || !atoms) return null;
+    const coefficient = Number(match[1] || 1);
+    atoms.forEach((count, element) => totals.set(element, (totals.get(element) || 0) + count * coefficient));
+  }
+  return totals;
+};
+
+/**
+ * Checks that every element appears equally often on both sides of a reaction.
+ */
+export const verifyReaction = (reaction: string): StepVerification => {
+  const sides = reaction.replace(/[·•]/g, ' + ').split(/->|→|⇌|<=>|=/);
+  if (sides.length !== 2) return unverified('The reaction could not be read.');
+  const [left, right] = sides.map(countSide);
+  if (!left || !right) return unverified('The reaction uses notation (charges, electrons) that is not checked.');
+
+  const elements = new Set([...left.keys(), ...right.keys()]);
+  const unbalanced = Array.from(elements).filter(element => left.get(element) !== right.get(element));
+  return unbalanced.length === 0
+    ? verified('The reaction is balanced.')
+    : failed(`The reaction is not balanced for ${unbalanced.join(', ')}.`);
+};
+
+interface VerificationContext extends SymbolContext {
+  answers: Scope[]; // the final answer, unless it was shown to be wrong
+  previous: Relation | null; // the last equation with unknowns, starting with the question's
+  lastSide: string | null; // continues steps written as "= x^2 + 1"
+}
+
+// `previous` is the equation before this step, so "x = 2, x = 3" is checked case by case
+const verifyRelation = (relation: Relation, previous: Relation | null, context: VerificationContext): StepVerification => {
+  const variables = sideSymbols(context, relation.left, relation.right);
+
+  if (variables.length === 0) {
+    const equal = holds(relation, context.scope);
+    if (equal === null) return unverified('Part of this step could not be evaluated.');
+    return equal ? verified('The arithmetic checks out.') : failed('The two sides of this step are not equal.');
+  }
+
+  if (isIdentity(relation, variables, context.scope)) {
+    return verified('Both sides are equivalent expressions.');
+  }
+
+  context.previous = relation;
+
+  // Solving step: the solutions may narrow to one case ("x = 2" after "(x - 2)(x - 3) = 0") but never change
+  if (previous && variables.length === 1) {
+    const previousVariables = sideSymbols(context, previous.left, previous.right);
+    if (previousVariables.length === 1 && previousVariables[0] === variables[0]) {
+      const before = findRoots(previous, variables[0], context.scope);
+      const after = findRoots(relation, variables[0], context.scope);
+      if (after.length > 0 && after.every(root => containsRoot(before, root))) {
+        return verified(after.length === before.length
+          ? 'This equation has the same solutions as the previous one.'
+          : 'This equation keeps some of the solutions of the previous one.');
+      }
+      if (before.length > 0 || after.length > 0) {
+        return failed('This equation does not have the same solutions as the previous one.');
+      }
+    }
+  }
+
+  const answers = context.answers.filter(answer => variables.every(name => name in answer));
+  if (answers.length > 0) {
+    const consistent = answers.every(answer => holds(relation, { ...context.scope, ...answer }, Math.max(relation.tolerance, 1e-6)) === true);
+    return consistent ? verified('This step holds for the final answer.') : failed('This step does not hold for the final answer.');
+  }
+
+  return unverified('This step could not be checked automatically.');
+};
+
+const verifyEquation = (equation: string, context: VerificationContext): StepVerification => {
+  let normalized = normalizeMath(equation);
+  if (normalized.startsWith('=') && context.lastSide) {
+    normalized = `${context.lastSide} ${normalized}`;
+  }
+  const statements = splitStatements(normalized);
+  context.lastSide = statements.length > 0 ? splitSides(statements[statements.length - 1]).pop() || null : null;
+
+  const relations = parseRelations(normalized, context);
+  if (!relations) return unverified('This step could not be read as an equation.');
+
+  const previous = context.previous;
+  const results = relations.map(relation => verifyRelation(relation, previous, context));
+  return results.find(result => result.status === 'failed')
+    || results.find(result => result.status === 'verified')
+    || results[0];
+};
+
+const verifyStep = (step: MathStep, context: VerificationContext): StepVerification => {
+  const results: StepVerification[] = [];
+  if (step.reaction?.trim()) results.push(verifyReaction(step.reaction));
+  if (step.equation.trim() && step.equation.trim() !== 'N/A') results.push(verifyEquation(step.equation, context));
+
+  if (results.length === 0) return skipped('This step has no equation to check.');
+  return results.find(result => result.status === 'failed')
+    || results.find(result => result.status === 'unverified')
+    || results[0];
+};
+
+const createContext = (problem: MathProblem): VerificationContext => ({
+  scope: parseQuantities(problem.given),
+  allowUnits: problem.subject === 'physics' || problem.subject === 'chemistry',
+  quantities: new Set([...(problem.given || []), ...(problem.find || [])].map(quantity => quantity.symbol)),
+  answers: [],
+  previous: null,
+  lastSide: null,
+});
+
+const verifyAnswer = (problem: MathProblem, context: VerificationContext): { result: StepVerification; answers: Scope[] } => {
+  const questionMath = extractQuestionMath(problem.question);
+  const answers = parseAnswer(problem.solution, context);
+
+  if (!questionMath) {
+    // Steps can still be checked against the answer they lead to
+    return { result: unverified('The question has no equation to check the answer against.'), answers };
+  }
+
+  const solution = normalizeMath(problem.solution);
+  const tolerance = Math.max(roundingTolerance(solution), 1e-6);
+  const [original] = parseRelations(questionMath, context) || [];
+  if (!original) {
+    // A plain expression such as "12 * 3 + 4": compare its value with the answer
+    const question = parseSide(questionMath, context);
+    const answer = parseSide(solution.replace(/^[A-Za-z]\w*\s*=/, '').trim(), context);
+    const equal = question && answer && sideSymbols(context, question, answer).length === 0
+      ? holds({ left: question, right: answer, tolerance }, context.scope)
+      : null;
+    if (equal === null) return { result: unverified('The answer could not be checked.'), answers: [] };
+    return { result: equal ? verified('The answer matches the expression.') : failed('The answer does not match the expression.'), answers: [] };
+  }
+
+  context.previous = original;
+  const variables = sideSymbols(context, original.left, original.right);
+
+  // A bare number answers a one-variable equation
+  if (answers.length === 0 && variables.length === 1) {
+    const side = parseSide(solution, context);
+    const value = side && sideSymbols(context, side).length === 0 ? evaluate(side, context.scope) : null;
+    if (value !== null) answers.push({ [variables[0]]: value });
+  }
+
+  const usable = answers.filter(answer => variables.length > 0 && variables.every(name => name in answer));
+  if (usable.length === 0) {
+    return { result: unverified('The answer could not be substituted into the question.'), answers: [] };
+  }
+
+  const satisfies = usable.every(answer => holds(original, { ...context.scope, ...answer }, tolerance) === true);
+  return satisfies
+    ? { result: verified('The answer satisfies the original equation.'), answers: usable }
+    : { result: failed('The answer does not satisfy the original equation.'), answers: [] };
+};
+
+/**
+ * Checks each step's equation and the final answer with a computer algebra
+ * engine. Steps are compared numerically (arithmetic, identities by sampling,
+ * equations by their roots), so "verified" means no error was found, and
+ * "unverified" means the step could not be checked at all.
+ */
+export const verifyProblem = (problem: MathProblem): ProblemVerification => {
+  const context = createContext(problem);
+
+  try {
+    const { result: answer, answers } = verifyAnswer(problem, context);
+    context.answers = answers;
+    return { answer, steps: problem.steps.map(step => verifyStep(step, context)) };
+  } catch (error) {
+    console.error('Error verifying solution steps:', error);
+    return {
+      answer: unverified('The solution could not be checked.'),
+      steps: problem.steps.map(() => unverified('The solution could not be checked.')),
+    };
+  }
+};
+
+// Species of one side of a reaction without coefficients or states, e.g. ["H2", "O2"]
+const reactionSpecies = (side: string): string[] =>
+  side.split(/\s+\+\s+/).map(term => term.trim().replace(/\((s|l|g|aq)\)$/i, '').replace(/^\d+\s*/, '')).sort();
+
+const checkReactionAttempt = (expected: string, attempt: string): StepVerification => {
+  const balance = verifyReaction(attempt);
+  if (balance.status === 'failed') return balance;
+
+  const [expectedLeft, expectedRight] = expected.split(/->|→|⇌|<=>|=/).map(reactionSpecies);
+  const [attemptLeft, attemptRight] = attempt.split(/->|→|⇌|<=>|=/).map(reactionSpecies);
+  const same = (a: string[] = [], b: string[] = []) => a.join(' ') === b.join(' ');
+  if (!same(expectedLeft, attemptLeft) || !same(expectedRight, attemptRight)) {
+    return failed('This reaction uses different substances than this step.');
+  }
+  return balance.status === 'verified' ? verified('The reaction is correct and balanced.') : balance;
+};
+
+const lastSideOf = (relations: Relation[]): Side => relations[relations.length - 1].right;
+
+/**
+ * Compares a student's attempt with the expected step. A true equation that
+ * keeps the previous solutions counts as correct even when it is written
+ * differently or skips ahead; otherwise its result is compared with the step's.
+ */
+const compareWithStep = (equation: string, attempt: string, context: VerificationContext): StepVerification => {
+  let expectedText = normalizeMath(equation);
+  if (expectedText.startsWith('=') && context.lastSide) {
+    expectedText = `${context.lastSide} ${expectedText}`;
+  }
+  const expected = parseRelations(expectedText, context);
+  if (!expected) return unverified('This step could not be read as math, so compare your answer with the hint.');
+  const expectedResult = lastSideOf(expected);
+
+  const attemptText = normalizeMath(attempt);
+  const relations = parseRelations(attemptText, context);
+
+  if (!relations) {
+    // A bare value or expression, e.g. "4" or "6x + 2", is compared with the step's result
+    const side = parseSide(attemptText, context);
+    if (!side) return unverified('Your answer could not be read as math.');
+    const variables = sideSymbols(context, side, expectedResult);
+    const relation: Relation = { left: side, right: expectedResult, tolerance: Math.max(roundingTolerance(attemptText), expected[expected.length - 1].tolerance) };
+    const equal = variables.length === 0 ? holds(relation, context.scope) : isIdentity(relation, variables, context.scope);
+    if (equal === null) return unverified('Your answer could not be compared with this step.');
+    return equal ? verified('That matches this step.') : failed('Not quite. That does not match the result of this step.');
+  }
+
+  const previous = context.previous;
+  const results = relations.map(relation => verifyRelation(relation, previous, context));
+  const problem = results.find(result => result.status === 'failed');
+  if (problem) return failed(`Not quite. ${problem.reason}`);
+  if (results.every(result => result.status === 'unverified')) return unverified('Your answer could not be checked automatically.');
+
+  const matches = holds({ left: lastSideOf(relations), right: expectedResult, tolerance: Math.max(relations[relations.length - 1].tolerance, 1e-6) }, context.scope);
+  return matches === false
+    ? verified('Correct, although this step works towards a different form.')
+    : verified('Correct.');
+};
+
+/**
+ * Checks a student's own answer for one step in hint-first mode, using the
+ * same engine as `verifyProblem` with the earlier steps as context.
+ * "failed" means the attempt is wrong, not that the step is.
+ */
+export const checkAttempt = (problem: MathProblem, stepIndex: number, attempt: string): StepVerification => {
+  const step = problem.steps[stepIndex];
+  const text = attempt.trim();
+  if (!step || !text) return unverified('Enter an answer to check.');
+
+  try {
+    if (step.reaction?.trim() && /->|→|⇌|<=>/.test(text)) {
+      return checkReactionAttempt(step.reaction, text);
+    }
+    if (!step.equation.trim() || step.equation.trim() === 'N/A') {
+      return unverified('This step has no equation to compare with, so compare your answer with the hint.');
+    }
+
+    const context = createContext(problem);
+    context.answers = verifyAnswer(problem, context).answers;
+    problem.steps.slice(0, stepIndex).forEach(earlier => verifyStep(earlier, context));
+    return compareWithStep(step.equation, text, context);
+  } catch (error) {
+    console.error('Error checking attempt:', error);
+    return unverified('Your answer could not be checked.');
+  }
+};
+
+const normalizeAnswerText = (text: string): string =>
+  text.toLowerCase().replace(/[$\s]/g, '').replace(/\.$/, '');
+
+// "A. -5" or "(b) 12" -> "a"; null when the answer is not a multiple-choice option
+const choiceLetter = (text: string): string | null =>
+  text.trim().match(/^\(?([a-e])(?:[.)]|$)/i)?.[1].toLowerCase() ?? null;
+
+/**
+ * Checks a student's final answer against the problem's solution: by value
+ * (with units) where both can be read as math, and by the option letter for
+ * multiple choice. Used for practice problems whose answer is still hidden.
+ */
+export const checkAnswer = (problem: MathProblem, attempt: string): StepVerification => {
+  const text = attempt.trim();
+  if (!text) return unverified('Enter an answer to check.');
+  if (normalizeAnswerText(text) === normalizeAnswerText(problem.solution)) return verified('That is the correct answer.');
+
+  const expectedChoice = choiceLetter(problem.solution);
+  if (expectedChoice && /^\(?[a-e][.)]?$/i.test(text)) {
+    return choiceLetter(text) === expectedChoice ? verified('That is the correct answer.') : failed('Not quite. That is not the correct option.');
+  }
+  if (expectedChoice && normalizeAnswerText(text) === normalizeAnswerText(problem.solution.replace(/^\(?[a-e][.)]\s*/i, ''))) {
+    return verified('That is the correct answer.');
+  }
+
+  try {
+    const context = createContext(problem);
+    context.answers = verifyAnswer(problem, context).answers;
+    problem.steps.forEach(step => verifyStep(step, context));
+    const result = compareWithStep(problem.solution, text, context);
+    if (result.status === 'verified') return verified('That is the correct answer.');
+    if (result.status === 'failed') return failed('Not quite. That is not the answer.');
+  } catch (error) {
+    console.error('Error checking answer:', error);
+  }
+  return unverified('Your answer could not be checked automatically. Compare it with the answer once you reveal it.');
+};
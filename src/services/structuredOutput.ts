@@ -0,0 +1,109 @@
+import { streamText, generateText, type ModelFeature, type StreamOptions } from './modelService';
+import { ModelError } from './modelErrors';
+import { validate, type ValidationResult, type Validator } from '../utils/schema';
+import { parseLatexJson } from '../utils/latex';
+
+export interface StructuredOptions extends StreamOptions {
+  maxRepairs?: number;
+}
+
+const DEFAULT_MAX_REPAIRS = 2;
+const MAX_REPORTED_VIOLATIONS = 20;
+
+/**
+ * Finds the JSON document in a model response, tolerating markdown fences and
+ * text around it, and parses it. Throws a SyntaxError when nothing parses.
+ */
+export const extractJson = (text: string): unknown => {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  const openBrace = cleaned.indexOf('{');
+  const openBracket = cleaned.indexOf('[');
+  const isArray = openBracket !== -1 && (openBrace === -1 || openBracket < openBrace);
+  const start = isArray ? openBracket : openBrace;
+  const end = isArray ? cleaned.lastIndexOf(']') : cleaned.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new SyntaxError('no JSON object or array found');
+  }
+  const json = cleaned.slice(start, end + 1);
+
+  try {
+    return parseLatexJson(json);
+  } catch (error) {
+    // Common slips: inch/degree marks left unescaped (27"F) and trailing commas
+    const patched = json.replace(/(\d)"([a-zA-Z])/g, '$1\\"$2').replace(/,\s*([\]}])/g, '$1');
+    try {
+      return parseLatexJson(patched);
+    } catch {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Parses and validates a response, turning JSON syntax errors into violations.
+ */
+export const parseStructured = <T>(text: string, schema: Validator<T>): ValidationResult<T | undefined> => {
+  let data: unknown;
+  try {
+    data = extractJson(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { value: undefined, errors: [`$: the response is not valid JSON (${reason})`] };
+  }
+  return validate(schema, data);
+};
+
+const formatViolations = (errors: string[]): string => {
+  const listed = errors.slice(0, MAX_REPORTED_VIOLATIONS).map(error => `- ${error}`);
+  if (errors.length > MAX_REPORTED_VIOLATIONS) {
+    listed.push(`- ...and ${errors.length - MAX_REPORTED_VIOLATIONS} more`);
+  }
+  return listed.join('\n');
+};
+
+const createRepairPrompt = (prompt: string, response: string, errors: string[]): string => `
+Your previous answer to the request below could not be used because it does not match the required JSON format.
+
+ORIGINAL REQUEST:
+${prompt}
+
+YOUR PREVIOUS ANSWER:
+${response}
+
+PROBLEMS FOUND (paths start at $, the root of your JSON):
+${formatViolations(errors)}
+
+Return the corrected JSON only. Fix every problem listed above, keep all content that was already correct, and do not add any text or markdown around the JSON.`;
+
+/**
+ * Asks the model for JSON matching `schema`. The first answer is streamed
+ * (so `onText` still sees it); if it does not validate, the violations are
+ * sent back in a repair prompt up to `maxRepairs` times before giving up with
+ * a `malformed` ModelError.
+ */
+export const generateStructured = async <T>(
+  feature: ModelFeature,
+  prompt: string,
+  schema: Validator<T>,
+  options: StructuredOptions = {}
+): Promise<T> => {
+  const { maxRepairs = DEFAULT_MAX_REPAIRS, ...streamOptions } = options;
+  let text = await streamText(feature, prompt, streamOptions);
+
+  for (let repair = 0; ; repair++) {
+    const { value, errors } = parseStructured(text, schema);
+    if (errors.length === 0) {
+      return value as T;
+    }
+    if (repair >= maxRepairs) {
+      console.error(`Invalid ${feature} response after ${repair} repair attempt(s):\n${formatViolations(errors)}`);
+      throw new ModelError('malformed', `The ${feature} response did not match the expected format: ${errors.slice(0, 3).join('; ')}`);
+    }
+    console.warn(`Invalid ${feature} response, asking the model to repair it:\n${formatViolations(errors)}`);
+    text = await generateText(feature, createRepairPrompt(prompt, text, errors), {
+      language: options.language,
+      signal: options.signal,
+    });
+  }
+};
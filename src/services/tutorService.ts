@@ -0,0 +1,73 @@
+import { getLanguageNameByCode } from './languageService';
+import { streamText } from './modelService';
+import { renderPrompt } from './promptRegistry';
+import type { MathProblem, MathStep, TutorMessage } from './SolverService';
+
+// Older turns are dropped so long conversations stay within the context window
+const MAX_HISTORY_MESSAGES = 12;
+
+export interface TutorQuestion {
+  problem: MathProblem;
+  stepIndex?: number; // the step being discussed; the whole problem when missing
+  message: string;
+  language: string;
+  onText?: (text: string) => void; // the answer so far, while it streams
+  signal?: AbortSignal;
+}
+
+const formatStep = (step: MathStep): string =>
+  [
+    `Step ${step.step}: ${step.description}`,
+    step.reaction && `  Reaction: ${step.reaction}`,
+    step.equation.trim() && `  Equation: ${step.equation}`,
+    step.unit && `  Unit: ${step.unit}`,
+    `  Why: ${step.explanation}`,
+  ].filter(Boolean).join('\n');
+
+const formatHistory = (thread: TutorMessage[]): string =>
+  thread
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(message => `${message.role === 'student' ? 'Student' : 'Tutor'}: ${message.content}`)
+    .join('\n\n');
+
+/**
+ * The conversation about a step, or about the whole problem without `stepIndex`.
+ */
+export const getThread = (problem: MathProblem, stepIndex?: number): TutorMessage[] =>
+  (stepIndex === undefined ? problem.thread : problem.steps[stepIndex]?.thread) || [];
+
+/**
+ * A copy of the problem with `messages` appended to the step's (or the
+ * problem's) thread.
+ */
+export const appendToThread = (problem: MathProblem, stepIndex: number | undefined, ...messages: TutorMessage[]): MathProblem => {
+  if (stepIndex === undefined) {
+    return { ...problem, thread: [...(problem.thread || []), ...messages] };
+  }
+  return {
+    ...problem,
+    steps: problem.steps.map((step, index) =>
+      index === stepIndex ? { ...step, thread: [...(step.thread || []), ...messages] } : step
+    ),
+  };
+};
+
+/**
+ * Answers a follow-up question with the whole solution and the earlier turns
+ * of the same thread as context, in the user's language.
+ */
+export const askTutor = async ({ problem, stepIndex, message, language, onText, signal }: TutorQuestion): Promise<string> => {
+  const step = stepIndex === undefined ? undefined : problem.steps[stepIndex];
+  const prompt = renderPrompt('solver.tutor', {
+    problem: problem.question,
+    solution: problem.solution,
+    steps: problem.steps.map(formatStep).join('\n'),
+    focus: step ? formatStep(step) : '',
+    history: formatHistory(getThread(problem, stepIndex)),
+    message,
+    language: getLanguageNameByCode(language),
+  }, { language });
+
+  const answer = await streamText('tutor', prompt.text, { language, signal, onText });
+  return answer.trim();
+};
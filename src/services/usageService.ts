@@ -0,0 +1,170 @@
+import { databaseService, type StoredUsageRecord } from './databaseService';
+import { ModelError } from './modelErrors';
+import type { LLMProvider, ModelResponse } from './modelProviders';
+import type { ModelFeature } from './modelService';
+
+export interface UsageBudget {
+  dailyCost?: number; // USD
+  dailyTokens?: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  averageLatencyMs: number;
+}
+
+export interface UsageSummary {
+  today: UsageTotals;
+  period: UsageTotals;
+  byFeature: Partial<Record<ModelFeature, UsageTotals>>;
+  byProvider: Record<string, UsageTotals>;
+}
+
+interface UsageEvent {
+  feature: ModelFeature;
+  provider: LLMProvider;
+  prompt?: string; // used to estimate tokens when the provider reports none
+  response?: ModelResponse;
+  latencyMs: number;
+  error?: unknown;
+}
+
+const BUDGET_STORAGE_KEY = 'usageBudget';
+
+// USD per million tokens. Models that are not listed are counted as free.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'openai/gpt-oss-120b': { input: 0.15, output: 0.75 },
+  'openai/gpt-oss-20b': { input: 0.1, output: 0.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+};
+
+/**
+ * The local calendar day, which is what daily budgets reset on.
+ */
+export const getUsageDay = (date = new Date()): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Roughly four characters per token for the languages we support
+const estimateTokens = (text?: string) => (text ? Math.ceil(text.length / 4) : 0);
+
+export const estimateCost = (provider: LLMProvider, model: string, promptTokens: number, completionTokens: number): number => {
+  const pricing = MODEL_PRICING[model];
+  if (provider.isLocal || !pricing) return 0;
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+};
+
+export const getUsageBudget = (): UsageBudget => {
+  try {
+    return JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveUsageBudget = (budget: UsageBudget) => {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+};
+
+/**
+ * Stores one model call. Failures to write are logged and otherwise ignored,
+ * so accounting never breaks a request.
+ */
+export const recordUsage = async ({ feature, provider, prompt, response, latencyMs, error }: UsageEvent): Promise<void> => {
+  const model = response?.model || provider.getModelName?.(feature === 'ocr' ? 'vision' : 'text') || 'unknown';
+  const reported = response?.usage;
+  const promptTokens = reported?.promptTokens ?? estimateTokens(prompt);
+  const completionTokens = reported?.completionTokens ?? estimateTokens(response?.text);
+  const now = new Date();
+
+  const record: StoredUsageRecord = {
+    day: getUsageDay(now),
+    feature,
+    providerId: provider.id,
+    local: Boolean(provider.isLocal),
+    model,
+    promptTokens,
+    completionTokens,
+    tokensEstimated: !reported,
+    latencyMs: Math.round(latencyMs),
+    cost: estimateCost(provider, model, promptTokens, completionTokens),
+    success: !error,
+    errorKind: error ? (error instanceof ModelError ? error.kind : 'unknown') : undefined,
+    createdAt: now.toISOString(),
+  };
+
+  try {
+    await databaseService.addUsageRecord(record);
+  } catch {
+    // Already logged by the database service
+  }
+};
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  failures: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  cost: 0,
+  averageLatencyMs: 0,
+});
+
+const addToTotals = (totals: UsageTotals, record: StoredUsageRecord) => {
+  totals.averageLatencyMs = (totals.averageLatencyMs * totals.requests + record.latencyMs) / (totals.requests + 1);
+  totals.requests++;
+  if (!record.success) totals.failures++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.cost += record.cost;
+};
+
+/**
+ * Totals for today and for the last `days` days, split by feature and provider.
+ */
+export const getUsageSummary = async (days = 7): Promise<UsageSummary> => {
+  const since = new Date();
+  since.setDate(since.getDate() - (days - 1));
+  const records = await databaseService.getUsageRecordsSince(getUsageDay(since));
+  const today = getUsageDay();
+
+  const summary: UsageSummary = { today: emptyTotals(), period: emptyTotals(), byFeature: {}, byProvider: {} };
+  for (const record of records) {
+    const feature = record.feature as ModelFeature;
+    addToTotals(summary.period, record);
+    if (record.day === today) addToTotals(summary.today, record);
+    addToTotals(summary.byFeature[feature] ??= emptyTotals(), record);
+    addToTotals(summary.byProvider[record.providerId] ??= emptyTotals(), record);
+  }
+  return summary;
+};
+
+/**
+ * Throws a `budget` ModelError once today's spending on cloud providers has
+ * reached a configured limit. Local models are free and never blocked.
+ */
+export const assertWithinBudget = async (provider: LLMProvider): Promise<void> => {
+  const budget = getUsageBudget();
+  if (provider.isLocal || (!budget.dailyCost && !budget.dailyTokens)) return;
+
+  const records = await databaseService.getUsageRecordsSince(getUsageDay());
+  let cost = 0;
+  let tokens = 0;
+  for (const record of records.filter(record => !record.local)) {
+    cost += record.cost;
+    tokens += record.promptTokens + record.completionTokens;
+  }
+
+  if (budget.dailyCost && cost >= budget.dailyCost) {
+    throw new ModelError('budget', `Daily cost budget of $${budget.dailyCost.toFixed(2)} reached ($${cost.toFixed(2)} spent today).`);
+  }
+  if (budget.dailyTokens && tokens >= budget.dailyTokens) {
+    throw new ModelError('budget', `Daily budget of ${budget.dailyTokens} tokens reached (${tokens} used today).`);
+  }
+};
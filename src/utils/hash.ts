@@ -0,0 +1,12 @@
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of text or raw bytes, e.g. an uploaded file, as lowercase hex.
+ */
+export const hashContent = async (content: string | ArrayBuffer): Promise<string> => {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  return toHex(await crypto.subtle.digest('SHA-256', bytes));
+};
+
+export const hashFile = async (file: File): Promise<string> => hashContent(await file.arrayBuffer());
@@ -0,0 +1,260 @@
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessOptions {
+  crop?: CropRect; // in pixels of the original photo; the whole photo when missing
+  straighten?: boolean;
+  boostContrast?: boolean;
+  split?: boolean; // one image per problem, split at the blank bands between them
+}
+
+export interface PreprocessResult {
+  files: File[]; // one per problem when split, otherwise one
+  skew: number; // clockwise tilt of the text in degrees, which was rotated back
+}
+
+// Phone photos are larger than OCR needs; this keeps processing fast
+const MAX_SIDE = 2000;
+// Skew and layout are found on a small copy of the image
+const ANALYSIS_SIDE = 600;
+const MAX_SKEW = 10;
+const SKEW_STEP = 0.5;
+// More regions than this means the blank bands were noise, not gaps between problems
+const MAX_REGIONS = 12;
+
+/**
+ * Otsu's threshold: the gray level that best separates ink from paper.
+ */
+const otsuThreshold = (gray: Uint8ClampedArray): number => {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach(value => histogram[value]++);
+  const total = gray.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+
+  let best = 127;
+  let bestVariance = -1;
+  let backgroundCount = 0;
+  let backgroundSum = 0;
+  for (let level = 0; level < 256; level++) {
+    backgroundCount += histogram[level];
+    if (backgroundCount === 0 || backgroundCount === total) continue;
+    backgroundSum += level * histogram[level];
+    const foregroundCount = total - backgroundCount;
+    const meanDifference = backgroundSum / backgroundCount - (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * meanDifference * meanDifference;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = level;
+    }
+  }
+  return best;
+};
+
+/**
+ * Stretches the gray levels so the darkest 1% becomes black and the
+ * lightest 1% white, which helps with dim or washed-out photos.
+ */
+export const stretchContrast = (gray: Uint8ClampedArray): Uint8ClampedArray => {
+  const sorted = Uint8ClampedArray.from(gray).sort();
+  const low = sorted[Math.floor(sorted.length * 0.01)];
+  const high = sorted[Math.floor(sorted.length * 0.99)];
+  if (high - low < 10) return gray;
+  return gray.map(value => ((value - low) * 255) / (high - low));
+};
+
+/**
+ * The angle in degrees that lines of text are tilted by, between -10 and 10.
+ * Rotating the ink so that it piles up in as few rows as possible lines the
+ * text up with the rows, so the best angle has the most uneven row profile.
+ */
+export const estimateSkew = (gray: Uint8ClampedArray, width: number, height: number): number => {
+  const threshold = otsuThreshold(gray);
+  const ink: [number, number][] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] <= threshold) ink.push([x - width / 2, y - height / 2]);
+    }
+  }
+  // Mostly ink means a dark photo, not text on paper
+  if (ink.length === 0 || ink.length > gray.length / 2) return 0;
+
+  const size = Math.ceil(Math.hypot(width, height));
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let angle = -MAX_SKEW; angle <= MAX_SKEW; angle += SKEW_STEP) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Float64Array(size);
+    for (const [x, y] of ink) {
+      rows[Math.round(y * cos - x * sin + size / 2)]++;
+    }
+    const score = rows.reduce((acc, count) => acc + count * count, 0);
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+};
+
+/**
+ * Splits a page into blocks of text separated by blank bands noticeably
+ * wider than the space between lines, which is how worksheets usually
+ * separate numbered problems. Returns a single region when no clear split
+ * is found.
+ */
+export const findProblemRegions = (gray: Uint8ClampedArray, width: number, height: number): CropRect[] => {
+  const whole = [{ x: 0, y: 0, width, height }];
+  const threshold = otsuThreshold(gray);
+  const minInk = Math.max(1, Math.round(width * 0.005));
+  const isText = Array.from({ length: height }, (_, y) => {
+    let count = 0;
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] <= threshold) count++;
+    }
+    return count >= minInk;
+  });
+
+  const lines: { start: number; end: number }[] = [];
+  isText.forEach((text, y) => {
+    if (!text) return;
+    const last = lines[lines.length - 1];
+    if (last && last.end === y - 1) last.end = y;
+    else lines.push({ start: y, end: y });
+  });
+  if (lines.length < 2) return whole;
+
+  const gaps = lines.slice(1).map((line, index) => line.start - lines[index].end - 1);
+  const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+  const lineHeight = median(lines.map(line => line.end - line.start + 1));
+  const minGap = Math.max(median(gaps) * 2, lineHeight * 1.5);
+
+  const blocks: { start: number; end: number }[] = [{ ...lines[0] }];
+  gaps.forEach((gap, index) => {
+    const line = lines[index + 1];
+    if (gap >= minGap) blocks.push({ ...line });
+    else blocks[blocks.length - 1].end = line.end;
+  });
+  if (blocks.length < 2 || blocks.length > MAX_REGIONS) return whole;
+
+  const padding = Math.round(lineHeight / 2);
+  return blocks.map(block => {
+    let left = width;
+    let right = 0;
+    for (let y = block.start; y <= block.end; y++) {
+      for (let x = 0; x < width; x++) {
+        if (gray[y * width + x] <= threshold) {
+          left = Math.min(left, x);
+          right = Math.max(right, x);
+        }
+      }
+    }
+    const top = Math.max(0, block.start - padding);
+    const bottom = Math.min(height, block.end + padding + 1);
+    const x = Math.max(0, left - padding);
+    return { x, y: top, width: Math.min(width, right + padding + 1) - x, height: bottom - top };
+  });
+};
+
+const toGray = (data: Uint8ClampedArray): Uint8ClampedArray => {
+  const gray = new Uint8ClampedArray(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('This browser cannot process images.');
+  }
+  return [canvas, context];
+};
+
+const readGray = (canvas: HTMLCanvasElement, maxSide: number) => {
+  const scale = Math.min(1, maxSide / Math.max(canvas.width, canvas.height));
+  const [small, context] = createCanvas(canvas.width * scale, canvas.height * scale);
+  context.drawImage(canvas, 0, 0, small.width, small.height);
+  const { data, width, height } = context.getImageData(0, 0, small.width, small.height);
+  return { gray: toGray(data), width, height, scale: small.width / canvas.width };
+};
+
+const toFile = async (canvas: HTMLCanvasElement, name: string): Promise<File> => {
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error(`${name} could not be saved as an image.`);
+  }
+  return new File([blob], name, { type: 'image/png' });
+};
+
+/**
+ * Prepares a phone photo of a worksheet for OCR in the browser: crops it,
+ * straightens tilted text, converts it to high-contrast grayscale and
+ * optionally splits it into one image per problem.
+ */
+export const preprocessImage = async (file: File, options: PreprocessOptions = {}): Promise<PreprocessResult> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const crop = options.crop || { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+    const scale = Math.min(1, MAX_SIDE / Math.max(crop.width, crop.height));
+    let [canvas, context] = createCanvas(crop.width * scale, crop.height * scale);
+    context.drawImage(bitmap, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+
+    let skew = 0;
+    if (options.straighten) {
+      const sample = readGray(canvas, ANALYSIS_SIDE);
+      skew = estimateSkew(options.boostContrast ? stretchContrast(sample.gray) : sample.gray, sample.width, sample.height);
+    }
+    if (skew !== 0) {
+      const radians = (-skew * Math.PI) / 180;
+      const sin = Math.abs(Math.sin(radians));
+      const cos = Math.abs(Math.cos(radians));
+      const [rotated, rotatedContext] = createCanvas(canvas.width * cos + canvas.height * sin, canvas.width * sin + canvas.height * cos);
+      rotatedContext.fillStyle = '#ffffff';
+      rotatedContext.fillRect(0, 0, rotated.width, rotated.height);
+      rotatedContext.translate(rotated.width / 2, rotated.height / 2);
+      rotatedContext.rotate(radians);
+      rotatedContext.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+      [canvas, context] = [rotated, rotatedContext];
+    }
+
+    if (options.boostContrast) {
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      const gray = stretchContrast(toGray(image.data));
+      gray.forEach((value, i) => {
+        image.data[i * 4] = image.data[i * 4 + 1] = image.data[i * 4 + 2] = value;
+      });
+      context.putImageData(image, 0, 0);
+    }
+
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    if (!options.split) {
+      return { files: [await toFile(canvas, `${baseName}-scan.png`)], skew };
+    }
+
+    const sample = readGray(canvas, ANALYSIS_SIDE * 2);
+    const regions = findProblemRegions(sample.gray, sample.width, sample.height);
+    const files = await Promise.all(regions.map(async (region, index) => {
+      const [part, partContext] = createCanvas(region.width / sample.scale, region.height / sample.scale);
+      partContext.drawImage(
+        canvas,
+        region.x / sample.scale, region.y / sample.scale, part.width, part.height,
+        0, 0, part.width, part.height
+      );
+      const name = regions.length === 1 ? `${baseName}-scan.png` : `${baseName}-problem-${index + 1}.png`;
+      return toFile(part, name);
+    }));
+    return { files, skew };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,126 @@
+import { parseLatexJson } from './latex';
+
+/**
+ * Pulls complete elements out of a JSON array while the surrounding document
+ * is still being streamed, so the UI can show each one as soon as it closes.
+ *
+ * Without `arrayKey` the first top-level array is used (`[{...}, {...}]`).
+ * With `arrayKey` the array stored under that key of the root object is used
+ * (`{"title": "...", "questions": [{...}, {...}]}`).
+ * Only object and array elements are reported. Anything outside the JSON,
+ * such as markdown fences, is ignored.
+ */
+export class IncrementalJsonArrayParser<T> {
+  private text = '';
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastKey: string | null = null;
+  private pendingKey: string | null = null;
+  private targetDepth = -1; // depth inside the target array, -1 until it is found
+  private elementStart = -1;
+  private finished = false;
+  private items: T[] = [];
+
+  constructor(
+    private onItem: (item: T, index: number) => void,
+    private arrayKey?: string
+  ) {}
+
+  /**
+   * Feeds the next piece of text. Chunks may split tokens anywhere.
+   */
+  push(chunk: string): void {
+    this.text += chunk;
+    for (; this.position < this.text.length && !this.finished; this.position++) {
+      this.consume(this.text[this.position]);
+    }
+  }
+
+  getItems(): T[] {
+    return [...this.items];
+  }
+
+  private consume(char: string): void {
+    if (this.inString) {
+      if (this.escaped) {
+        this.escaped = false;
+      } else if (char === '\\') {
+        this.escaped = true;
+      } else if (char === '"') {
+        this.inString = false;
+        if (this.depth === 1) {
+          this.lastKey = this.text.slice(this.stringStart + 1, this.position);
+        }
+      }
+      return;
+    }
+
+    switch (char) {
+      case '"':
+        // Before the root container opens we are outside the JSON
+        if (this.depth > 0) {
+          this.inString = true;
+          this.stringStart = this.position;
+        }
+        break;
+      case ':':
+        if (this.depth === 1) this.pendingKey = this.lastKey;
+        break;
+      case ',':
+        if (this.depth === 1) this.pendingKey = null;
+        break;
+      case '{':
+      case '[':
+        this.open(char);
+        break;
+      case '}':
+      case ']':
+        this.close();
+        break;
+    }
+  }
+
+  private open(char: string): void {
+    if (this.targetDepth === -1) {
+      const isTarget = this.arrayKey
+        ? char === '[' && this.depth === 1 && this.pendingKey === this.arrayKey
+        : char === '[' && this.depth === 0;
+      this.depth++;
+      if (isTarget) this.targetDepth = this.depth;
+      return;
+    }
+
+    if (this.depth === this.targetDepth) {
+      this.elementStart = this.position;
+    }
+    this.depth++;
+  }
+
+  private close(): void {
+    if (this.depth === 0) return;
+    this.depth--;
+
+    if (this.targetDepth === -1) return;
+
+    if (this.depth === this.targetDepth && this.elementStart !== -1) {
+      this.emit(this.text.slice(this.elementStart, this.position + 1));
+      this.elementStart = -1;
+    } else if (this.depth === this.targetDepth - 1) {
+      this.finished = true;
+    }
+  }
+
+  private emit(json: string): void {
+    try {
+      const item = parseLatexJson(json) as T;
+      this.items.push(item);
+      this.onItem(item, this.items.length - 1);
+    } catch (error) {
+      // The final full-document parse gets another chance at this element
+      console.warn('Skipping streamed element that is not valid JSON:', error);
+    }
+  }
+}
@@ -0,0 +1,119 @@
+export interface MathSegment {
+  type: 'text' | 'math';
+  value: string;
+  display?: boolean; // $$...$$ or \[...\]: a formula on its own line
+}
+
+// Longest delimiters first so "$$" is not read as two empty "$" pairs
+const DELIMITERS = [
+  { left: '$$', right: '$$', display: true },
+  { left: '\\[', right: '\\]', display: true },
+  { left: '\\(', right: '\\)', display: false },
+  { left: '$', right: '$', display: false },
+];
+
+/**
+ * Splits text into plain and math segments at $$..$$, \[..\], \(..\) and $..$.
+ * Unclosed delimiters and currency amounts like "$5 and $10" stay text.
+ */
+export const splitMath = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let buffer = '';
+  let position = 0;
+
+  while (position < text.length) {
+    if (text[position] === '\\' && text[position + 1] === '$') {
+      buffer += '$';
+      position += 2;
+      continue;
+    }
+
+    const delimiter = DELIMITERS.find(candidate => text.startsWith(candidate.left, position));
+    const start = position + (delimiter?.left.length || 0);
+    const end = delimiter ? text.indexOf(delimiter.right, start) : -1;
+    const body = end === -1 ? '' : text.slice(start, end);
+    // Pandoc's rule for single dollars: no space inside the delimiters and no digit right after
+    const isCurrency = delimiter?.left === '$' && (/^\s|\s$/.test(body) || /\d/.test(text[end + 1] || ''));
+
+    if (!delimiter || end === -1 || !body.trim() || isCurrency) {
+      buffer += text[position];
+      position++;
+      continue;
+    }
+
+    if (buffer) segments.push({ type: 'text', value: buffer });
+    buffer = '';
+    segments.push({ type: 'math', value: body.trim(), display: delimiter.display });
+    position = end + delimiter.right.length;
+  }
+
+  if (buffer) segments.push({ type: 'text', value: buffer });
+  return segments;
+};
+
+export const hasMath = (text: string): boolean => splitMath(text).some(segment => segment.type === 'math');
+
+/**
+ * The LaTeX source of a string, for copying into another editor: delimited
+ * math is kept as is, and a string without delimiters is taken as one formula.
+ */
+export const toLatexSource = (text: string): string => {
+  const trimmed = text.trim();
+  if (!hasMath(trimmed)) return trimmed;
+  const segments = splitMath(trimmed);
+  if (segments.length === 1) return segments[0].value;
+  return segments
+    .map(segment => (segment.type === 'text' ? `\\text{${segment.value}}` : segment.value))
+    .join(' ');
+};
+
+// LaTeX commands that begin with a JSON escape letter (\b \f \n \r \t), which
+// JSON.parse would otherwise read as control characters: "\frac" -> form feed + "rac"
+const ESCAPE_LOOKALIKES = /(^|[^\\])\\(frac|dfrac|tfrac|forall|times|text|textbf|textrm|theta|tau|tan|tanh|to|triangle|beta|bar|binom|boxed|bigl|bigr|big|nabla|neq|ne|nu|not|notin|rightarrow|right|rho|rangle|rfloor|rceil|rm)(?![a-zA-Z])/g;
+
+/**
+ * Doubles the backslash of LaTeX commands a model forgot to escape inside a
+ * JSON string. Only a repair: on valid JSON it would turn "Step 1\nu = 5"
+ * into a literal "\nu", so use it through parseLatexJson.
+ */
+export const escapeLatexInJson = (json: string): string =>
+  json.replace(ESCAPE_LOOKALIKES, (_, before: string, command: string) => `${before}\\\\${command}`);
+
+// A JSON escape, kept as is, or any other backslash, which JSON.parse rejects: "\sqrt", "\pi", "\alpha"
+const JSON_ESCAPE = /\\(["\\/bfnrt]|u[0-9a-fA-F]{4})|\\/g;
+
+// Doubles every backslash that does not start a valid JSON escape
+const escapeInvalidBackslashes = (json: string): string =>
+  json.replace(JSON_ESCAPE, (match, escape?: string) => (escape ? match : '\\\\'));
+
+// Form feeds and backspaces never belong in model text; they are \frac, \beta or \bar read as escapes
+const hasMisreadCommand = (value: unknown): boolean =>
+  typeof value === 'string'
+    ? /[\f\b]/.test(value)
+    : value !== null && typeof value === 'object' && Object.values(value).some(hasMisreadCommand);
+
+/**
+ * JSON.parse for responses that may contain LaTeX. The text is parsed as
+ * is, and only repaired when that fails or when it parsed into form feeds or
+ * backspaces. A failed parse also gets its invalid escapes doubled, which
+ * covers "\sqrt" and "\pi". Throws the original error when the repair does
+ * not help.
+ */
+export const parseLatexJson = (json: string): unknown => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    try {
+      return JSON.parse(escapeInvalidBackslashes(escapeLatexInJson(json)));
+    } catch {
+      throw error;
+    }
+  }
+  if (!hasMisreadCommand(parsed)) return parsed;
+  try {
+    return JSON.parse(escapeLatexInJson(json));
+  } catch {
+    return parsed;
+  }
+};
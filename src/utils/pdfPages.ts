@@ -0,0 +1,77 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+export interface PdfPage {
+  pageNumber: number; // 1-based, as printed by PDF viewers
+  text: string; // embedded text; empty for scanned pages
+  image?: File; // PNG of the page, only when it has too little embedded text to use
+}
+
+// Pages with less embedded text than this are treated as scans and rasterized for OCR
+const MIN_TEXT_LENGTH = 40;
+// 2x the PDF's 72 dpi is enough for OCR of handwriting and small print
+const RENDER_SCALE = 2;
+
+export const isPdf = (file: File): boolean =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+// pdf.js is large, so it is only loaded once a PDF is uploaded
+const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  return pdfjs;
+};
+
+const readText = async (page: PDFPageProxy): Promise<string> => {
+  const content = await page.getTextContent();
+  return content.items
+    .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+    .join('')
+    .replace(/[ \t]+\n/g, '\n')
+    .trim();
+};
+
+const renderImage = async (page: PDFPageProxy, fileName: string): Promise<File> => {
+  const viewport = page.getViewport({ scale: RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('This browser cannot render PDF pages.');
+  }
+
+  await page.render({ canvasContext: context, viewport }).promise;
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error(`Page ${page.pageNumber} of ${fileName} could not be rendered.`);
+  }
+  return new File([blob], `${fileName.replace(/\.pdf$/i, '')}-page-${page.pageNumber}.png`, { type: 'image/png' });
+};
+
+/**
+ * Splits a PDF into pages in the browser. Pages with embedded text return
+ * that text; scanned pages are rendered to a PNG so only they need OCR.
+ */
+export const readPdfPages = async (file: File, signal?: AbortSignal): Promise<PdfPage[]> => {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+  try {
+    const pages: PdfPage[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      signal?.throwIfAborted();
+      const page = await pdf.getPage(pageNumber);
+      try {
+        const text = await readText(page);
+        const hasText = text.replace(/\s/g, '').length >= MIN_TEXT_LENGTH;
+        pages.push({ pageNumber, text, image: hasText ? undefined : await renderImage(page, file.name) });
+      } finally {
+        page.cleanup();
+      }
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
@@ -0,0 +1,128 @@
+/**
+ * A tiny runtime schema layer for model output. A validator checks a value,
+ * records every violation with its JSON path and returns the (lightly
+ * normalised) value. Callers only trust the result when no errors were added.
+ */
+export type Validator<T> = (value: unknown, path: string, errors: string[]) => T;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+export interface ValidationResult<T> {
+  value: T;
+  errors: string[];
+}
+
+export const validate = <T>(validator: Validator<T>, value: unknown): ValidationResult<T> => {
+  const errors: string[] = [];
+  const result = validator(value, '$', errors);
+  return { value: result, errors };
+};
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+export const string = (options: { allowEmpty?: boolean } = {}): Validator<string> => (value, path, errors) => {
+  // Models often write bare numbers where text is expected ("solution": 4)
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') {
+    errors.push(`${path}: expected a string, got ${describe(value)}`);
+    return '';
+  }
+  if (!options.allowEmpty && !value.trim()) {
+    errors.push(`${path}: must not be empty`);
+  }
+  return value;
+};
+
+export const number = (options: { integer?: boolean; min?: number; max?: number } = {}): Validator<number> => (value, path, errors) => {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof parsed !== 'number' || Number.isNaN(parsed)) {
+    errors.push(`${path}: expected a number, got ${describe(value)}`);
+    return 0;
+  }
+  if (options.integer && !Number.isInteger(parsed)) {
+    errors.push(`${path}: expected a whole number, got ${parsed}`);
+  }
+  if (options.min !== undefined && parsed < options.min) {
+    errors.push(`${path}: must be at least ${options.min}, got ${parsed}`);
+  }
+  if (options.max !== undefined && parsed > options.max) {
+    errors.push(`${path}: must be at most ${options.max}, got ${parsed}`);
+  }
+  return parsed;
+};
+
+/**
+ * One of a fixed set of strings. Matching ignores case and the canonical
+ * spelling is returned ("easy" -> "Easy").
+ */
+export const oneOf = <T extends string>(allowed: readonly T[]): Validator<T> => (value, path, errors) => {
+  const match = typeof value === 'string'
+    ? allowed.find(option => option.toLowerCase() === value.trim().toLowerCase())
+    : undefined;
+  if (!match) {
+    errors.push(`${path}: expected one of ${allowed.map(option => `"${option}"`).join(', ')}, got ${JSON.stringify(value)}`);
+    return allowed[0];
+  }
+  return match;
+};
+
+export const array = <T>(item: Validator<T>, options: { min?: number; max?: number } = {}): Validator<T[]> => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array, got ${describe(value)}`);
+    return [];
+  }
+  if (options.min !== undefined && value.length < options.min) {
+    errors.push(`${path}: expected at least ${options.min} item(s), got ${value.length}`);
+  }
+  if (options.max !== undefined && value.length > options.max) {
+    errors.push(`${path}: expected at most ${options.max} item(s), got ${value.length}`);
+  }
+  return value.map((entry, index) => item(entry, `${path}[${index}]`, errors));
+};
+
+export const optional = <T>(inner: Validator<T>): Validator<T | undefined> => (value, path, errors) => {
+  return value === undefined || value === null ? undefined : inner(value, path, errors);
+};
+
+export const object = <S extends Record<string, Validator<unknown>>>(shape: S): Validator<{ [K in keyof S]: Infer<S[K]> }> =>
+  (value, path, errors) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push(`${path}: expected an object, got ${describe(value)}`);
+      return {} as { [K in keyof S]: Infer<S[K]> };
+    }
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      const checked = shape[key](source[key], `${path}.${key}`, errors);
+      if (checked !== undefined) result[key] = checked;
+    }
+    return result as { [K in keyof S]: Infer<S[K]> };
+  };
+
+export const union = <A, B>(first: Validator<A>, second: Validator<B>, label: string): Validator<A | B> => (value, path, errors) => {
+  const firstErrors: string[] = [];
+  const firstValue = first(value, path, firstErrors);
+  if (firstErrors.length === 0) return firstValue;
+
+  const secondErrors: string[] = [];
+  const secondValue = second(value, path, secondErrors);
+  if (secondErrors.length === 0) return secondValue;
+
+  errors.push(`${path}: expected ${label}, got ${describe(value)}`);
+  return firstValue;
+};
+
+/**
+ * Adds checks that span several fields, run after the shape is valid.
+ */
+export const refine = <T>(inner: Validator<T>, check: (value: T, path: string, errors: string[]) => void): Validator<T> =>
+  (value, path, errors) => {
+    const before = errors.length;
+    const result = inner(value, path, errors);
+    if (errors.length === before) check(result, path, errors);
+    return result;
+  };
@@ -0,0 +1,23 @@
+const THUMBNAIL_SIZE = 160;
+
+/**
+ * A small JPEG data URL of an uploaded image, for lists of past uploads.
+ * Returns undefined for files the browser cannot decode as an image.
+ */
+export const createThumbnail = async (file: File): Promise<string | undefined> => {
+  if (!file.type.startsWith('image/')) return undefined;
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (error) {
+    console.warn(`Could not create a thumbnail for ${file.name}:`, error);
+    return undefined;
+  }
+};
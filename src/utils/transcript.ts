@@ -0,0 +1,18 @@
+// "1.", "2)", "(3)", "Problem 4", "Question 5:", "Q6", "Exercise 7" at the start of a line
+const PROBLEM_START = /^\s*(?:\d{1,3}\s*[.)]\s|\(\d{1,3}\)\s|(?:problem|question|exercise|ex\.?|q)\s*\d{1,3}\b)/i;
+
+/**
+ * Splits text read from a worksheet into its numbered problems. Text before
+ * the first number, such as instructions, is kept as its own part; text
+ * without numbers stays in one part.
+ */
+export const splitTranscript = (text: string): string[] => {
+  const parts: string[][] = [[]];
+  for (const line of text.split('\n')) {
+    if (PROBLEM_START.test(line) && parts[parts.length - 1].some(previous => previous.trim())) {
+      parts.push([]);
+    }
+    parts[parts.length - 1].push(line);
+  }
+  return parts.map(lines => lines.join('\n').trim()).filter(Boolean);
+};